@@ -0,0 +1,149 @@
+#!/usr/bin/env node
+// Local CORS proxy for fileUrl loads. Only forwards URLs that match
+// proxy.allowedPrefixes in config.json, the same allowlist the app checks
+// before using a proxy.
+//
+// Mounted at /api/proxy by the Vite dev server, or run standalone:
+//   node scripts/cors-proxy.mjs [--port 12001] [--config public/config.json]
+// and point proxy.url at "http://localhost:12001/api/proxy?url={url}".
+
+import { readFile } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import { resolve } from 'node:path';
+import { Readable } from 'node:stream';
+import { fileURLToPath } from 'node:url';
+import { matchesUrlPrefix } from '../src/config/url-prefix.js';
+
+const MAX_REDIRECTS = 5;
+const FORWARDED_HEADERS = ['content-type', 'content-length', 'content-encoding', 'last-modified', 'etag'];
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
+  'Access-Control-Allow-Headers': 'Accept, X-Requested-With'
+};
+
+async function readAllowedPrefixes(configPath) {
+  try {
+    const config = JSON.parse(await readFile(configPath, 'utf8'));
+    const prefixes = config?.proxy?.allowedPrefixes;
+    return Array.isArray(prefixes) ? prefixes.filter(prefix => typeof prefix === 'string' && prefix !== '') : [];
+  } catch (error) {
+    if (error.code !== 'ENOENT') console.error(`cors-proxy: could not read ${configPath}:`, error.message);
+    return [];
+  }
+}
+
+// Returns why the target may not be fetched, or null when it may
+export function checkTarget(target, allowedPrefixes) {
+  let url;
+  try {
+    url = new URL(target);
+  } catch {
+    return 'not a valid URL';
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'only http and https URLs are proxied';
+  if (!allowedPrefixes.some(prefix => matchesUrlPrefix(url, prefix))) return 'URL is not in proxy.allowedPrefixes';
+  return null;
+}
+
+function sendError(res, status, message) {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end(message);
+}
+
+// Redirects are followed by hand so every hop is checked against the allowlist
+async function fetchAllowed(target, method, accept, allowedPrefixes) {
+  let url = target;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const problem = checkTarget(url, allowedPrefixes);
+    if (problem) return { status: 403, error: hop === 0 ? problem : `redirect to ${url}: ${problem}` };
+
+    const response = await fetch(url, { method, headers: { Accept: accept }, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      url = new URL(location, url).href;
+      continue;
+    }
+    return { response };
+  }
+  return { status: 502, error: `more than ${MAX_REDIRECTS} redirects` };
+}
+
+/**
+ * Connect-style middleware: GET ?url=<encoded target>. Reads the allowlist from
+ * configPath on every request, so edits to config.json apply without a restart.
+ */
+export function createCorsProxy({ configPath = 'public/config.json' } = {}) {
+  const resolvedConfig = resolve(configPath);
+
+  return async function corsProxy(req, res) {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      sendError(res, 405, 'Only GET and HEAD are supported');
+      return;
+    }
+
+    const target = new URL(req.url ?? '', 'http://localhost').searchParams.get('url');
+    if (!target) {
+      sendError(res, 400, 'Missing url parameter');
+      return;
+    }
+
+    try {
+      const allowedPrefixes = await readAllowedPrefixes(resolvedConfig);
+      const result = await fetchAllowed(target, req.method, req.headers.accept ?? '*/*', allowedPrefixes);
+      if (result.error) {
+        sendError(res, result.status, result.error);
+        return;
+      }
+
+      const { response } = result;
+      const headers = { ...CORS_HEADERS };
+      for (const name of FORWARDED_HEADERS) {
+        const value = response.headers.get(name);
+        if (value) headers[name] = value;
+      }
+      // fetch already decoded the body, so the original encoding and length no longer apply
+      if (headers['content-encoding']) {
+        delete headers['content-encoding'];
+        delete headers['content-length'];
+      }
+      res.writeHead(response.status, headers);
+      if (response.body && req.method === 'GET') {
+        Readable.fromWeb(response.body).pipe(res);
+      } else {
+        res.end();
+      }
+    } catch (error) {
+      sendError(res, 502, `Upstream request failed: ${error.message}`);
+    }
+  };
+}
+
+function parseArgs(argv) {
+  const options = { port: 12001, configPath: 'public/config.json' };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--port') options.port = Number(argv[++i]);
+    else if (argv[i] === '--config') options.configPath = argv[++i];
+  }
+  return options;
+}
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const { port, configPath } = parseArgs(process.argv.slice(2));
+  const proxy = createCorsProxy({ configPath });
+  createServer((req, res) => {
+    if (new URL(req.url ?? '', 'http://localhost').pathname !== '/api/proxy') {
+      sendError(res, 404, 'Not found');
+      return;
+    }
+    proxy(req, res);
+  }).listen(port, () => {
+    console.log(`cors-proxy: http://localhost:${port}/api/proxy?url=... (allowlist from ${resolve(configPath)})`);
+  });
+}
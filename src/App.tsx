@@ -9,8 +9,14 @@ import { WorkflowRun } from './types';
 import { UploadTrajectory } from './components/upload/UploadTrajectory';
 import { EvaluationUpload } from './components/upload/EvaluationUpload';
 import { UploadContent } from './types/upload';
-import pako from 'pako';
-import { extractFromTar } from './lib/tarExtractor';
+import { LoadProgress } from './types/loader';
+import { fetchArchiveOffThread, isAbortError, readResponseBuffer } from './lib/loaderClient';
+import { adaptInput } from './formats';
+import { getUrlFileName, openFileContent } from './lib/openFile';
+import { getAppConfig, isAllowedInUrl } from './config/app-config';
+import { ConfigErrorBanner } from './components/config/ConfigErrorBanner';
+import { LoadSource, LoadSourceNotice } from './components/loading/LoadSourceNotice';
+import { fetchWithProxyFallback } from './lib/urlLoader';
 
 const TokenPrompt: React.FC<{ isDark?: boolean }> = ({ isDark = false }) => {
   const [token, setToken] = useState('');
@@ -182,7 +188,7 @@ const RunDetailsWithRouter: React.FC = () => {
           return;
         }
         
-        const response = await fetch(`https://api.github.com/repos/${owner}/${repo}/actions/runs/${runId}`, {
+        const response = await fetch(`${getAppConfig().githubApiUrl}/repos/${owner}/${repo}/actions/runs/${runId}`, {
           headers: {
             'Authorization': `token ${token}`
           }
@@ -251,7 +257,7 @@ const RunDetailsWithRouter: React.FC = () => {
 };
 
 // Main App Component
-const App: React.FC<{ router?: boolean }> = ({ router = true }) => {
+const App: React.FC<{ router?: boolean; configErrors?: string[] }> = ({ router = true, configErrors = [] }) => {
   const [isDark, setIsDark] = useState<boolean>(() => {
     // First check localStorage
     const storedPreference = localStorage.getItem('dark_mode');
@@ -292,76 +298,17 @@ const App: React.FC<{ router?: boolean }> = ({ router = true }) => {
     loadCount: 0
   });
   
-  // Function to process trajectory data based on its format
-  const processTrajectoryData = (data: any): UploadContent => {
-    // Check if it's an array (OpenHands trajectory format)
-    if (Array.isArray(data)) {
-      // Check if it has OpenHands specific fields
-      if (data.length > 0 &&
-          (('action' in data[0] && 'source' in data[0]) ||
-           ('observation' in data[0] && 'source' in data[0]))) {
-        console.log('Detected OpenHands trajectory format - using trajectory viewer');
-
-        // Return as trajectory data for the trajectory viewer
-        return {
-          content: {
-            trajectoryData: data,
-            fileType: 'trajectory'
-          }
-        };
-      }
-
-      // For other array formats
-      return {
-        content: {
-          trajectoryData: data,
-          fileType: 'trajectory'
-        }
-      };
-    }
-    
-    // Check if it has entries array (sample-trajectory.json format)
-    if (data.entries && Array.isArray(data.entries)) {
-      console.log('Detected entries array format');
-      
-      // Return the data directly for the trajectory viewer
-      return {
-        content: {
-          trajectoryData: data,
-          fileType: 'trajectory'
-        }
-      };
-    }
-    
-    // Check if it has history array (trajectory-visualizer format)
-    if (data.history && Array.isArray(data.history)) {
-      console.log('Detected history array format - using trajectory viewer');
-
-      // Return the history array for the trajectory viewer
-      return {
-        content: {
-          trajectoryData: data.history,
-          fileType: 'trajectory'
-        }
-      };
-    }
-    
-    // If it's not in a recognized format, return as is
-    console.log('Unknown format, passing as trajectory data');
-    return {
-      content: {
-        trajectoryData: data,
-        fileType: 'trajectory'
-      }
-    };
-  };
-
   const MainContent: React.FC = () => {
     const { owner, repo } = useParams();
     const navigate = useNavigate();
     const location = useLocation();
+    const githubEnabled = getAppConfig().features.github;
     const [uploadedContent, setUploadedContent] = useState<UploadContent | null>(null);
     const [isLoadingTrajectory, setIsLoadingTrajectory] = useState<boolean>(false);
+    const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+    const loadAbortRef = useRef<{ controller: AbortController; cancelledByUser: boolean } | null>(null);
+    // How the last fileUrl was fetched, shown above the trajectory
+    const [loadSource, setLoadSource] = useState<LoadSource | null>(null);
     
     // Check for URL parameters and localStorage on initial load
     useEffect(() => {
@@ -381,6 +328,7 @@ const App: React.FC<{ router?: boolean }> = ({ router = true }) => {
         
         // Check for URL parameters
         const searchParams = new URLSearchParams(location.search);
+        const appConfig = getAppConfig();
         const dataParam = searchParams.get('data');
         const fileUrlParam = searchParams.get('fileUrl');
         const inUrlParam = searchParams.get('inUrl');
@@ -394,7 +342,7 @@ const App: React.FC<{ router?: boolean }> = ({ router = true }) => {
             console.log('Found trajectory data in URL:', parsedData);
             
             // Set the uploaded content
-            setUploadedContent(parsedData);
+            setUploadedContent(adaptInput({ kind: 'json', data: parsedData }));
             
             // Clear the URL parameter to avoid reloading the same data
             navigate(location.pathname, { replace: true });
@@ -405,63 +353,50 @@ const App: React.FC<{ router?: boolean }> = ({ router = true }) => {
         }
         
         
-        // Process fileUrl parameter - fetch trajectory from external URL
-        if (fileUrlParam) {
+        // Process fileUrl parameter - fetch a trajectory, JSONL file or archive from an external URL
+        if (fileUrlParam && !appConfig.features.fileUrl) {
+          console.warn('Ignoring fileUrl parameter: disabled in config.json');
+        } else if (fileUrlParam) {
           console.log('Found fileUrl parameter, fetching trajectory from:', fileUrlParam);
-          
-          
-          // Fetch the trajectory file from the provided URL
-          fetch(fileUrlParam, {
-            mode: 'cors', // Enable CORS
-            headers: {
-              'Accept': 'application/json'
-            }
-          })
-            .then(response => {
-              if (!response.ok) {
-                throw new Error(`Failed to fetch trajectory: ${response.status} ${response.statusText}`);
-              }
-              return response.json();
+          setIsLoadingTrajectory(true);
+          setLoadProgress(null);
+
+          const controller = new AbortController();
+          const loadState = { controller, cancelledByUser: false };
+          loadAbortRef.current = loadState;
+
+          const accept = 'application/json, application/x-ndjson, application/gzip, application/zip, application/x-tar, */*';
+          let source: LoadSource | null = null;
+          fetchWithProxyFallback(fileUrlParam, { signal: controller.signal, accept, config: appConfig })
+            .then(async ({ response, path, attempts }) => {
+              source = { url: fileUrlParam, path, attempts };
+              // The extension or content type picks JSON vs JSONL; archives are recognised by their magic bytes
+              const fileName = getUrlFileName(fileUrlParam, response.headers.get('content-type'));
+              const buffer = await readResponseBuffer(response, { onProgress: setLoadProgress });
+              console.log(`Fetched ${fileName} (${buffer.byteLength} bytes, ${path}), detecting format...`);
+              return openFileContent(new Blob([buffer]), fileName, { onProgress: setLoadProgress, signal: controller.signal });
             })
-            .then(data => {
-              console.log('Successfully fetched trajectory data from URL');
-              
-              // Process the trajectory data
-              const processedData = processTrajectoryData(data);
-              setUploadedContent(processedData);
+            .then(content => {
+              console.log('Successfully loaded trajectory from URL');
+              setLoadSource(source);
+              setUploadedContent(content);
             })
             .catch(error => {
-              console.error('Error fetching trajectory from URL:', error);
-              
-              // If direct fetch fails, try using a CORS proxy as fallback
-              console.log('Attempting to fetch via CORS proxy...');
-              const proxyUrl = `https://api.allorigins.win/raw/${fileUrlParam}`;
-              
-              return fetch(proxyUrl, {
-                headers: {
-                  'Accept': 'application/json',
-                  'X-Requested-With': 'XMLHttpRequest' // Required by some CORS proxies
-                }
-              })
-                .then(response => {
-                  if (!response.ok) {
-                    throw new Error(`Proxy fetch failed: ${response.status} ${response.statusText}`);
-                  }
-                  return response.json();
-                })
-                .then(data => {
-                  console.log('Successfully fetched trajectory data via proxy');
-                  const processedData = processTrajectoryData(data);
-                  setUploadedContent(processedData);
-                })
-                .catch(proxyError => {
-                  console.error('Proxy fetch also failed:', proxyError);
-                  alert(`Failed to load trajectory from URL: ${error.message}\nProxy attempt also failed: ${proxyError.message}`);
-                  throw proxyError; // Re-throw to trigger the finally block
-                });
+              if (loadState.cancelledByUser) {
+                console.log('Loading trajectory from URL cancelled');
+                return;
+              }
+              console.error('Failed to load trajectory from URL:', error);
+              // Once the file was fetched, say which route it came through
+              const route = source ? `\n(${source.path === 'proxy' ? 'Fetched through the proxy' : 'Fetched directly'})` : '';
+              alert(`Failed to load trajectory from URL: ${error.message}${route}`);
             })
             .finally(() => {
+              if (loadAbortRef.current === loadState) {
+                loadAbortRef.current = null;
+              }
               setIsLoadingTrajectory(false);
+              setLoadProgress(null);
               // Clear the URL parameter to avoid reloading the same data
               navigate(location.pathname, { replace: true });
             });
@@ -470,82 +405,61 @@ const App: React.FC<{ router?: boolean }> = ({ router = true }) => {
         }
         
         // Process inUrl parameter - fetch and extract tar.gz files from URL
-        if (inUrlParam) {
-          // Validate URL format for security - must be from allowed domain and be a results.tar.gz file
-          const ALLOWED_PREFIX = 'https://results.eval.all-hands.dev/';
-          const REQUIRED_SUFFIX = 'results.tar.gz';
-          
-          if (!inUrlParam.startsWith(ALLOWED_PREFIX) || !inUrlParam.endsWith(REQUIRED_SUFFIX)) {
-            console.error('Invalid inUrl: URL must start with', ALLOWED_PREFIX, 'and end with', REQUIRED_SUFFIX);
-            alert(`Invalid URL format. URL must start with "${ALLOWED_PREFIX}" and end with "${REQUIRED_SUFFIX}"`);
+        if (inUrlParam && !appConfig.features.inUrl) {
+          console.warn('Ignoring inUrl parameter: disabled in config.json');
+        } else if (inUrlParam) {
+          // Validate URL format for security - must match the allowed prefixes and suffixes from config.json
+          if (!isAllowedInUrl(inUrlParam, appConfig)) {
+            const { allowedPrefixes, allowedSuffixes } = appConfig.inUrl;
+            const prefixes = allowedPrefixes.map(prefix => `"${prefix}"`).join(' or ');
+            const suffixes = allowedSuffixes.map(suffix => `"${suffix}"`).join(' or ');
+            console.error('Invalid inUrl: URL must start with', prefixes, 'and end with', suffixes);
+            alert(`Invalid URL format. URL must start with ${prefixes} and end with ${suffixes}`);
             navigate(location.pathname, { replace: true });
             return;
           }
           
           console.log('Found inUrl parameter, fetching tar.gz from:', inUrlParam);
           setIsLoadingTrajectory(true);
+          setLoadProgress(null);
           
-          // Add timeout for fetch
+          // The same controller covers the response timeout and user cancellation
           const controller = new AbortController();
+          const loadState = { controller, cancelledByUser: false };
+          loadAbortRef.current = loadState;
           const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 second timeout
           
-          fetch(inUrlParam, {
-            mode: 'cors',
-            signal: controller.signal,
-            headers: {
-              'Accept': 'application/gzip, application/x-tar, */*'
-            }
-          })
-            .then(response => {
+          // The archive is downloaded and extracted in the background as it arrives
+          fetchArchiveOffThread(inUrlParam, {
+            onProgress: progress => {
+              // The server answered, so the timeout no longer applies
               clearTimeout(timeoutId);
-              if (!response.ok) {
-                throw new Error(`Failed to fetch tar.gz: ${response.status} ${response.statusText}`);
-              }
-              // Check content-length if available
-              const contentLength = response.headers.get('content-length');
-              if (contentLength && parseInt(contentLength) > 500_000_000) {
-                throw new Error('File too large (max 500MB)');
-              }
-              return response.arrayBuffer();
-            })
-            .then(buffer => {
-              console.log('Successfully fetched tar.gz, decompressing...');
-              const gzippedData = new Uint8Array(buffer);
-              
-              let decompressed: Uint8Array;
-              try {
-                decompressed = pako.ungzip(gzippedData);
-              } catch (ungzipError) {
-                console.warn('ungzip failed, trying inflate:', ungzipError);
-                decompressed = pako.inflate(gzippedData);
-              }
-              
-              console.log('Extracting from tar...');
-              const { jsonlContent, reportContent } = extractFromTar(decompressed);
-              
-              if (!jsonlContent) {
-                throw new Error('No JSONL content found in archive');
-              }
-              
-              setUploadedContent({
-                content: {
-                  fileType: 'full_archive' as const,
-                  jsonlContent,
-                  reportContent
-                }
-              });
+              setLoadProgress(progress);
+            },
+            signal: controller.signal
+          })
+            .then(archive => {
+              setUploadedContent(adaptInput({ kind: 'archive', archive }));
             })
             .catch(error => {
               clearTimeout(timeoutId);
+              if (loadState.cancelledByUser) {
+                console.log('Loading tar.gz from URL cancelled');
+                return;
+              }
               console.error('Error fetching tar.gz from URL:', error);
-              if (error.name === 'AbortError') {
+              if (isAbortError(error)) {
                 alert('Request timed out. Please try again.');
               } else {
                 alert(`Failed to load tar.gz from URL: ${error.message}`);
               }
             })
             .finally(() => {
+              if (loadAbortRef.current === loadState) {
+                loadAbortRef.current = null;
+              }
               setIsLoadingTrajectory(false);
+              setLoadProgress(null);
               // Keep the inUrl parameter in the URL for sharing purposes
             });
           
@@ -585,6 +499,7 @@ const App: React.FC<{ router?: boolean }> = ({ router = true }) => {
     // Handle trajectory upload
     const handleTrajectoryUpload = (content: UploadContent) => {
       setIsLoadingTrajectory(false);
+      setLoadSource(null);
       setUploadedContent(content);
     };
     
@@ -593,10 +508,23 @@ const App: React.FC<{ router?: boolean }> = ({ router = true }) => {
       setIsLoadingTrajectory(true);
     };
     
+    // Cancel an in-flight URL load
+    const handleCancelLoading = () => {
+      if (loadAbortRef.current) {
+        loadAbortRef.current.cancelledByUser = true;
+        loadAbortRef.current.controller.abort();
+      }
+    };
+    
     return (
       <div className="h-screen max-h-screen flex flex-col overflow-hidden bg-gray-50 dark:bg-gray-900">
         {/* Show loading overlay when processing trajectory */}
-        {isLoadingTrajectory && <TrajectoryLoadingOverlay />}
+        {isLoadingTrajectory && (
+          <TrajectoryLoadingOverlay
+            progress={loadProgress}
+            onCancel={loadAbortRef.current ? handleCancelLoading : undefined}
+          />
+        )}
         
         
         {/* Header */}
@@ -631,7 +559,7 @@ const App: React.FC<{ router?: boolean }> = ({ router = true }) => {
                     </svg>
                   )}
                 </button>
-                {localStorage.getItem('github_token') && (
+                {githubEnabled && localStorage.getItem('github_token') && (
                   <div className="flex items-center gap-4">
                     <RepositorySelector onSelectRepository={handleRepositorySelect} />
                     {uploadedContent && (
@@ -649,6 +577,9 @@ const App: React.FC<{ router?: boolean }> = ({ router = true }) => {
           </div>
         </header>
 
+        {configErrors.length > 0 && <ConfigErrorBanner errors={configErrors} />}
+        {uploadedContent && loadSource && <LoadSourceNotice source={loadSource} />}
+
         {/* Main Content */}
         <main className="max-w-[1920px] mx-auto px-4 sm:px-6 lg:px-8 py-4 flex-grow overflow-hidden">
           {!owner && !repo && !uploadedContent ? (
@@ -668,7 +599,7 @@ const App: React.FC<{ router?: boolean }> = ({ router = true }) => {
                   <EvaluationUpload onUpload={handleTrajectoryUpload} />
                 </div>
 
-                {!localStorage.getItem('github_token') ? (
+                {!githubEnabled ? null : !localStorage.getItem('github_token') ? (
                   <div>
                     <h2 className={`text-lg font-medium mb-4 ${isDark ? 'text-white' : 'text-gray-900'}`}>
                       Configure GitHub Token (Optional)
@@ -685,7 +616,7 @@ const App: React.FC<{ router?: boolean }> = ({ router = true }) => {
                 )}
               </div>
             </div>
-          ) : !localStorage.getItem('github_token') && owner && repo ? (
+          ) : githubEnabled && !localStorage.getItem('github_token') && owner && repo ? (
             <div className="min-h-[calc(100vh-8rem)] flex items-center justify-center">
               <TokenPrompt isDark={isDark} />
             </div>
@@ -741,7 +672,7 @@ const App: React.FC<{ router?: boolean }> = ({ router = true }) => {
                 initialContent={uploadedContent}
               />
             </div>
-          ) : owner && repo ? (
+          ) : githubEnabled && owner && repo ? (
             <div className="grid grid-cols-1 lg:grid-cols-4 gap-4 h-full">
               {/* Fixed Run List - no overflow */}
               <div className="lg:col-span-1 h-[calc(100vh-8rem)] overflow-hidden flex flex-col">
@@ -1,10 +1,16 @@
 import React, { useEffect, useState, useCallback } from 'react';
-import { RunDetailsResponse, WorkflowRun, Artifact } from '../types';
+import { RunDetailsResponse, WorkflowRun, Artifact, ArtifactManifest } from '../types';
 import { api } from '../services/api';
+import { getSourceJson, openFileContent } from '../lib/openFile';
+import { adaptInput } from '../formats';
+import { UploadContent } from '../types/upload';
 import RunDetailsSkeleton from './loading/RunDetailsSkeleton';
 import ArtifactDetails from './artifacts/ArtifactDetails';
+import ArtifactFilePicker from './artifacts/ArtifactFilePicker';
+import DetectedFormatBar from './formats/DetectedFormatBar';
 import RunHeader from './header/RunHeader';
 import JsonlViewer from '../components/jsonl-viewer/JsonlViewer';
+import FullArchiveView from './archive/FullArchiveView';
 import TrajectoryList from './share/trajectory-list';
 
 interface RunDetailsProps {
@@ -21,31 +27,103 @@ const RunDetails: React.FC<RunDetailsProps> = ({ owner, repo, run, initialConten
   const [contentLoading, setContentLoading] = useState<boolean>(false);
   const [processingArtifact, setProcessingArtifact] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  // Files in the selected artifact, and the content shown when no file is picked
+  const [manifest, setManifest] = useState<ArtifactManifest | null>(null);
+  const [summaryContent, setSummaryContent] = useState<any | null>(null);
+  const [selectedFile, setSelectedFile] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [formatError, setFormatError] = useState<string | null>(null);
+
+  const openArtifactFile = useCallback(async (artifactId: number, path: string) => {
+    const data = await api.getArtifactFile(owner, repo, artifactId, path);
+    setManifest(current => current && {
+      ...current,
+      files: current.files.map(file => (file.path === path ? { ...file, size: data.size } : file))
+    });
+    return openFileContent(data, path);
+  }, [owner, repo]);
 
   const handleArtifactSelect = useCallback(async (artifact: Artifact) => {
     if (!artifact) return;
     setContentLoading(true);
+    setFileError(null);
 
     try {
       console.log('Loading artifact content for:', artifact.name);
-      const content = await api.getArtifactContent(owner, repo, artifact.id);
-      console.log('Fetched artifact content:', content);
-      
+      const artifactManifest = await api.getArtifactManifest(owner, repo, artifact.id);
+      setManifest(artifactManifest);
+      setSummaryContent(null);
+      setSelectedFile(null);
+
+      // A first file that cannot be opened leaves the picker up to choose another
+      const path = artifactManifest.files[0].path;
+      let content: UploadContent;
+      try {
+        content = await openArtifactFile(artifact.id, path);
+      } catch (err) {
+        console.error('Failed to open artifact file:', err);
+        setFileError(err instanceof Error ? err.message : 'Failed to open artifact file');
+        setArtifactContent(null);
+        return;
+      }
+      console.log('Opened artifact file:', path, content.detection?.formatId);
+      // The run summary shows what the artifact's JSON says about the run, e.g. its issue
+      const sourceJson = getSourceJson(content);
+      setSummaryContent(sourceJson === undefined ? null : { content: sourceJson });
+
       // For large artifacts, show processing state
-      if (content?.content?.history?.length > 50 || content?.content?.jsonlHistory?.length > 50) {
+      if (content.content.fileType === 'trajectory' && content.content.trajectoryData?.length > 50) {
         setProcessingArtifact(true);
         await new Promise(resolve => setTimeout(resolve, 500));
       }
-      
+
       setArtifactContent(content);
+      setSelectedFile(path);
     } catch (err) {
       console.error('Failed to fetch artifact content:', err);
+      setManifest(null);
       setArtifactContent(null);
+      setFileError(err instanceof Error ? err.message : 'Failed to fetch artifact');
     } finally {
       setContentLoading(false);
       setProcessingArtifact(false);
     }
-  }, [owner, repo]);
+  }, [owner, repo, openArtifactFile]);
+
+  const handleFormatOverride = (formatId: string) => {
+    const detection = (artifactContent as UploadContent | null)?.detection;
+    if (!detection) return;
+    setFormatError(null);
+    try {
+      setArtifactContent(adaptInput(detection.input, formatId));
+    } catch (err) {
+      console.error('Failed to apply format:', err);
+      setFormatError(err instanceof Error ? err.message : 'Failed to apply format');
+    }
+  };
+
+  const handleFileSelect = async (path: string | null) => {
+    if (!manifest) return;
+    setFileError(null);
+    setFormatError(null);
+
+    if (path === null) {
+      setSelectedFile(null);
+      setArtifactContent(summaryContent);
+      return;
+    }
+
+    setContentLoading(true);
+    try {
+      setArtifactContent(await openArtifactFile(manifest.artifactId, path));
+      setSelectedFile(path);
+    } catch (err) {
+      console.error('Failed to open artifact file:', err);
+      setFileError(err instanceof Error ? err.message : 'Failed to open artifact file');
+    } finally {
+      setContentLoading(false);
+    }
+  };
 
   useEffect(() => {
     const fetchRunDetails = async () => {
@@ -62,6 +140,7 @@ const RunDetails: React.FC<RunDetailsProps> = ({ owner, repo, run, initialConten
             artifacts: { total_count: 0, artifacts: [] }
           });
           setArtifactContent(initialContent);
+          setManifest(null);
         } else {
           const details = await api.getRunDetails(owner, repo, run.id);
           setRunDetails(details);
@@ -98,112 +177,144 @@ const RunDetails: React.FC<RunDetailsProps> = ({ owner, repo, run, initialConten
     );
   }
 
-  // Check if we're dealing with a JSONL file
-  if (artifactContent?.content?.fileType === 'jsonl' && artifactContent?.content?.jsonlContent) {
-    console.log('Rendering JSONL viewer with content:', artifactContent.content.jsonlContent.substring(0, 100) + '...');
-    return (
-      <div className="flex flex-col h-full overflow-hidden">
-        <JsonlViewer content={artifactContent.content.jsonlContent} />
-      </div>
-    );
-  }
+  const renderArtifactContent = () => {
+    // Check if we're dealing with a JSONL file
+    if (artifactContent?.content?.fileType === 'jsonl' && artifactContent?.content?.jsonlContent) {
+      console.log('Rendering JSONL viewer with', artifactContent.content.jsonlContent.size, 'bytes');
+      return (
+        <div className="flex flex-col h-full overflow-hidden">
+          <JsonlViewer content={artifactContent.content.jsonlContent} />
+        </div>
+      );
+    }
 
-  // Check if we're dealing with a full_archive (tar.gz containing output.jsonl)
-  if (artifactContent?.content?.fileType === 'full_archive' && artifactContent?.content?.jsonlContent) {
-    console.log('Rendering full_archive JSONL viewer with content:', artifactContent.content.jsonlContent.substring(0, 100) + '...');
-    return (
-      <div className="flex flex-col h-full overflow-hidden">
-        <JsonlViewer content={artifactContent.content.jsonlContent} />
-      </div>
-    );
-  }
+    // Check if we're dealing with a full_archive (tar.gz containing output.jsonl)
+    if (artifactContent?.content?.fileType === 'full_archive' && artifactContent?.content?.jsonlContent) {
+      console.log('Rendering full_archive JSONL viewer with', artifactContent.content.jsonlContent.size, 'bytes');
+      return (
+        <div className="flex flex-col h-full overflow-hidden">
+          {artifactContent.content.archive ? (
+            <FullArchiveView
+              jsonlContent={artifactContent.content.jsonlContent}
+              report={artifactContent.content.reportContent}
+              archive={artifactContent.content.archive}
+            />
+          ) : (
+            <JsonlViewer
+              content={artifactContent.content.jsonlContent}
+              report={artifactContent.content.reportContent}
+            />
+          )}
+        </div>
+      );
+    }
 
-  // Check if we're dealing with trajectory data
-  if (artifactContent?.content?.fileType === 'trajectory' && artifactContent?.content?.trajectoryData) {
-    console.log('Rendering Trajectory viewer with', artifactContent.content.trajectoryData.length, 'items');
+    // Check if we're dealing with trajectory data
+    if (artifactContent?.content?.fileType === 'trajectory' && Array.isArray(artifactContent?.content?.trajectoryData)) {
+      console.log('Rendering Trajectory viewer with', artifactContent.content.trajectoryData.length, 'items');
 
-    return (
-      <div className="flex flex-col h-full">
-        <TrajectoryList trajectory={artifactContent.content.trajectoryData} />
-      </div>
-    );
-  }
+      return (
+        <div className="flex flex-col h-full">
+          <TrajectoryList trajectory={artifactContent.content.trajectoryData} />
+        </div>
+      );
+    }
 
-  return (
-    <div className="flex flex-col h-full overflow-hidden">
-      {/* Main Content */}
-      <div className="flex-1 min-h-0 flex flex-col gap-4 overflow-hidden">
-        {/* Run Details - full width */}
-        <div className="flex-1 h-full overflow-hidden">
-          <div className="h-full flex flex-col border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 shadow-sm overflow-hidden">
-            {/* Header */}
-            <div className="flex-none px-4 py-3 border-b border-gray-200 dark:border-gray-700">
-              <h3 className="text-lg font-medium text-gray-900 dark:text-white">Run Details</h3>
-            </div>
+    // JSON that is not a trajectory, e.g. a run summary, is shown as run and artifact details
+    const details = artifactContent?.content?.fileType === 'json' ? artifactContent.content.data : artifactContent?.content;
+
+    return (
+      <div className="flex flex-col h-full overflow-hidden">
+        {/* Main Content */}
+        <div className="flex-1 min-h-0 flex flex-col gap-4 overflow-hidden">
+          {/* Run Details - full width */}
+          <div className="flex-1 h-full overflow-hidden">
+            <div className="h-full flex flex-col border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 shadow-sm overflow-hidden">
+              {/* Header */}
+              <div className="flex-none px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">Run Details</h3>
+              </div>
             
-            {/* Content */}
-            <div className="flex-1 min-h-0 overflow-y-auto scrollbar scrollbar-w-1.5 scrollbar-thumb-gray-200/75 dark:scrollbar-thumb-gray-700/75 scrollbar-track-transparent hover:scrollbar-thumb-gray-300/75 dark:hover:scrollbar-thumb-gray-600/75 scrollbar-thumb-rounded">
-              <div className="p-4">
-                {/* Run Header */}
-                <RunHeader run={run} artifactContent={artifactContent?.content} />
+              {/* Content */}
+              <div className="flex-1 min-h-0 overflow-y-auto scrollbar scrollbar-w-1.5 scrollbar-thumb-gray-200/75 dark:scrollbar-thumb-gray-700/75 scrollbar-track-transparent hover:scrollbar-thumb-gray-300/75 dark:hover:scrollbar-thumb-gray-600/75 scrollbar-thumb-rounded">
+                <div className="p-4">
+                  {/* Run Header */}
+                  <RunHeader run={run} artifactContent={details} />
                 
-                {/* Artifact Details */}
-                {artifactContent?.content && (artifactContent.content.metrics || (artifactContent.content && !artifactContent.content.issue)) && (
-                  <>
-                    <div className="border-t border-gray-200 dark:border-gray-700 my-4"></div>
-                    <div>
-                      <h4 className="text-sm font-medium mb-3 text-gray-700 dark:text-gray-300">Artifact Data</h4>
-                      <ArtifactDetails content={artifactContent?.content} />
-                    </div>
-                  </>
-                )}
-
-                {/* Show raw content if available */}
-                {artifactContent?.content?.history && (
-                  <>
-                    <div className="border-t border-gray-200 dark:border-gray-700 my-4"></div>
-                    <div>
-                      <h4 className="text-sm font-medium mb-3 text-gray-700 dark:text-gray-300">
-                        Trajectory Data ({artifactContent.content.history.length} entries)
-                      </h4>
-                      <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-3 max-h-96 overflow-y-auto">
-                        <pre className="text-xs text-gray-600 dark:text-gray-400 whitespace-pre-wrap">
-                          {JSON.stringify(artifactContent.content.history, null, 2)}
-                        </pre>
+                  {/* Artifact Details */}
+                  {details && (details.metrics || !details.issue) && (
+                    <>
+                      <div className="border-t border-gray-200 dark:border-gray-700 my-4"></div>
+                      <div>
+                        <h4 className="text-sm font-medium mb-3 text-gray-700 dark:text-gray-300">Artifact Data</h4>
+                        <ArtifactDetails content={details} />
                       </div>
-                    </div>
-                  </>
-                )}
-
-                {/* Show JSONL history if available */}
-                {artifactContent?.content?.jsonlHistory && (
-                  <>
-                    <div className="border-t border-gray-200 dark:border-gray-700 my-4"></div>
-                    <div>
-                      <h4 className="text-sm font-medium mb-3 text-gray-700 dark:text-gray-300">
-                        JSONL History ({artifactContent.content.jsonlHistory.length} entries)
-                      </h4>
-                      <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-3 max-h-96 overflow-y-auto">
-                        <pre className="text-xs text-gray-600 dark:text-gray-400 whitespace-pre-wrap">
-                          {JSON.stringify(artifactContent.content.jsonlHistory, null, 2)}
-                        </pre>
+                    </>
+                  )}
+
+                  {/* Show raw content if available */}
+                  {details?.history && (
+                    <>
+                      <div className="border-t border-gray-200 dark:border-gray-700 my-4"></div>
+                      <div>
+                        <h4 className="text-sm font-medium mb-3 text-gray-700 dark:text-gray-300">
+                          Trajectory Data ({details.history.length} entries)
+                        </h4>
+                        <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-3 max-h-96 overflow-y-auto">
+                          <pre className="text-xs text-gray-600 dark:text-gray-400 whitespace-pre-wrap">
+                            {JSON.stringify(details.history, null, 2)}
+                          </pre>
+                        </div>
                       </div>
+                    </>
+                  )}
+
+                  {/* Show message if no content */}
+                  {!details && (
+                    <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+                      <p>No artifact content available.</p>
+                      <p className="text-sm mt-2">Select an artifact from the workflow run to view its details.</p>
                     </div>
-                  </>
-                )}
-
-                {/* Show message if no content */}
-                {!artifactContent?.content && (
-                  <div className="text-center py-8 text-gray-500 dark:text-gray-400">
-                    <p>No artifact content available.</p>
-                    <p className="text-sm mt-2">Select an artifact from the workflow run to view its details.</p>
-                  </div>
-                )}
+                  )}
+                </div>
               </div>
             </div>
           </div>
         </div>
       </div>
+    );
+  };
+
+  const filePicker = manifest && manifest.files.length > 0 && (manifest.files.length > 1 || selectedFile !== null || fileError) ? (
+    <ArtifactFilePicker
+      manifest={manifest}
+      selectedPath={selectedFile}
+      onSelect={handleFileSelect}
+      error={fileError}
+    />
+  ) : fileError ? (
+    <div className="flex-none mb-2 p-3 bg-red-100 dark:bg-red-900/10 text-red-700 dark:text-red-400 rounded-md text-sm">
+      {fileError}
+    </div>
+  ) : null;
+
+  const detection = (artifactContent as UploadContent | null)?.detection;
+  const formatBar = detection && detection.candidates.length > 0 ? (
+    <DetectedFormatBar detection={detection} onOverride={handleFormatOverride} error={formatError} />
+  ) : null;
+
+  const content = renderArtifactContent();
+  if (!filePicker && !formatBar) {
+    return content;
+  }
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden">
+      {filePicker}
+      {formatBar}
+      <div className="flex-1 min-h-0 flex flex-col">
+        {content}
+      </div>
     </div>
   );
 };
@@ -3,6 +3,7 @@ import { useParams } from 'react-router-dom';
 import { WorkflowRun, WorkflowRunsResponse } from '../types';
 import { api } from '../services/api';
 import WorkflowRunsListSkeleton from './loading/WorkflowRunsListSkeleton';
+import { getSourceJson } from '../lib/openFile';
 
 interface WorkflowRunsListProps {
   owner: string;
@@ -233,7 +234,7 @@ const WorkflowRunsList: React.FC<WorkflowRunsListProps> = ({ owner, repo, onSele
                     const artifactContent = await api.getArtifactContent(owner, repo, artifactId);
                     
                     // Check if there's issue data
-                    const content = artifactContent.content || artifactContent;
+                    const content = getSourceJson(artifactContent);
                     if (content?.issue) {
                       metadata[run.id] = {
                         title: content.issue.title || 'No Title',
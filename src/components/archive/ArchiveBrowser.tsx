@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import clsx from 'clsx';
+import { LoadedArchive } from '../../types/archive';
+import { formatBytes } from '../../utils/format';
+import ArchiveFileViewer from './ArchiveFileViewer';
+
+interface ArchiveBrowserProps {
+  archive: LoadedArchive;
+  onOpenJsonl?: (path: string, content: Blob) => void;
+}
+
+export const ArchiveBrowser: React.FC<ArchiveBrowserProps> = ({ archive, onOpenJsonl }) => {
+  const [filter, setFilter] = useState('');
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  const files = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return archive.entries
+      .filter(entry => entry.type === 'file')
+      .filter(entry => !query || entry.path.toLowerCase().includes(query))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }, [archive, filter]);
+
+  const selectedData = selectedPath ? archive.files.get(selectedPath) : undefined;
+
+  return (
+    <div className="h-full flex gap-4 min-h-0">
+      <div className="w-1/3 flex flex-col min-h-0 border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800">
+        <div className="flex-none p-2 border-b border-gray-200 dark:border-gray-700">
+          <input
+            type="text"
+            value={filter}
+            onChange={e => setFilter(e.target.value)}
+            placeholder="Filter files..."
+            className="w-full px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+          <div className="text-[10px] text-gray-500 dark:text-gray-400 mt-1">
+            {files.length} of {archive.entries.filter(entry => entry.type === 'file').length} files
+          </div>
+        </div>
+        <div className="flex-1 min-h-0 overflow-y-auto scrollbar scrollbar-w-1.5 scrollbar-thumb-gray-200/75 dark:scrollbar-thumb-gray-700/75 scrollbar-track-transparent">
+          {files.map(entry => (
+            <button
+              key={entry.path}
+              onClick={() => entry.retained && setSelectedPath(entry.path)}
+              disabled={!entry.retained}
+              title={entry.retained ? entry.path : `${entry.path} (not loaded)`}
+              className={clsx(
+                'w-full text-left px-2 py-1 text-xs flex items-center justify-between gap-2 border-b border-gray-100 dark:border-gray-700/50',
+                selectedPath === entry.path
+                  ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300'
+                  : entry.retained
+                    ? 'text-gray-800 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                    : 'text-gray-400 dark:text-gray-500 cursor-not-allowed'
+              )}
+            >
+              <span className="truncate font-mono">{entry.path}</span>
+              <span className="flex-none flex items-center gap-1 text-[10px] text-gray-500 dark:text-gray-400">
+                {!entry.retained && (
+                  <span
+                    title="Too large, or not a text file, to keep in memory"
+                    className="px-1 rounded bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400"
+                  >
+                    not loaded
+                  </span>
+                )}
+                {formatBytes(entry.size)}
+              </span>
+            </button>
+          ))}
+          {files.length === 0 && (
+            <div className="p-3 text-xs text-gray-500 dark:text-gray-400">No files match the filter.</div>
+          )}
+        </div>
+      </div>
+      <div className="flex-1 min-w-0 min-h-0 border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800">
+        {selectedPath && selectedData ? (
+          <ArchiveFileViewer
+            key={selectedPath}
+            path={selectedPath}
+            data={selectedData}
+            onOpenJsonl={onOpenJsonl}
+          />
+        ) : (
+          <div className="h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+            Select a file to view its contents
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ArchiveBrowser;
@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import JsonVisualizer from '../json-visualizer/JsonVisualizer';
+import { getArchiveFileKind } from '../../lib/archive';
+import { formatBytes } from '../../utils/format';
+
+interface ArchiveFileViewerProps {
+  path: string;
+  data: Uint8Array;
+  onOpenJsonl?: (path: string, content: Blob) => void;
+}
+
+const TEXT_PREVIEW_LIMIT = 512 * 1024; // characters shown before "Show full file"
+const JSONL_PREVIEW_LINES = 100;
+
+export const ArchiveFileViewer: React.FC<ArchiveFileViewerProps> = ({ path, data, onOpenJsonl }) => {
+  const [showFull, setShowFull] = useState(false);
+  const [visibleLines, setVisibleLines] = useState(JSONL_PREVIEW_LINES);
+
+  const text = useMemo(() => new TextDecoder('utf8').decode(data), [data]);
+  const kind = getArchiveFileKind(path);
+
+  const parsedJson = useMemo(() => {
+    if (kind !== 'json') return undefined;
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }, [kind, text]);
+
+  const jsonlLines = useMemo(() => {
+    if (kind !== 'jsonl') return [];
+    return text.split('\n').filter(line => line.trim() !== '');
+  }, [kind, text]);
+
+  const renderText = () => {
+    const truncated = !showFull && text.length > TEXT_PREVIEW_LIMIT;
+    return (
+      <>
+        <pre className="text-[11px] leading-4 whitespace-pre-wrap break-all text-gray-800 dark:text-gray-200 bg-gray-50 dark:bg-gray-900 rounded p-2">
+          {truncated ? text.slice(0, TEXT_PREVIEW_LIMIT) : text}
+        </pre>
+        {truncated && (
+          <div className="flex justify-center mt-2">
+            <button
+              onClick={() => setShowFull(true)}
+              className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 px-2 py-1 rounded-md bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/30 transition-colors"
+            >
+              Show full file ({formatBytes(data.length)})
+            </button>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  const renderJsonl = () => (
+    <div className="space-y-2">
+      {jsonlLines.slice(0, visibleLines).map((line, index) => {
+        let parsed: any;
+        try {
+          parsed = JSON.parse(line);
+        } catch {
+          parsed = undefined;
+        }
+        return (
+          <div key={index} className="border border-gray-200 dark:border-gray-700 rounded p-2">
+            <div className="text-[10px] text-gray-500 dark:text-gray-400 mb-1">Line {index + 1}</div>
+            {parsed !== undefined ? (
+              <JsonVisualizer data={parsed} excludeKeys={[]} />
+            ) : (
+              <pre className="text-[11px] whitespace-pre-wrap break-all text-red-600 dark:text-red-400">
+                {line.slice(0, 2000)}
+              </pre>
+            )}
+          </div>
+        );
+      })}
+      {jsonlLines.length > visibleLines && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => setVisibleLines(visibleLines + JSONL_PREVIEW_LINES)}
+            className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 px-2 py-1 rounded-md bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/30 transition-colors"
+          >
+            Show {Math.min(JSONL_PREVIEW_LINES, jsonlLines.length - visibleLines)} more lines
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex-none px-3 py-2 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-gray-900 dark:text-white truncate" title={path}>{path}</div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {formatBytes(data.length)}
+            {kind === 'jsonl' && ` · ${jsonlLines.length} lines`}
+          </div>
+        </div>
+        {kind === 'jsonl' && onOpenJsonl && (
+          <button
+            onClick={() => onOpenJsonl(path, new Blob([data.slice()]))}
+            className="flex-none px-2 py-1 text-xs text-white bg-blue-500 rounded-md hover:bg-blue-600 transition-colors"
+          >
+            Open in evaluation viewer
+          </button>
+        )}
+      </div>
+      <div className="flex-1 min-h-0 overflow-y-auto scrollbar scrollbar-w-1.5 scrollbar-thumb-gray-200/75 dark:scrollbar-thumb-gray-700/75 scrollbar-track-transparent p-3">
+        {kind === 'json' && parsedJson !== undefined && (
+          <JsonVisualizer data={parsedJson} excludeKeys={[]} initialExpanded={true} enableSearch={true} />
+        )}
+        {kind === 'json' && parsedJson === undefined && renderText()}
+        {kind === 'jsonl' && renderJsonl()}
+        {kind === 'text' && renderText()}
+      </div>
+    </div>
+  );
+};
+
+export default ArchiveFileViewer;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import clsx from 'clsx';
+import JsonlViewer from '../jsonl-viewer/JsonlViewer';
+import ArchiveBrowser from './ArchiveBrowser';
+import { LoadedArchive } from '../../types/archive';
+
+interface FullArchiveViewProps {
+  jsonlContent: Blob;
+  report?: any;
+  archive: LoadedArchive;
+}
+
+type FullArchiveTab = 'evaluation' | 'files';
+
+export const FullArchiveView: React.FC<FullArchiveViewProps> = ({ jsonlContent, report, archive }) => {
+  const [activeTab, setActiveTab] = useState<FullArchiveTab>('evaluation');
+  // A JSONL member opened from the file browser replaces output.jsonl in the evaluation tab
+  const [openedJsonl, setOpenedJsonl] = useState<{ path: string; content: Blob } | null>(null);
+
+  const fileCount = archive.entries.filter(entry => entry.type === 'file').length;
+
+  const handleOpenJsonl = (path: string, content: Blob) => {
+    setOpenedJsonl({ path, content });
+    setActiveTab('evaluation');
+  };
+
+  const tabClass = (tab: FullArchiveTab) => clsx(
+    'px-3 py-1.5 text-sm font-medium border-b-2 transition-colors',
+    activeTab === tab
+      ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+      : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
+  );
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden">
+      <div className="flex-none flex items-center gap-2 mb-2 border-b border-gray-200 dark:border-gray-700">
+        <button className={tabClass('evaluation')} onClick={() => setActiveTab('evaluation')}>
+          Evaluation
+        </button>
+        <button className={tabClass('files')} onClick={() => setActiveTab('files')}>
+          Archive Files ({fileCount})
+        </button>
+        {openedJsonl && (
+          <span className="ml-auto flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+            Viewing <span className="font-mono">{openedJsonl.path}</span>
+            <button
+              onClick={() => setOpenedJsonl(null)}
+              className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+            >
+              Back to output.jsonl
+            </button>
+          </span>
+        )}
+      </div>
+      {/* Both tabs stay mounted so switching does not re-parse the JSONL */}
+      <div className={clsx('flex-1 min-h-0 flex flex-col', activeTab !== 'evaluation' && 'hidden')}>
+        <JsonlViewer
+          content={openedJsonl ? openedJsonl.content : jsonlContent}
+          report={openedJsonl ? undefined : report}
+          archive={archive}
+        />
+      </div>
+      <div className={clsx('flex-1 min-h-0', activeTab !== 'files' && 'hidden')}>
+        <ArchiveBrowser archive={archive} onOpenJsonl={handleOpenJsonl} />
+      </div>
+    </div>
+  );
+};
+
+export default FullArchiveView;
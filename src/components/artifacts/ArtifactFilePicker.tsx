@@ -0,0 +1,43 @@
+import React from 'react';
+import { ArtifactManifest } from '../../types';
+import { formatBytes } from '../../utils/format';
+
+interface ArtifactFilePickerProps {
+  manifest: ArtifactManifest;
+  // null selects the artifact summary (the first file as originally shown)
+  selectedPath: string | null;
+  onSelect: (path: string | null) => void;
+  error?: string | null;
+}
+
+export const ArtifactFilePicker: React.FC<ArtifactFilePickerProps> = ({ manifest, selectedPath, onSelect, error }) => {
+  return (
+    <div className="flex-none mb-2">
+      <div className="flex items-center gap-2 px-3 py-2 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+        <label htmlFor="artifact-file-picker" className="text-xs font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap">
+          Artifact file ({manifest.files.length})
+        </label>
+        <select
+          id="artifact-file-picker"
+          value={selectedPath ?? ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+          className="flex-1 min-w-0 px-2 py-1 text-xs font-mono border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        >
+          <option value="">Run summary</option>
+          {manifest.files.map(file => (
+            <option key={file.path} value={file.path}>
+              {file.path}{file.size ? ` (${formatBytes(file.size)})` : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+      {error && (
+        <div className="mt-2 p-3 bg-red-100 dark:bg-red-900/10 text-red-700 dark:text-red-400 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArtifactFilePicker;
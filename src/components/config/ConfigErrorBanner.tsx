@@ -0,0 +1,34 @@
+import React, { useState } from 'react';
+
+interface ConfigErrorBannerProps {
+  errors: string[];
+}
+
+export const ConfigErrorBanner: React.FC<ConfigErrorBannerProps> = ({ errors }) => {
+  const [dismissed, setDismissed] = useState(false);
+
+  if (dismissed || errors.length === 0) return null;
+
+  return (
+    <div role="alert" className="flex-none bg-yellow-50 dark:bg-yellow-900/20 border-b border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-200">
+      <div className="max-w-[1920px] mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-start gap-4">
+        <div className="flex-1 text-sm">
+          <p className="font-medium">config.json has problems; the affected settings use their defaults:</p>
+          <ul className="list-disc list-inside mt-1 text-xs font-mono">
+            {errors.map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+          </ul>
+        </div>
+        <button
+          onClick={() => setDismissed(true)}
+          className="text-xs text-yellow-700 dark:text-yellow-300 hover:text-yellow-900 dark:hover:text-yellow-100"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ConfigErrorBanner;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { FormatDetection } from '../../types/format';
+
+interface DetectedFormatBarProps {
+  detection: FormatDetection;
+  onOverride: (formatId: string) => void;
+  error?: string | null;
+}
+
+const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+export const DetectedFormatBar: React.FC<DetectedFormatBarProps> = ({ detection, onOverride, error }) => {
+  const current = detection.candidates.find(candidate => candidate.id === detection.formatId);
+
+  return (
+    <div className="flex-none mb-2">
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-xs">
+        <span className="text-gray-700 dark:text-gray-300">
+          {detection.overridden ? 'Format (overridden):' : 'Detected format:'}
+        </span>
+        <select
+          value={detection.formatId}
+          onChange={(e) => onOverride(e.target.value)}
+          aria-label="Trajectory format"
+          className="px-2 py-1 text-xs border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        >
+          {detection.candidates.map(candidate => (
+            <option key={candidate.id} value={candidate.id}>
+              {candidate.label} ({formatConfidence(candidate.confidence)})
+            </option>
+          ))}
+        </select>
+        {current && !detection.overridden && current.confidence < 0.5 && (
+          <span className="text-yellow-600 dark:text-yellow-400">
+            Low confidence - pick another format if the content looks wrong
+          </span>
+        )}
+      </div>
+      {error && (
+        <div className="mt-2 p-3 bg-red-100 dark:bg-red-900/10 text-red-700 dark:text-red-400 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DetectedFormatBar;
@@ -0,0 +1,98 @@
+import React, { useMemo, useState } from 'react';
+import clsx from 'clsx';
+import { ArchiveEntry, LoadedArchive } from '../../types/archive';
+import { readArchiveText } from '../../lib/archive';
+import { summarizeInstanceReport } from '../../utils/report';
+import ArchiveFileViewer from '../archive/ArchiveFileViewer';
+
+interface InstanceEvalLogsProps {
+  archive: LoadedArchive;
+  instanceId: unknown;
+  artifacts: ArchiveEntry[];
+}
+
+const fileName = (path: string) => path.split('/').pop() || path;
+
+export const InstanceEvalLogs: React.FC<InstanceEvalLogsProps> = ({ archive, instanceId, artifacts }) => {
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const activePath = selectedPath && artifacts.some(entry => entry.path === selectedPath)
+    ? selectedPath
+    : artifacts[0]?.path ?? null;
+  const activeData = activePath ? archive.files.get(activePath) : undefined;
+
+  const testSummary = useMemo(() => {
+    const reportEntry = artifacts.find(entry => fileName(entry.path) === 'report.json');
+    const text = reportEntry ? readArchiveText(archive, reportEntry.path) : null;
+    if (!text) return null;
+    try {
+      return summarizeInstanceReport(JSON.parse(text), instanceId);
+    } catch {
+      return null;
+    }
+  }, [archive, artifacts, instanceId]);
+
+  return (
+    <div className="h-full flex flex-col">
+      {testSummary && (
+        <div className="flex-none px-3 py-2 border-b border-gray-200 dark:border-gray-700 text-xs space-y-1">
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-gray-700 dark:text-gray-300">
+            {testSummary.resolved !== null && (
+              <span className={testSummary.resolved ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                {testSummary.resolved ? 'Resolved' : 'Not resolved'}
+              </span>
+            )}
+            {testSummary.patchApplied !== null && (
+              <span>Patch {testSummary.patchApplied ? 'applied' : 'failed to apply'}</span>
+            )}
+            {testSummary.groups.map(group => (
+              <span key={group.name}>
+                {group.name}: {group.success.length} passed, {group.failure.length} failed
+              </span>
+            ))}
+          </div>
+          {testSummary.groups.filter(group => group.failure.length > 0).map(group => (
+            <details key={group.name}>
+              <summary className="cursor-pointer text-red-600 dark:text-red-400">
+                Failing {group.name} tests ({group.failure.length})
+              </summary>
+              <ul className="mt-1 ml-4 list-disc font-mono text-[11px] text-gray-700 dark:text-gray-300">
+                {group.failure.map(test => <li key={test} className="break-all">{test}</li>)}
+              </ul>
+            </details>
+          ))}
+        </div>
+      )}
+      <div className="flex-none flex flex-wrap gap-1 px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+        {artifacts.map(entry => (
+          <button
+            key={entry.path}
+            onClick={() => setSelectedPath(entry.path)}
+            disabled={!entry.retained}
+            title={entry.retained ? entry.path : `${entry.path} (not loaded)`}
+            className={clsx(
+              'px-2 py-1 text-xs rounded-md font-mono transition-colors',
+              entry.path === activePath
+                ? 'bg-blue-500 text-white'
+                : entry.retained
+                  ? 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  : 'bg-gray-50 dark:bg-gray-800 text-gray-400 dark:text-gray-500 cursor-not-allowed'
+            )}
+          >
+            {fileName(entry.path)}
+          </button>
+        ))}
+      </div>
+      <div className="flex-1 min-h-0">
+        {activePath && activeData ? (
+          <ArchiveFileViewer key={activePath} path={activePath} data={activeData} />
+        ) : (
+          <div className="h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+            This file was not loaded into memory
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InstanceEvalLogs;
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { JsonlDiagnostic, JsonlDiagnosticKind, readJsonlLine } from '../../utils/jsonl-parser';
+
+interface JsonlDiagnosticsPanelProps {
+  diagnostics: JsonlDiagnostic[];
+  // The JSONL file, for showing raw lines
+  content: Blob;
+  onJumpToLine: (line: number) => void;
+  onClose: () => void;
+}
+
+export const DIAGNOSTIC_KIND_LABELS: Record<JsonlDiagnosticKind, string> = {
+  'invalid-json': 'Invalid JSON',
+  'truncated': 'Truncated',
+  'not-an-object': 'Not an object',
+  'missing-history': 'No history'
+};
+
+const KIND_STYLES: Record<JsonlDiagnosticKind, string> = {
+  'invalid-json': 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  'truncated': 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  'not-an-object': 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  'missing-history': 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300'
+};
+
+// Long lines (whole trajectories) are cut when shown raw
+const MAX_RAW_LENGTH = 20000;
+
+export const isDiagnosticError = (diagnostic: JsonlDiagnostic): boolean => diagnostic.kind !== 'missing-history';
+
+// The snippet with the failing character highlighted
+const Snippet: React.FC<{ diagnostic: JsonlDiagnostic }> = ({ diagnostic }) => {
+  const { snippet, snippetStart, position, lineLength } = diagnostic;
+  const prefix = snippetStart > 0 ? '…' : '';
+  const suffix = snippetStart + snippet.length < lineLength ? '…' : '';
+
+  if (position === undefined) {
+    return <>{prefix}{snippet}{suffix}</>;
+  }
+  const offset = position - snippetStart;
+  return (
+    <>
+      {prefix}{snippet.slice(0, offset)}
+      <span className="bg-red-200 dark:bg-red-800 text-red-900 dark:text-red-100" title={`Position ${position}`}>
+        {snippet.slice(offset, offset + 1) || '⏎'}
+      </span>
+      {snippet.slice(offset + 1)}{suffix}
+    </>
+  );
+};
+
+const DiagnosticRow: React.FC<{
+  diagnostic: JsonlDiagnostic;
+  content: Blob;
+  onJumpToLine: (line: number) => void;
+}> = ({ diagnostic, content, onJumpToLine }) => {
+  const [showRaw, setShowRaw] = useState(false);
+  const [raw, setRaw] = useState<string | null>(null);
+
+  // The line is read from the file the first time it is shown
+  useEffect(() => {
+    if (!showRaw || raw !== null) return;
+    let stale = false;
+    readJsonlLine(content, diagnostic.line)
+      .then(line => !stale && setRaw(line ?? ''))
+      .catch(() => !stale && setRaw(''));
+    return () => {
+      stale = true;
+    };
+  }, [showRaw, raw, content, diagnostic.line]);
+
+  return (
+    <li className="px-3 py-2 border-b border-gray-100 dark:border-gray-700 last:border-b-0">
+      <div className="flex items-center gap-2 text-xs">
+        <span className={`px-1.5 py-0.5 rounded font-medium ${KIND_STYLES[diagnostic.kind]}`}>
+          {DIAGNOSTIC_KIND_LABELS[diagnostic.kind]}
+        </span>
+        <span className="font-medium text-gray-900 dark:text-white">Line {diagnostic.line}</span>
+        {diagnostic.position !== undefined && (
+          <span className="text-gray-500 dark:text-gray-400">position {diagnostic.position} of {diagnostic.lineLength}</span>
+        )}
+        <span className="flex-1" />
+        <button
+          onClick={() => onJumpToLine(diagnostic.line)}
+          className="text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          Go to entry
+        </button>
+        <button
+          onClick={() => setShowRaw(!showRaw)}
+          className="text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {showRaw ? 'Hide raw line' : 'Show raw line'}
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-gray-700 dark:text-gray-300">{diagnostic.message}</p>
+      <pre className="mt-1 text-xs font-mono whitespace-pre-wrap break-all text-gray-600 dark:text-gray-400">
+        <Snippet diagnostic={diagnostic} />
+      </pre>
+      {showRaw && (
+        <pre className="mt-2 p-2 max-h-64 overflow-auto text-xs font-mono whitespace-pre-wrap break-all rounded bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200">
+          {raw === null
+            ? 'Reading line…'
+            : raw.length > MAX_RAW_LENGTH
+              ? `${raw.slice(0, MAX_RAW_LENGTH)}\n… ${raw.length - MAX_RAW_LENGTH} more characters`
+              : raw}
+        </pre>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Lists the lines of a JSONL file that failed to parse or look wrong, so broken
+ * instances are not mistaken for empty trajectories
+ */
+export const JsonlDiagnosticsPanel: React.FC<JsonlDiagnosticsPanelProps> = ({ diagnostics, content, onJumpToLine, onClose }) => (
+  <div className="flex-none mb-2 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 shadow-sm overflow-hidden">
+    <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+      <h3 className="text-sm font-medium text-gray-900 dark:text-white">
+        Parse Diagnostics ({diagnostics.length})
+      </h3>
+      <button
+        onClick={onClose}
+        className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+      >
+        Close
+      </button>
+    </div>
+    <ul className="max-h-64 overflow-y-auto">
+      {diagnostics.map(diagnostic => (
+        <DiagnosticRow
+          key={diagnostic.line}
+          diagnostic={diagnostic}
+          content={content}
+          onJumpToLine={onJumpToLine}
+        />
+      ))}
+    </ul>
+  </div>
+);
+
+export default JsonlDiagnosticsPanel;
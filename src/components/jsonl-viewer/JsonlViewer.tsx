@@ -1,104 +1,152 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { JsonlEntry, parseJsonlFile } from '../../utils/jsonl-parser';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { JsonlDiagnostic, JsonlEntry, getJsonlDiagnostics } from '../../utils/jsonl-parser';
+import { parseJsonlOffThread } from '../../lib/loaderClient';
+import { LoadProgress } from '../../types/loader';
+import { TrajectoryLoadingOverlay } from '../loading/TrajectoryLoadingOverlay';
+import {
+  getReportStatus,
+  summarizeEvalReport,
+  ReportStatus,
+  REPORT_STATUSES,
+  REPORT_STATUS_LABELS
+} from '../../utils/report';
+import { ReportStatusBadge, ReportSummaryBanner } from './ReportSummary';
+import InstanceEvalLogs from './InstanceEvalLogs';
+import JsonlDiagnosticsPanel, { DIAGNOSTIC_KIND_LABELS, isDiagnosticError } from './JsonlDiagnosticsPanel';
+import { LoadedArchive } from '../../types/archive';
+import { findInstanceArtifacts } from '../../lib/archive';
 import JsonlViewerSettings, { JsonlViewerSettings as JsonlViewerSettingsType } from './JsonlViewerSettings';
 import { getNestedValue, formatValueForDisplay } from '../../utils/object-utils';
-import { TrajectoryItem } from '../../types/share';
 import { TrajectoryHistoryEntry } from '../../types/trajectory';
 import JsonVisualizer from '../json-visualizer/JsonVisualizer';
-import { DEFAULT_JSONL_VIEWER_SETTINGS } from '../../config/jsonl-viewer-config';
-import {
-  isAgentStateChange,
-  isUserMessage,
-  isAssistantMessage,
-  isCommandAction,
-  isCommandObservation,
-  isIPythonAction,
-  isIPythonObservation,
-  isFinishAction,
-  isErrorObservation,
-  isReadAction,
-  isReadObservation,
-  isEditAction,
-  isEditObservation,
-  isThinkAction,
-  isThinkObservation,
-  isEnvironmentEvent,
-  isAgentContextEvent,
-  isSystemPrompt,
-  isUserLLMMessage,
-  isAgentThought,
-  isAgentAction
-} from "../../utils/share";
-import {
-  AgentStateChangeComponent,
-  UserMessageComponent,
-  AssistantMessageComponent,
-  CommandActionComponent,
-  CommandObservationComponent,
-  IPythonActionComponent,
-  IPythonObservationComponent,
-  FinishActionComponent,
-  ReadActionComponent,
-  ReadObservationComponent,
-  EditActionComponent,
-  EditObservationComponent,
-  ErrorObservationComponent,
-  ThinkActionComponent,
-  ThinkObservationComponent,
-  EnvironmentEventComponent,
-  SystemPromptComponent,
-  UserLLMMessageComponent,
-  AgentThoughtComponent,
-  AgentActionComponent,
-  AgentContextComponent
-} from "../share/trajectory-list-items";
-import { CSyntaxHighlighter } from "../syntax-highlighter";
-import { TrajectoryCard } from "../share/trajectory-card";
+import { getAppConfig } from '../../config/app-config';
+import { getVisibleEvents, normalizeEvents } from '../../events';
+import { TrajectoryTimeline } from '../share/trajectory-timeline';
 
 interface JsonlViewerProps {
-  content: string;
+  // The JSONL file; parsed in a worker without being read on the main thread
+  content: Blob;
+  report?: any;
+  // Archive the content came from; enables the per-instance eval logs tab
+  archive?: LoadedArchive;
 }
 
-const JsonlViewer: React.FC<JsonlViewerProps> = ({ content }) => {
+// Sidebar filter by report status; 'none' selects instances missing from the report
+type ReportStatusFilter = 'all' | ReportStatus | 'none';
+
+// Sort order for the report_status virtual field
+const REPORT_STATUS_RANK: Record<ReportStatus, number> = {
+  resolved: 0,
+  unresolved: 1,
+  empty_patch: 2,
+  error: 3
+};
+
+const JsonlViewer: React.FC<JsonlViewerProps> = ({ content, report, archive }) => {
   const [entries, setEntries] = useState<JsonlEntry[]>([]);
   const [currentEntryIndex, setCurrentEntryIndex] = useState<number>(0);
   const [error, setError] = useState<string | null>(null);
   const [trajectoryItems, setTrajectoryItems] = useState<TrajectoryHistoryEntry[]>([]);
-  const [settings, setSettings] = useState<JsonlViewerSettingsType>(DEFAULT_JSONL_VIEWER_SETTINGS);
+  const [settings, setSettings] = useState<JsonlViewerSettingsType>(() => {
+    const { jsonlViewer } = getAppConfig();
+    return { ...jsonlViewer, displayFields: [...jsonlViewer.displayFields] };
+  });
   const [originalEntries, setOriginalEntries] = useState<JsonlEntry[]>([]);
+  const [parseProgress, setParseProgress] = useState<LoadProgress | null>(null);
+  const [isParsing, setIsParsing] = useState<boolean>(false);
+  const [parseCancelled, setParseCancelled] = useState<boolean>(false);
+  const parseAbortRef = useRef<AbortController | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ReportStatusFilter>('all');
+  const [timelineTab, setTimelineTab] = useState<'trajectory' | 'eval-logs'>('trajectory');
+  const [showDiagnostics, setShowDiagnostics] = useState<boolean>(false);
+  const selectedEntryRef = useRef<HTMLDivElement | null>(null);
+
+  // Join output.report.json onto entries by instance_id
+  const reportSummary = useMemo(() => summarizeEvalReport(report), [report]);
 
-  // Parse the JSONL file on component mount or when content changes
+  // Lines that failed to parse or have no history
+  const diagnostics = useMemo(() => getJsonlDiagnostics(originalEntries), [originalEntries]);
+  const diagnosticErrorCount = diagnostics.filter(isDiagnosticError).length;
+
+  // Parse the JSONL file off the main thread on mount or when content changes
   useEffect(() => {
-    try {
-      const parsedEntries = parseJsonlFile(content);
-      setOriginalEntries(parsedEntries);
-      
-      // Apply initial sorting
-      sortAndSetEntries(parsedEntries, settings);
-      
-      // Extract trajectory items if available
-      if (parsedEntries.length > 0) {
-        const currentEntry = parsedEntries[0];
-        if (currentEntry.history && Array.isArray(currentEntry.history)) {
-          setTrajectoryItems(currentEntry.history);
-        }
-      }
-    } catch (err) {
-      console.error('Error parsing JSONL file:', err);
-      setError(`Failed to parse JSONL file: ${err instanceof Error ? err.message : 'Unknown error'}`);
-    }
+    const controller = new AbortController();
+    parseAbortRef.current = controller;
+    let stale = false;
+
+    setIsParsing(true);
+    setParseCancelled(false);
+    setParseProgress(null);
+    setError(null);
+
+    parseJsonlOffThread(content, { onProgress: setParseProgress, signal: controller.signal })
+      .then(({ entries: parsedEntries, cancelled }) => {
+        if (stale) return;
+        setParseCancelled(cancelled);
+        setOriginalEntries(parsedEntries);
+        
+        // Apply initial sorting
+        sortAndSetEntries(parsedEntries, settings, statusFilter);
+      })
+      .catch(err => {
+        if (stale) return;
+        console.error('Error parsing JSONL file:', err);
+        setError(`Failed to parse JSONL file: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      })
+      .finally(() => {
+        if (stale) return;
+        parseAbortRef.current = null;
+        setIsParsing(false);
+        setParseProgress(null);
+      });
+
+    return () => {
+      // Content changed or the viewer unmounted - drop the in-flight parse
+      stale = true;
+      controller.abort();
+    };
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [content]);
 
-  // Sort entries based on settings
-  const sortAndSetEntries = (entriesToSort: JsonlEntry[], currentSettings: JsonlViewerSettingsType) => {
+  // Report status of an entry, if a report was loaded
+  const getEntryReportStatus = (entry: JsonlEntry): ReportStatus | null =>
+    getReportStatus(reportSummary, entry.instance_id);
+
+  // Resolve a field for sorting and display, falling back to the report
+  // when the JSONL line itself does not carry report.resolved
+  const getEntryValue = (entry: JsonlEntry, field: string): any => {
+    if (field === 'report_status') {
+      return getEntryReportStatus(entry);
+    }
+    const value = getNestedValue(entry, field, null);
+    if (value === null && field === 'report.resolved' && reportSummary) {
+      const status = getEntryReportStatus(entry);
+      return status ? status === 'resolved' : null;
+    }
+    return value;
+  };
+
+  const matchesStatusFilter = (entry: JsonlEntry, filter: ReportStatusFilter): boolean => {
+    if (filter === 'all') return true;
+    const status = getEntryReportStatus(entry);
+    return filter === 'none' ? status === null : status === filter;
+  };
+
+  // Sort and filter entries based on settings
+  const sortAndSetEntries = (
+    entriesToSort: JsonlEntry[],
+    currentSettings: JsonlViewerSettingsType,
+    currentFilter: ReportStatusFilter
+  ): JsonlEntry[] => {
     if (entriesToSort.length === 0) {
       setError('No valid entries found in the JSONL file');
-      return;
+      return [];
     }
     
-    // Create a copy of the entries to sort
-    const sortedEntries = [...entriesToSort].sort((a, b) => {
+    // Create a filtered copy of the entries to sort
+    const sortedEntries = entriesToSort
+      .filter(entry => matchesStatusFilter(entry, currentFilter))
+      .sort((a, b) => {
       // Special handling for duration sorting
       if (currentSettings.sortField === 'duration') {
         const durationA = a.history && Array.isArray(a.history) ? calculateDurationMs(a.history) : 0;
@@ -107,8 +155,14 @@ const JsonlViewer: React.FC<JsonlViewerProps> = ({ content }) => {
       }
 
       // Get values using the sort field
-      const valueA = getNestedValue(a, currentSettings.sortField, null);
-      const valueB = getNestedValue(b, currentSettings.sortField, null);
+      let valueA = getEntryValue(a, currentSettings.sortField);
+      let valueB = getEntryValue(b, currentSettings.sortField);
+
+      // Rank report statuses instead of sorting them alphabetically
+      if (currentSettings.sortField === 'report_status') {
+        valueA = valueA === null ? null : REPORT_STATUS_RANK[valueA as ReportStatus];
+        valueB = valueB === null ? null : REPORT_STATUS_RANK[valueB as ReportStatus];
+      }
       
       // Handle null/undefined values
       if (valueA === null && valueB === null) return 0;
@@ -137,15 +191,22 @@ const JsonlViewer: React.FC<JsonlViewerProps> = ({ content }) => {
     setEntries(sortedEntries);
     
     // Set the first entry as current
-    if (sortedEntries.length > 0) {
-      setCurrentEntryIndex(0);
-    }
+    setCurrentEntryIndex(0);
+    const firstEntry = sortedEntries[0];
+    setTrajectoryItems(firstEntry?.history && Array.isArray(firstEntry.history) ? firstEntry.history : []);
+    return sortedEntries;
   };
 
   // Handle settings changes
   const handleSettingsChange = (newSettings: JsonlViewerSettingsType) => {
     setSettings(newSettings);
-    sortAndSetEntries(originalEntries, newSettings);
+    sortAndSetEntries(originalEntries, newSettings, statusFilter);
+  };
+
+  // Handle report status filter changes
+  const handleStatusFilterChange = (newFilter: ReportStatusFilter) => {
+    setStatusFilter(newFilter);
+    sortAndSetEntries(originalEntries, settings, newFilter);
   };
 
   const handleSelectEntry = (index: number) => {
@@ -162,6 +223,26 @@ const JsonlViewer: React.FC<JsonlViewerProps> = ({ content }) => {
     }
   };
 
+  // Select the entry parsed from a line, clearing the status filter if it hides it
+  const handleJumpToLine = (line: number) => {
+    const target = originalEntries.find(entry => (entry._diagnostic as JsonlDiagnostic | undefined)?.line === line);
+    if (!target) return;
+
+    let visibleEntries = entries;
+    if (!visibleEntries.includes(target)) {
+      setStatusFilter('all');
+      visibleEntries = sortAndSetEntries(originalEntries, settings, 'all');
+    }
+    setCurrentEntryIndex(visibleEntries.indexOf(target));
+    setTrajectoryItems(Array.isArray(target.history) ? target.history : []);
+    setTimelineTab('trajectory');
+  };
+
+  // Keep the selected entry visible after jumping to it
+  useEffect(() => {
+    selectedEntryRef.current?.scrollIntoView?.({ block: 'nearest' });
+  }, [currentEntryIndex]);
+
   // Get entry display name for the sidebar
   const getEntryDisplayName = (entry: JsonlEntry, index: number): string => {
     if (entry.instance_id) return `Instance #${entry.instance_id}`;
@@ -170,7 +251,7 @@ const JsonlViewer: React.FC<JsonlViewerProps> = ({ content }) => {
   };
 
   // Helper function to calculate duration in milliseconds
-  const calculateDurationMs = (history: TrajectoryHistoryEntry[]): number => {
+  const calculateDurationMs = (history: { timestamp?: string }[]): number => {
     if (!history || history.length === 0 || !history[0].timestamp) return 0;
     
     const startTime = new Date(history[0].timestamp || new Date());
@@ -190,7 +271,7 @@ const JsonlViewer: React.FC<JsonlViewerProps> = ({ content }) => {
   };
 
   // Helper function to calculate duration string
-  const calculateDuration = (history: TrajectoryHistoryEntry[]): string | null => {
+  const calculateDuration = (history: { timestamp?: string }[]): string | null => {
     const durationMs = calculateDurationMs(history);
     return durationMs > 0 ? formatDuration(durationMs) : null;
   };
@@ -202,7 +283,7 @@ const JsonlViewer: React.FC<JsonlViewerProps> = ({ content }) => {
       return (
         <div className="space-y-1">
           {settings.displayFields.map((field, idx) => {
-            const value = getNestedValue(entry, field, null);
+            const value = getEntryValue(entry, field);
             const displayValue = formatValueForDisplay(value, field);
             
             // Format the field name for display
@@ -242,13 +323,14 @@ const JsonlViewer: React.FC<JsonlViewerProps> = ({ content }) => {
     return 'No summary available';
   };
 
-  if (error) {
-    return (
-      <div className="p-4 bg-red-100 dark:bg-red-900/10 rounded-lg">
-        <p className="text-red-500 dark:text-red-400">{error}</p>
-      </div>
-    );
-  }
+  // eval_outputs/<instance_id>/ files for the selected instance
+  const currentArtifacts = useMemo(() => {
+    const entry = entries[currentEntryIndex];
+    if (!archive || !entry) return [];
+    return findInstanceArtifacts(archive, entry.instance_id);
+  }, [archive, entries, currentEntryIndex]);
+
+  const showEvalLogs = timelineTab === 'eval-logs' && currentArtifacts.length > 0;
 
   // Get the current entry without the history field for the JSON visualizer
   const currentEntryWithoutHistory = useMemo(() => {
@@ -256,29 +338,46 @@ const JsonlViewer: React.FC<JsonlViewerProps> = ({ content }) => {
     return { ...entries[currentEntryIndex], history: undefined };
   }, [entries, currentEntryIndex]);
 
-  // Function to filter out unwanted trajectory items
-  const shouldDisplayItem = (item: TrajectoryHistoryEntry): boolean => {
-    // Filter out change_agent_state actions
-    if (item.action === "change_agent_state") {
-      return false;
-    }
-
-    // Filter out null observations
-    if (item.observation === "null") {
-      return false;
-    }
+  // The selected entry's history in the normalized event model, without bookkeeping events
+  const trajectoryEvents = useMemo(
+    () => getVisibleEvents(normalizeEvents(trajectoryItems)),
+    [trajectoryItems]
+  );
 
-    // Keep all other items
-    return true;
-  };
+  if (isParsing) {
+    return (
+      <TrajectoryLoadingOverlay
+        message="Parsing evaluation output..."
+        progress={parseProgress}
+        onCancel={() => parseAbortRef.current?.abort()}
+      />
+    );
+  }
 
-  // Filter the trajectory items
-  const filteredTrajectoryItems = useMemo(() => {
-    return trajectoryItems.filter(shouldDisplayItem);
-  }, [trajectoryItems]);
+  if (error) {
+    return (
+      <div className="p-4 bg-red-100 dark:bg-red-900/10 rounded-lg">
+        <p className="text-red-500 dark:text-red-400">{error}</p>
+      </div>
+    );
+  }
 
   return (
     <div className="flex flex-col h-full overflow-hidden">
+      {parseCancelled && (
+        <div className="flex-none mb-2 px-3 py-2 text-xs rounded-md bg-yellow-50 dark:bg-yellow-900/10 text-yellow-700 dark:text-yellow-400 border border-yellow-200 dark:border-yellow-800">
+          Parsing was cancelled - showing the first {originalEntries.length} entries only.
+        </div>
+      )}
+      {reportSummary && <ReportSummaryBanner summary={reportSummary} />}
+      {showDiagnostics && diagnostics.length > 0 && (
+        <JsonlDiagnosticsPanel
+          diagnostics={diagnostics}
+          content={content}
+          onJumpToLine={handleJumpToLine}
+          onClose={() => setShowDiagnostics(false)}
+        />
+      )}
       {/* Settings */}
       <JsonlViewerSettings 
         settings={settings} 
@@ -290,30 +389,75 @@ const JsonlViewer: React.FC<JsonlViewerProps> = ({ content }) => {
         {/* Sidebar with entries list */}
         <div className="flex-none lg:w-1/5 h-full max-h-full border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 shadow-sm overflow-hidden flex flex-col">
           <div className="flex-none px-3 py-2 border-b border-gray-200 dark:border-gray-700">
-            <h3 className="text-sm font-medium text-gray-900 dark:text-white">
-              Evaluation Instances ({entries.length})
-            </h3>
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-sm font-medium text-gray-900 dark:text-white">
+                Evaluation Instances ({entries.length})
+              </h3>
+              {diagnostics.length > 0 && (
+                <button
+                  onClick={() => setShowDiagnostics(!showDiagnostics)}
+                  title={`${diagnosticErrorCount} unparseable, ${diagnostics.length - diagnosticErrorCount} without history`}
+                  className={`px-1.5 py-0.5 text-xs font-medium rounded ${diagnosticErrorCount > 0
+                    ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300'
+                    : 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300'}`}
+                >
+                  {diagnostics.length} {diagnostics.length === 1 ? 'issue' : 'issues'}
+                </button>
+              )}
+            </div>
             <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
               Sorted by: {settings.sortField} ({settings.sortDirection === 'asc' ? 'ascending' : 'descending'})
             </div>
+            {reportSummary && (
+              <select
+                value={statusFilter}
+                onChange={(e) => handleStatusFilterChange(e.target.value as ReportStatusFilter)}
+                aria-label="Filter by report status"
+                className="mt-2 w-full px-2 py-1 text-xs border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                <option value="all">All report statuses</option>
+                {REPORT_STATUSES.map(status => (
+                  <option key={status} value={status}>{REPORT_STATUS_LABELS[status]}</option>
+                ))}
+                <option value="none">Not in report</option>
+              </select>
+            )}
           </div>
           <div className="flex-1 overflow-y-auto scrollbar scrollbar-w-1.5 scrollbar-thumb-gray-200/75 dark:scrollbar-thumb-gray-700/75 scrollbar-track-transparent hover:scrollbar-thumb-gray-300/75 dark:hover:scrollbar-thumb-gray-600/75 scrollbar-thumb-rounded">
             {entries.map((entry, index) => (
               <div 
                 key={index}
+                ref={index === currentEntryIndex ? selectedEntryRef : undefined}
                 onClick={() => handleSelectEntry(index)}
                 className={`px-3 py-2 cursor-pointer border-b border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors ${
                   index === currentEntryIndex ? 'bg-blue-50 dark:bg-blue-900/20' : ''
                 }`}
               >
-                <div className="text-sm font-medium text-gray-900 dark:text-white">
-                  {getEntryDisplayName(entry, index)}
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                    {getEntryDisplayName(entry, index)}
+                  </span>
+                  {reportSummary && <ReportStatusBadge status={getEntryReportStatus(entry)} />}
+                  {entry._diagnostic && (
+                    <span
+                      className={`flex-none px-1.5 py-0.5 text-xs rounded ${isDiagnosticError(entry._diagnostic)
+                        ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300'
+                        : 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300'}`}
+                    >
+                      {DIAGNOSTIC_KIND_LABELS[(entry._diagnostic as JsonlDiagnostic).kind]}
+                    </span>
+                  )}
                 </div>
                 <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                   {getEntrySummary(entry)}
                 </div>
               </div>
             ))}
+            {entries.length === 0 && (
+              <div className="px-3 py-4 text-xs text-center text-gray-500 dark:text-gray-400">
+                No instances match the selected filter.
+              </div>
+            )}
           </div>
         </div>
 
@@ -323,11 +467,24 @@ const JsonlViewer: React.FC<JsonlViewerProps> = ({ content }) => {
             {/* Timeline Header - fixed */}
             <div className="flex-none h-10 px-3 py-2 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
               <h3 className="text-sm font-medium text-gray-900 dark:text-white flex items-center">
-                <span>Trajectory ({filteredTrajectoryItems.length} steps)</span>
-                {(() => {
-                  const duration = calculateDuration(filteredTrajectoryItems);
+                <button
+                  onClick={() => setTimelineTab('trajectory')}
+                  className={showEvalLogs ? 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300' : ''}
+                >
+                  Trajectory ({trajectoryEvents.length} steps)
+                </button>
+                {!showEvalLogs && (() => {
+                  const duration = calculateDuration(trajectoryEvents);
                   return duration && <span className="text-gray-500 dark:text-gray-400 ml-2">- {duration}</span>;
                 })()}
+                {currentArtifacts.length > 0 && (
+                  <button
+                    onClick={() => setTimelineTab('eval-logs')}
+                    className={`ml-4 ${showEvalLogs ? '' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'}`}
+                  >
+                    Eval Logs ({currentArtifacts.length})
+                  </button>
+                )}
               </h3>
               <div className="text-xs text-gray-500 dark:text-gray-400">
                 {entries[currentEntryIndex] && (
@@ -338,79 +495,41 @@ const JsonlViewer: React.FC<JsonlViewerProps> = ({ content }) => {
               </div>
             </div>
             
+            {showEvalLogs && archive && (
+              <div className="flex-1 min-h-0">
+                <InstanceEvalLogs
+                  archive={archive}
+                  instanceId={entries[currentEntryIndex]?.instance_id}
+                  artifacts={currentArtifacts}
+                />
+              </div>
+            )}
+
             {/* Timeline Content - scrollable */}
-            <div className="flex-1 min-h-0 overflow-y-auto scrollbar scrollbar-w-1.5 scrollbar-thumb-gray-200/75 dark:scrollbar-thumb-gray-700/75 scrollbar-track-transparent hover:scrollbar-thumb-gray-300/75 dark:hover:scrollbar-thumb-gray-600/75 scrollbar-thumb-rounded p-4">
-              {filteredTrajectoryItems.length > 0 ? (
+            <div className={`${showEvalLogs ? 'hidden ' : ''}flex-1 min-h-0 overflow-y-auto scrollbar scrollbar-w-1.5 scrollbar-thumb-gray-200/75 dark:scrollbar-thumb-gray-700/75 scrollbar-track-transparent hover:scrollbar-thumb-gray-300/75 dark:hover:scrollbar-thumb-gray-600/75 scrollbar-thumb-rounded p-4`}>
+              {trajectoryEvents.length > 0 ? (
                 <div className="flex flex-col items-center gap-4">
-                  {filteredTrajectoryItems.map((item, index) => {
-                    const trajectoryItem = item as unknown as TrajectoryItem;
-                    
-                    // Check OpenHands history format first
-                    if (isAgentContextEvent(item)) {
-                      // Show agent context with skills as a dedicated component
-                      return <AgentContextComponent key={index} data={item} timestamp={item.timestamp} />;
-                    } else if (isEnvironmentEvent(item)) {
-                      return <EnvironmentEventComponent key={index} event={item} />;
-                    } else if (isSystemPrompt(item)) {
-                      return <SystemPromptComponent key={index} data={item} />;
-                    } else if (isUserLLMMessage(item)) {
-                      return <UserLLMMessageComponent key={index} message={item} />;
-                    } else if (isAgentThought(item)) {
-                      return <AgentThoughtComponent key={index} thought={item} />;
-                    } else if (isAgentAction(item)) {
-                      return <AgentActionComponent key={index} action={item} />;
-                    }
-                    
-                    // Then check standard format
-                    if (isAgentStateChange(trajectoryItem)) {
-                      return <AgentStateChangeComponent key={index} state={trajectoryItem as any} />;
-                    } else if (isUserMessage(trajectoryItem)) {
-                      return <UserMessageComponent key={index} message={trajectoryItem as any} />;
-                    } else if (isAssistantMessage(trajectoryItem)) {
-                      return <AssistantMessageComponent key={index} message={trajectoryItem as any} />;
-                    } else if (isCommandAction(trajectoryItem)) {
-                      return <CommandActionComponent key={index} command={trajectoryItem as any} />;
-                    } else if (isCommandObservation(trajectoryItem)) {
-                      return <CommandObservationComponent key={index} observation={trajectoryItem as any} />;
-                    } else if (isIPythonAction(trajectoryItem)) {
-                      return <IPythonActionComponent key={index} action={trajectoryItem as any} />;
-                    } else if (isIPythonObservation(trajectoryItem)) {
-                      return <IPythonObservationComponent key={index} observation={trajectoryItem as any} />;
-                    } else if (isFinishAction(trajectoryItem)) {
-                      return <FinishActionComponent key={index} action={trajectoryItem as any} />;
-                    } else if (isErrorObservation(trajectoryItem)) {
-                      return <ErrorObservationComponent key={index} observation={trajectoryItem as any} />;
-                    } else if (isReadAction(trajectoryItem)) {
-                      return <ReadActionComponent key={index} item={trajectoryItem as any} />;
-                    } else if (isReadObservation(trajectoryItem)) {
-                      return <ReadObservationComponent key={index} observation={trajectoryItem as any} />;
-                    } else if (isEditAction(trajectoryItem)) {
-                      return <EditActionComponent key={index} item={trajectoryItem as any} />;
-                    } else if (isEditObservation(trajectoryItem)) {
-                      return <EditObservationComponent key={index} observation={trajectoryItem as any} />;
-                    } else if (isThinkAction(trajectoryItem)) {
-                      return <ThinkActionComponent key={index} action={trajectoryItem as any} />;
-                    } else if (isThinkObservation(trajectoryItem)) {
-                      return <ThinkObservationComponent key={index} observation={trajectoryItem as any} />;
-                    } else {
-                      return (
-                        <TrajectoryCard key={index}>
-                          <CSyntaxHighlighter
-                            language="json"
-                            key={index}
-                          >
-                            {JSON.stringify(item, null, 2)}
-                          </CSyntaxHighlighter>
-                        </TrajectoryCard>
-                      );
-                    }
-                  })}
+                  <TrajectoryTimeline events={trajectoryEvents} />
                 </div>
               ) : (
                 <div className="flex items-center justify-center h-full">
                   <div className="text-center text-gray-500 dark:text-gray-400">
                     <p className="text-xl font-medium mb-2">No trajectory data available</p>
-                    <p>The selected entry does not contain a valid trajectory history.</p>
+                    {entries[currentEntryIndex]?._diagnostic ? (
+                      <>
+                        <p>
+                          Line {entries[currentEntryIndex]._diagnostic.line}: {entries[currentEntryIndex]._diagnostic.message}
+                        </p>
+                        <button
+                          onClick={() => setShowDiagnostics(true)}
+                          className="mt-2 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          Show parse diagnostics
+                        </button>
+                      </>
+                    ) : (
+                      <p>The selected entry does not contain a valid trajectory history.</p>
+                    )}
                   </div>
                 </div>
               )}
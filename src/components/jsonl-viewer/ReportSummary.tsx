@@ -0,0 +1,55 @@
+import React from 'react';
+import clsx from 'clsx';
+import {
+  EvalReportSummary,
+  ReportStatus,
+  REPORT_STATUSES,
+  REPORT_STATUS_LABELS
+} from '../../utils/report';
+
+const STATUS_STYLES: Record<ReportStatus, string> = {
+  resolved: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400',
+  unresolved: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400',
+  empty_patch: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400',
+  error: 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-400'
+};
+
+interface ReportStatusBadgeProps {
+  status: ReportStatus | null;
+}
+
+export const ReportStatusBadge: React.FC<ReportStatusBadgeProps> = ({ status }) => {
+  return (
+    <span
+      className={clsx(
+        'inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium',
+        status ? STATUS_STYLES[status] : 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400'
+      )}
+    >
+      {status ? REPORT_STATUS_LABELS[status] : 'Not in report'}
+    </span>
+  );
+};
+
+interface ReportSummaryBannerProps {
+  summary: EvalReportSummary;
+}
+
+export const ReportSummaryBanner: React.FC<ReportSummaryBannerProps> = ({ summary }) => {
+  return (
+    <div className="flex-none mb-2 px-3 py-2 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+      <span className="font-medium text-gray-900 dark:text-white">
+        Resolve rate: {(summary.resolveRate * 100).toFixed(1)}%
+        <span className="text-gray-500 dark:text-gray-400 font-normal ml-1">
+          ({summary.counts.resolved} / {summary.totalInstances})
+        </span>
+      </span>
+      {REPORT_STATUSES.map(status => (
+        <span key={status} className="flex items-center gap-1">
+          <ReportStatusBadge status={status} />
+          <span className="text-gray-700 dark:text-gray-300">{summary.counts[status]}</span>
+        </span>
+      ))}
+    </div>
+  );
+};
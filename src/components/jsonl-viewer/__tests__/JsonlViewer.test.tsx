@@ -0,0 +1,31 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import JsonlViewer from '../JsonlViewer';
+
+const content = new Blob([[
+  JSON.stringify({ instance_id: 'astropy__astropy-1', history: [] }),
+  '',
+  '{"instance_id": "django__django-2", "history": [{"id": 1, "sour',
+  JSON.stringify({ instance_id: 'sympy__sympy-3' })
+].join('\n')]);
+
+describe('JsonlViewer diagnostics', () => {
+  it('lists broken lines and jumps to their entries', async () => {
+    render(<JsonlViewer content={content} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: '2 issues' }));
+    expect(screen.getByText('Parse Diagnostics (2)')).toBeInTheDocument();
+    expect(screen.getByText('Line 3')).toBeInTheDocument();
+    expect(screen.getByText('Line 4')).toBeInTheDocument();
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Go to entry' })[0]);
+    await waitFor(() => {
+      expect(screen.getByText(/^Line 3: Line ends before the JSON is complete/)).toBeInTheDocument();
+    });
+
+    // The short line fits in its snippet; the raw view shows it again
+    expect(screen.getAllByText(/"id": 1, "sour$/)).toHaveLength(1);
+    fireEvent.click(screen.getAllByRole('button', { name: 'Show raw line' })[0]);
+    await waitFor(() => expect(screen.getAllByText(/"id": 1, "sour$/)).toHaveLength(2));
+  });
+});
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { FetchAttempt, FetchPath } from '../../lib/urlLoader';
+
+export interface LoadSource {
+  url: string;
+  path: FetchPath;
+  attempts: FetchAttempt[];
+}
+
+interface LoadSourceNoticeProps {
+  source: LoadSource;
+}
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url, window.location.href).host;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Says whether a fileUrl was loaded directly or through the proxy, so nobody is
+ * surprised by where their URL was sent
+ */
+export const LoadSourceNotice: React.FC<LoadSourceNoticeProps> = ({ source }) => {
+  const [dismissed, setDismissed] = useState(false);
+
+  if (dismissed) return null;
+
+  const viaProxy = source.path === 'proxy';
+  const proxy = source.attempts.find(attempt => attempt.path === 'proxy' && attempt.outcome === 'ok');
+  const directFailure = source.attempts.find(attempt => attempt.path === 'direct' && attempt.outcome === 'failed');
+
+  return (
+    <div
+      role="status"
+      className={`flex-none border-b text-sm ${viaProxy
+        ? 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-200'
+        : 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800 text-blue-800 dark:text-blue-200'}`}
+    >
+      <div className="max-w-[1920px] mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-start gap-4">
+        <p className="flex-1">
+          {viaProxy ? (
+            <>
+              Loaded <span className="font-mono">{source.url}</span> through the proxy at{' '}
+              <span className="font-mono">{proxy ? hostOf(proxy.detail) : 'unknown'}</span>
+              {directFailure && <> because the direct request failed ({directFailure.detail})</>}.
+            </>
+          ) : (
+            <>
+              Loaded <span className="font-mono">{source.url}</span> directly from{' '}
+              <span className="font-mono">{hostOf(source.url)}</span>.
+            </>
+          )}
+        </p>
+        <button
+          onClick={() => setDismissed(true)}
+          className="text-xs opacity-75 hover:opacity-100"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LoadSourceNotice;
@@ -1,46 +1,91 @@
 import React from 'react';
+import { LoadProgress, LoadPhase } from '../../types/loader';
+import { formatBytes } from '../../utils/format';
 
 interface TrajectoryLoadingOverlayProps {
   message?: string;
+  progress?: LoadProgress | null;
+  onCancel?: () => void;
 }
 
-export const TrajectoryLoadingOverlay: React.FC<TrajectoryLoadingOverlayProps> = ({ 
-  message = 'Processing OpenHands Trajectory...' 
+const PHASE_LABELS: Record<LoadPhase, string> = {
+  downloading: 'Downloading',
+  decompressing: 'Decompressing',
+  extracting: 'Extracting files',
+  parsing: 'Parsing lines'
+};
+
+export const TrajectoryLoadingOverlay: React.FC<TrajectoryLoadingOverlayProps> = ({
+  message = 'Processing OpenHands Trajectory...',
+  progress,
+  onCancel
 }) => {
+  const percent = progress?.totalBytes
+    ? Math.min(100, Math.round((progress.bytesProcessed / progress.totalBytes) * 100))
+    : null;
+
   return (
     <div className="fixed inset-0 bg-gray-900/70 dark:bg-gray-900/80 flex items-center justify-center z-50">
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 max-w-md w-full mx-4">
         <div className="flex flex-col items-center">
-          <svg 
-            className="w-16 h-16 mb-4 text-blue-500 animate-spin" 
-            xmlns="http://www.w3.org/2000/svg" 
-            fill="none" 
+          <svg
+            className="w-16 h-16 mb-4 text-blue-500 animate-spin"
+            xmlns="http://www.w3.org/2000/svg"
+            fill="none"
             viewBox="0 0 24 24"
           >
-            <circle 
-              className="opacity-25" 
-              cx="12" 
-              cy="12" 
-              r="10" 
-              stroke="currentColor" 
+            <circle
+              className="opacity-25"
+              cx="12"
+              cy="12"
+              r="10"
+              stroke="currentColor"
               strokeWidth="4"
             ></circle>
-            <path 
-              className="opacity-75" 
-              fill="currentColor" 
+            <path
+              className="opacity-75"
+              fill="currentColor"
               d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
             ></path>
           </svg>
           <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
             {message}
           </h3>
-          <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
-            Please wait while we process and prepare your trajectory data for visualization.
-          </p>
+          {progress ? (
+            <div className="w-full">
+              <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+                <span>{PHASE_LABELS[progress.phase]}</span>
+                {percent !== null && <span>{percent}%</span>}
+              </div>
+              <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 transition-all"
+                  style={{ width: `${percent ?? 100}%` }}
+                />
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 text-center mt-2">
+                {formatBytes(progress.bytesProcessed)}
+                {progress.totalBytes ? ` of ${formatBytes(progress.totalBytes)}` : ''}
+                {progress.lines !== undefined && ` · ${progress.lines.toLocaleString()} lines`}
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+              Please wait while we process and prepare your trajectory data for visualization.
+            </p>
+          )}
+          {onCancel && (
+            <button
+              onClick={onCancel}
+              className="mt-4 px-3 py-1 text-sm text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
         </div>
       </div>
     </div>
   );
 };
 
-export default TrajectoryLoadingOverlay;
\ No newline at end of file
+export default TrajectoryLoadingOverlay;
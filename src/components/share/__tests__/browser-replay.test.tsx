@@ -0,0 +1,38 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { normalizeEvents } from '../../../events';
+import { TrajectoryTimeline } from '../trajectory-timeline';
+
+const session = normalizeEvents([
+  { id: 1, action: 'browse', source: 'agent', args: { url: 'https://shop.test' } },
+  { id: 2, cause: 1, observation: 'browse', source: 'environment', content: '', extras: { url: 'https://shop.test', screenshot: 'AAAA' } },
+  { id: 3, action: 'browse_interactive', source: 'agent', args: { browser_actions: "click('7')" } },
+  { id: 4, cause: 3, observation: 'browse', source: 'environment', content: '', extras: { url: 'https://shop.test/cart', focused_element_bid: '7' } }
+]);
+
+describe('browser replay', () => {
+  it('steps through the session with the buttons, slider and filmstrip', () => {
+    render(<TrajectoryTimeline events={session} />);
+
+    expect(screen.getByText('Browser Replay (2 steps)')).toBeInTheDocument();
+    expect(screen.getByText('Step 1 of 2')).toBeInTheDocument();
+    expect(screen.getByAltText('Screenshot of step 1')).toHaveAttribute('src', 'data:image/png;base64,AAAA');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next →' }));
+    expect(screen.getByText('Step 2 of 2')).toBeInTheDocument();
+    expect(screen.getByTitle('https://shop.test/cart')).toBeInTheDocument();
+    expect(screen.getByText('Focused: element 7')).toBeInTheDocument();
+    expect(screen.getByText('No screenshot for this step')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByRole('slider', { name: 'Step' }), { target: { value: '0' } });
+    expect(screen.getByText('Step 1 of 2')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Step 2: https://shop.test/cart' }));
+    expect(screen.getByRole('button', { name: 'Step 2: https://shop.test/cart' })).toHaveAttribute('aria-current', 'step');
+  });
+
+  it('is not shown for trajectories without browsing', () => {
+    render(<TrajectoryTimeline events={normalizeEvents([{ id: 1, action: 'run', source: 'agent', args: { command: 'ls' } }])} />);
+    expect(screen.queryByRole('region', { name: 'Browser replay' })).not.toBeInTheDocument();
+  });
+});
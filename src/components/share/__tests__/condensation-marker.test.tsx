@@ -0,0 +1,40 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { normalizeEvents } from '../../../events';
+import { TrajectoryTimeline } from '../trajectory-timeline';
+import { FORGOTTEN_TITLE } from '../trajectory-event';
+
+describe('condensation marker', () => {
+  it('dims the events the LLM no longer saw', () => {
+    render(<TrajectoryTimeline events={normalizeEvents([
+      { id: 1, action: 'message', source: 'user', args: { content: 'Fix the bug' } },
+      { id: 2, action: 'think', source: 'agent', args: { thought: 'Look at the tests' } },
+      { id: 3, action: 'condensation', source: 'agent', args: { forgotten_event_ids: [2], summary: 'The agent **read** the tests' } }
+    ])} />);
+
+    expect(screen.getByRole('separator', { name: 'Context condensed' })).toHaveTextContent('Forgot 1 event: 2');
+    // The summary goes through markdown
+    expect(screen.getByText('read').tagName).toBe('STRONG');
+    expect(screen.queryAllByTitle(FORGOTTEN_TITLE)).toHaveLength(0);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show what the LLM still saw' }));
+    const dimmed = screen.getAllByTitle(FORGOTTEN_TITLE);
+    expect(dimmed).toHaveLength(1);
+    expect(dimmed[0]).toHaveTextContent('Look at the tests');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show all events' }));
+    expect(screen.queryAllByTitle(FORGOTTEN_TITLE)).toHaveLength(0);
+  });
+
+  it('marks only condensations that forgot events', () => {
+    const events = normalizeEvents([
+      { id: 1, action: 'condensation_request', source: 'agent', args: {} },
+      { id: 2, observation: 'condense', source: 'environment', cause: 1, content: 'Condensation requested', extras: {} },
+      { id: 3, action: 'condensation', source: 'agent', args: { forgotten_event_ids: [], summary: 'Nothing to drop' } }
+    ]);
+    render(<TrajectoryTimeline events={events} />);
+
+    expect(events.map(event => event.kind)).toEqual(['system', 'system', 'condensation']);
+    expect(screen.queryByRole('separator', { name: 'Context condensed' })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,32 @@
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { normalizeEvents } from '../../../events';
+import { TrajectoryTimeline } from '../trajectory-timeline';
+
+const events = normalizeEvents([
+  { id: 1, action: 'delegate', source: 'agent', args: { agent: 'CodeActAgent', inputs: { task: 'Run the tests' } } },
+  { id: 2, action: 'run', source: 'agent', args: { command: 'npm test' } },
+  { id: 3, cause: 2, observation: 'run', source: 'agent', content: 'all passed', extras: { exit_code: 0 } },
+  { id: 4, cause: 1, observation: 'delegate', source: 'agent', content: 'Tests pass', extras: { outputs: { passed: true } } },
+  { id: 5, action: 'message', source: 'agent', args: { content: 'All good' } }
+]);
+
+describe('delegation tree', () => {
+  it('nests the sub-agent events in a collapsible subtree', () => {
+    render(<TrajectoryTimeline events={events} />);
+
+    const outline = screen.getByRole('navigation', { name: 'Delegation outline' });
+    expect(within(outline).getByRole('button', { name: 'CodeActAgent' })).toBeInTheDocument();
+
+    expect(screen.getByText('🤖 Delegated to CodeActAgent · 1 step')).toBeInTheDocument();
+    expect(screen.getByText('Run the tests')).toBeInTheDocument();
+    expect(screen.getByText('Tests pass')).toBeInTheDocument();
+    expect(screen.getByText('all passed')).toBeInTheDocument();
+    // The delegate result is part of the subtree, not a card of its own
+    expect(screen.queryByText('Delegate Result')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('🤖 Delegated to CodeActAgent · 1 step'));
+    expect(screen.queryByText('all passed')).not.toBeInTheDocument();
+    expect(screen.getByText('All good')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,49 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { normalizeEvent } from '../../../events';
+import { TrajectoryEvent } from '../trajectory-event';
+
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+describe('image thumbnails', () => {
+  it('shows the images attached to a user message', () => {
+    const event = normalizeEvent({
+      action: 'message',
+      source: 'user',
+      args: { content: 'Match this design', images_urls: [PIXEL, 'https://example.com/mockup.png'] }
+    }, 0);
+    render(<TrajectoryEvent event={event} />);
+
+    expect(screen.getByAltText('Image 1')).toHaveAttribute('src', PIXEL);
+    expect(screen.getByText('70 B')).toBeInTheDocument();
+    expect(screen.getByText('remote image')).toBeInTheDocument();
+  });
+
+  it('replaces the [Image] placeholder in LLM messages with a thumbnail', () => {
+    const event = normalizeEvent({
+      source: 'user',
+      llm_message: { role: 'user', content: [{ type: 'text', text: 'What is this?' }, { type: 'image_url', image_url: { url: PIXEL } }] }
+    }, 0);
+    render(<TrajectoryEvent event={event} />);
+
+    expect(screen.queryByText(/\[Image\]/)).not.toBeInTheDocument();
+    expect(screen.getByAltText('Image 1')).toBeInTheDocument();
+  });
+
+  it('opens browser screenshots in a lightbox', () => {
+    const event = normalizeEvent({
+      id: 3,
+      observation: 'browse',
+      source: 'environment',
+      content: 'Example Domain',
+      extras: { url: 'https://example.com', screenshot: PIXEL }
+    }, 0);
+    render(<TrajectoryEvent event={event} />);
+
+    fireEvent.click(screen.getByTitle('Open image'));
+    expect(screen.getByRole('dialog', { name: 'Screenshot 1 of 1' })).toBeInTheDocument();
+
+    fireEvent.keyDown(document, { key: 'Escape' });
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,81 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { normalizeEvent } from '../../../events';
+import { getEventRenderer } from '../renderers/registry';
+
+const renderItem = (item: any) => {
+  const event = normalizeEvent(item, 0);
+  render(<>{getEventRenderer(event).render(event)}</>);
+  return getEventRenderer(event).id;
+};
+
+describe('legacy OpenHands cards', () => {
+  it('gives each missing action a dedicated card', () => {
+    const items = [
+      { action: 'browse', source: 'agent', args: { url: 'https://example.com' } },
+      { action: 'browse_interactive', source: 'agent', args: { browser_actions: "click('12')" } },
+      { observation: 'browse', source: 'environment', content: 'Page', extras: { url: 'https://example.com' } },
+      { action: 'delegate', source: 'agent', args: { agent: 'BrowsingAgent', inputs: { task: 'Find it' } } },
+      { observation: 'delegate', source: 'agent', content: 'Done', extras: { outputs: {} } },
+      { action: 'recall', source: 'user', args: { query: 'Fix it', recall_type: 'workspace_context' } },
+      { observation: 'recall', source: 'environment', content: '', extras: { recall_type: 'knowledge' } },
+      { action: 'condensation', source: 'agent', args: { forgotten_events_start_id: 3, forgotten_events_end_id: 9 } },
+      { action: 'call_tool_mcp', source: 'agent', args: { name: 'fetch', arguments: {} } },
+      { observation: 'mcp', source: 'environment', content: '{}', extras: { name: 'fetch' } }
+    ];
+
+    expect(items.map(item => getEventRenderer(normalizeEvent(item, 0)).id)).toEqual([
+      'browse-action',
+      'browse-interactive-action',
+      'browse-observation',
+      'delegate-action',
+      'delegate-observation',
+      'recall-action',
+      'recall-observation',
+      'condensation-action',
+      'mcp-action',
+      'mcp-observation'
+    ]);
+  });
+
+  it('shows a str_replace_editor edit as a diff of its strings', () => {
+    const id = renderItem({
+      id: 4,
+      action: 'edit',
+      source: 'agent',
+      args: { path: 'app.py', command: 'str_replace', old_str: 'x = 1', new_str: 'x = 2' }
+    });
+
+    expect(id).toBe('str-replace-edit-action');
+    expect(screen.getByText('File Replace: app.py')).toBeInTheDocument();
+  });
+
+  it('names the events a condensation forgot and shows its summary', () => {
+    renderItem({
+      id: 30,
+      action: 'condensation',
+      source: 'agent',
+      args: { forgotten_event_ids: [4, 5, 6], summary: 'The agent set up the repo' }
+    });
+
+    expect(screen.getByText('Forgot 3 events: 4, 5, 6')).toBeInTheDocument();
+    expect(screen.getByText('The agent set up the repo')).toBeInTheDocument();
+  });
+
+  it('lists recalled microagents and expands their content', () => {
+    renderItem({
+      id: 2,
+      observation: 'recall',
+      source: 'environment',
+      content: '',
+      extras: {
+        recall_type: 'knowledge',
+        microagent_knowledge: [{ name: 'github', trigger: 'git', content: 'Use the gh CLI' }]
+      }
+    });
+
+    expect(screen.queryByText('Use the gh CLI')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /github/ }));
+    expect(screen.getByText('Use the gh CLI')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,42 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { normalizeEvent } from '../../../events';
+import { getEventRenderer, registerRenderer } from '../renderers/registry';
+
+describe('event renderer registry', () => {
+  it('picks the same card for an event in either view', () => {
+    const think = normalizeEvent({ id: 1, action: 'think', source: 'agent', args: { thought: 'Hmm' } }, 0);
+    const context = normalizeEvent({
+      source: 'environment',
+      key: 'full_state',
+      value: { agent: { agent_context: { skills: [{ name: 'git', content: '' }] } } }
+    }, 1);
+
+    expect(getEventRenderer(think).id).toBe('think-action');
+    // The skills card outranks the generic environment card
+    expect(getEventRenderer(context).id).toBe('agent-context');
+  });
+
+  it('falls back to a card built from the normalized event', () => {
+    const event = normalizeEvent({ id: 7, action: 'task_tracking', source: 'agent', args: { command: 'plan' } }, 0);
+    expect(getEventRenderer(event).id).toBe('generic');
+
+    render(<>{getEventRenderer(event).render(event)}</>);
+    expect(screen.getByText('Agent Action: task_tracking')).toBeInTheDocument();
+  });
+
+  it('lets a registered renderer take over by priority', () => {
+    registerRenderer({
+      id: 'test-run',
+      kinds: ['action'],
+      priority: 5,
+      matches: event => event.toolName === 'run' && event.args?.command === 'make',
+      render: () => <p>Build step</p>
+    });
+
+    const make = normalizeEvent({ action: 'run', source: 'agent', args: { command: 'make' } }, 0);
+    const ls = normalizeEvent({ action: 'run', source: 'agent', args: { command: 'ls' } }, 1);
+    expect(getEventRenderer(make).id).toBe('test-run');
+    expect(getEventRenderer(ls).id).toBe('command-action');
+  });
+});
@@ -0,0 +1,39 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import TrajectoryList from '../trajectory-list';
+import { TrajectoryItem } from '../../../types/share';
+
+describe('TrajectoryList', () => {
+  it('renders legacy, agent SDK and unknown events from one list', () => {
+    const trajectory = [
+      { id: 1, action: 'think', source: 'agent', message: '', timestamp: '', args: { thought: 'Plan the fix' } },
+      { id: 2, source: 'environment', kind: 'ObservationEvent', tool_name: 'execute_bash', observation: { content: 'ok' }, usage: { prompt_tokens: 1200, completion_tokens: 3, cache_read_tokens: 0 } },
+      { id: 3, observation: 'null', source: 'environment', content: '' },
+      { id: 4, kind: 'CustomEvent', source: 'agent', note: 'new' }
+    ] as unknown as TrajectoryItem[];
+
+    render(<TrajectoryList trajectory={trajectory} />);
+
+    expect(screen.getByText('Trajectory Items (3 items)')).toBeInTheDocument();
+    expect(screen.getByText('Thinking')).toBeInTheDocument();
+    expect(screen.getByText(/Tool Result: execute_bash/)).toBeInTheDocument();
+    expect(screen.getByText('Prompt: 1,200')).toBeInTheDocument();
+    expect(screen.getByText('Agent Event')).toBeInTheDocument();
+    expect(screen.getByRole('note')).toHaveTextContent('This observation does not match any action');
+  });
+
+  it('shows an action and its observation as one request and response card', () => {
+    const trajectory = [
+      { id: 1, action: 'run', source: 'agent', message: '', timestamp: '2025-03-01T10:00:00Z', args: { command: 'npm test', thought: '' } },
+      { id: 2, cause: 1, observation: 'run', source: 'agent', message: '', content: '3 passing', timestamp: '2025-03-01T10:00:04Z', extras: { exit_code: 0 } }
+    ] as unknown as TrajectoryItem[];
+
+    render(<TrajectoryList trajectory={trajectory} />);
+
+    const pair = screen.getByRole('region', { name: 'run and its result' });
+    expect(pair).toHaveTextContent('Request');
+    expect(pair).toHaveTextContent('Response');
+    expect(pair).toHaveTextContent('⏱ 4.0 s');
+    expect(screen.queryByRole('note')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import clsx from 'clsx';
+import { NormalizedEvent } from '../../types/event';
+import { getBrowserSteps } from '../../events/browsing';
+import { toImageSrc } from '../../utils/images';
+import { CSyntaxHighlighter } from '../syntax-highlighter';
+
+interface BrowserReplayProps {
+  events: NormalizedEvent[];
+}
+
+/**
+ * Replays a browsing session: a filmstrip of the screenshots, and for the selected
+ * step the action that led to it, the URL and the focused element.
+ * Renders nothing for trajectories without browser observations.
+ */
+export const BrowserReplay: React.FC<BrowserReplayProps> = ({ events }) => {
+  const steps = useMemo(() => getBrowserSteps(events), [events]);
+  const [isOpen, setIsOpen] = useState(true);
+  const [current, setCurrent] = useState(0);
+  const selectedRef = useRef<HTMLButtonElement>(null);
+
+  // A new trajectory starts again from its first step
+  useEffect(() => setCurrent(0), [steps]);
+
+  useEffect(() => {
+    selectedRef.current?.scrollIntoView?.({ block: 'nearest', inline: 'nearest' });
+  }, [current]);
+
+  if (steps.length === 0) return null;
+  const step = steps[Math.min(current, steps.length - 1)];
+  const goTo = (index: number) => setCurrent(Math.max(0, Math.min(steps.length - 1, index)));
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      goTo(current - 1);
+    } else if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      goTo(current + 1);
+    }
+  };
+
+  return (
+    <section
+      aria-label="Browser replay"
+      className="w-full max-w-[1000px] rounded-md border border-sky-200 dark:border-sky-800 bg-white dark:bg-gray-800 text-xs shadow-sm"
+    >
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="w-full flex justify-between items-center px-2 py-1 rounded-t-md bg-sky-100 dark:bg-sky-800/50 text-sky-800 dark:text-sky-100 text-[10px] font-medium"
+      >
+        <span>Browser Replay ({steps.length} step{steps.length === 1 ? '' : 's'})</span>
+        <span>{isOpen ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="p-2 flex flex-col gap-2" onKeyDown={handleKeyDown}>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => goTo(current - 1)}
+              disabled={current === 0}
+              className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 disabled:opacity-40"
+            >
+              ← Previous
+            </button>
+            <input
+              type="range"
+              aria-label="Step"
+              min={0}
+              max={steps.length - 1}
+              value={current}
+              onChange={e => goTo(Number(e.target.value))}
+              className="flex-1"
+            />
+            <button
+              onClick={() => goTo(current + 1)}
+              disabled={current === steps.length - 1}
+              className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 disabled:opacity-40"
+            >
+              Next →
+            </button>
+            <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap">Step {current + 1} of {steps.length}</span>
+          </div>
+
+          <div className="flex items-center gap-1 px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 font-mono text-gray-700 dark:text-gray-200">
+            <span aria-hidden="true">🌐</span>
+            <span className="truncate" title={step.url}>{step.url || 'about:blank'}</span>
+          </div>
+
+          {step.action && (
+            <div>
+              <div className="text-xs font-medium mb-0.5">Action:</div>
+              <CSyntaxHighlighter language="python">{step.action}</CSyntaxHighlighter>
+            </div>
+          )}
+          {step.thought && <p className="text-gray-600 dark:text-gray-300 line-clamp-3">{step.thought}</p>}
+          <div className="flex flex-wrap gap-3 text-gray-600 dark:text-gray-300">
+            <span>Focused: {step.focusedElement ?? 'nothing'}</span>
+            {step.timestamp && <span>{new Date(step.timestamp).toLocaleString()}</span>}
+          </div>
+          {step.error && <div className="text-red-600 dark:text-red-400">{step.error}</div>}
+
+          {step.screenshot ? (
+            <img
+              src={toImageSrc(step.screenshot)}
+              alt={`Screenshot of step ${current + 1}`}
+              className="max-h-[480px] w-full object-contain rounded border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900"
+            />
+          ) : (
+            <div className="h-24 flex items-center justify-center rounded border border-dashed border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-400">
+              No screenshot for this step
+            </div>
+          )}
+
+          <div className="flex gap-1 overflow-x-auto pb-1">
+            {steps.map((candidate, index) => (
+              <button
+                key={candidate.key}
+                ref={index === current ? selectedRef : undefined}
+                onClick={() => goTo(index)}
+                aria-label={`Step ${index + 1}: ${candidate.url}`}
+                aria-current={index === current ? 'step' : undefined}
+                className={clsx(
+                  'flex-shrink-0 w-24 h-16 rounded border overflow-hidden bg-gray-100 dark:bg-gray-700',
+                  index === current ? 'border-sky-500 ring-2 ring-sky-400' : 'border-gray-200 dark:border-gray-600',
+                  candidate.error && 'border-red-400'
+                )}
+              >
+                {candidate.screenshot ? (
+                  <img src={toImageSrc(candidate.screenshot)} alt="" loading="lazy" className="w-full h-full object-cover" />
+                ) : (
+                  <span className="text-[10px] text-gray-500 dark:text-gray-400">{index + 1}</span>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default BrowserReplay;
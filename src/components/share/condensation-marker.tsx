@@ -0,0 +1,31 @@
+import React from 'react';
+import { NormalizedEvent } from '../../types/event';
+import { describeForgotten } from '../../events/condensation';
+
+interface CondensationMarkerProps {
+  event: NormalizedEvent;
+  // Whether the timeline is dimming what this condensation forgot
+  active: boolean;
+  onToggle: () => void;
+}
+
+/**
+ * Divider where the condenser dropped events from the LLM's context, with a toggle
+ * that dims the events the LLM could no longer see from here on
+ */
+export const CondensationMarker: React.FC<CondensationMarkerProps> = ({ event, active, onToggle }) => (
+  <div role="separator" aria-label="Context condensed" className="w-full max-w-[1000px] flex items-center gap-2 text-[10px] text-stone-600 dark:text-stone-300">
+    <div className="flex-1 border-t border-dashed border-stone-400 dark:border-stone-500" />
+    <span className="font-medium">✂ Context condensed · {describeForgotten(event.args ?? {})}</span>
+    <button
+      onClick={onToggle}
+      aria-pressed={active}
+      className="px-2 py-0.5 rounded bg-stone-200 dark:bg-stone-700 hover:bg-stone-300 dark:hover:bg-stone-600 transition-colors"
+    >
+      {active ? 'Show all events' : 'Show what the LLM still saw'}
+    </button>
+    <div className="flex-1 border-t border-dashed border-stone-400 dark:border-stone-500" />
+  </div>
+);
+
+export default CondensationMarker;
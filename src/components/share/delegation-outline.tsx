@@ -0,0 +1,39 @@
+import React from 'react';
+import { Delegation } from '../../events/delegation';
+import { getDelegationAnchor } from './delegation-subtree';
+
+interface DelegationOutlineProps {
+  delegations: Delegation[];
+}
+
+const OutlineItems: React.FC<DelegationOutlineProps> = ({ delegations }) => (
+  <ul className="pl-3 border-l border-gray-200 dark:border-gray-700 space-y-0.5">
+    {delegations.map(delegation => (
+      <li key={delegation.key}>
+        <button
+          onClick={() => document.getElementById(getDelegationAnchor(delegation))?.scrollIntoView?.({ behavior: 'smooth', block: 'start' })}
+          className="text-left text-violet-700 dark:text-violet-300 hover:underline"
+        >
+          {delegation.agent}
+        </button>
+        <span className="text-gray-500 dark:text-gray-400">
+          {' '}· {delegation.stepCount} step{delegation.stepCount === 1 ? '' : 's'}
+          {delegation.task && ` · ${delegation.task.length > 80 ? `${delegation.task.slice(0, 80)}…` : delegation.task}`}
+        </span>
+        {delegation.children.length > 0 && <OutlineItems delegations={delegation.children} />}
+      </li>
+    ))}
+  </ul>
+);
+
+/**
+ * Who delegated to whom, with links to each sub-agent's part of the timeline
+ */
+export const DelegationOutline: React.FC<DelegationOutlineProps> = ({ delegations }) => (
+  <nav aria-label="Delegation outline" className="w-full max-w-[1000px] rounded-md border border-violet-200 dark:border-violet-800 bg-white dark:bg-gray-800 p-2 text-xs shadow-sm">
+    <div className="text-[10px] font-medium text-violet-800 dark:text-violet-200 mb-1">Main agent</div>
+    <OutlineItems delegations={delegations} />
+  </nav>
+);
+
+export default DelegationOutline;
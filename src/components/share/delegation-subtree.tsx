@@ -0,0 +1,62 @@
+import React from 'react';
+import { Delegation } from '../../events/delegation';
+import { TrajectoryCard } from './trajectory-card';
+import { CMarkdown } from '../markdown';
+import { CSyntaxHighlighter } from '../syntax-highlighter';
+
+interface DelegationSubtreeProps {
+  delegation: Delegation;
+  // The sub-agent's own timeline
+  children: React.ReactNode;
+}
+
+export const getDelegationAnchor = (delegation: Delegation): string => `delegation-${delegation.key}`;
+
+/**
+ * A delegate action with everything its sub-agent did, collapsible as one card
+ */
+export const DelegationSubtree: React.FC<DelegationSubtreeProps> = ({ delegation, children }) => {
+  const outputs = delegation.outputs ?? {};
+
+  return (
+    <div id={getDelegationAnchor(delegation)} className="w-full max-w-[1000px] scroll-mt-4">
+      <TrajectoryCard
+        className="bg-violet-50/50 dark:bg-violet-900/10 border border-violet-200 dark:border-violet-800"
+        originalJson={delegation.action.raw}
+        timestamp={delegation.action.timestamp}
+      >
+        <TrajectoryCard.Header className="bg-violet-100 dark:bg-violet-800/50 text-violet-800 dark:text-violet-100">
+          <span>
+            🤖 Delegated to {delegation.agent} · {delegation.stepCount} step{delegation.stepCount === 1 ? '' : 's'}
+            {delegation.cost !== undefined && ` · $${delegation.cost.toFixed(4)}`}
+            {!delegation.result && ' · no result'}
+          </span>
+        </TrajectoryCard.Header>
+        <TrajectoryCard.Body>
+          {delegation.task && (
+            <div>
+              <div className="text-xs font-medium mb-0.5">Task:</div>
+              <CMarkdown>{delegation.task}</CMarkdown>
+            </div>
+          )}
+          <div className="flex flex-col gap-4 pl-3 border-l-2 border-violet-300 dark:border-violet-700">
+            {children}
+          </div>
+          {delegation.result && (
+            <div>
+              <div className="text-xs font-medium mb-0.5">Returned:</div>
+              {delegation.result.output && <CMarkdown>{delegation.result.output}</CMarkdown>}
+              {Object.keys(outputs).length > 0 && (
+                <CSyntaxHighlighter language="json">
+                  {JSON.stringify(outputs, null, 2)}
+                </CSyntaxHighlighter>
+              )}
+            </div>
+          )}
+        </TrajectoryCard.Body>
+      </TrajectoryCard>
+    </div>
+  );
+};
+
+export default DelegationSubtree;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { NormalizedEvent } from '../../types/event';
+import { formatLatency } from '../../events/pairing';
+import clsx from 'clsx';
+import { TrajectoryEvent, FORGOTTEN_TITLE } from './trajectory-event';
+
+interface EventPairProps {
+  action: NormalizedEvent;
+  observation: NormalizedEvent;
+  latencyMs?: number;
+  // Faded out when a condensation had removed the pair from the LLM's context
+  dimmed?: boolean;
+}
+
+/**
+ * An action and the observation it produced, side by side as request and response
+ */
+export const EventPair: React.FC<EventPairProps> = ({ action, observation, latencyMs, dimmed }) => {
+  const link = observation.toolCallId ?? (observation.cause !== undefined ? `cause ${observation.cause}` : undefined);
+
+  return (
+    <section
+      className={clsx(
+        "w-full max-w-[1000px] rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-sm transition-opacity",
+        dimmed && "opacity-40"
+      )}
+      aria-label={`${action.toolName ?? 'Action'} and its result`}
+      title={dimmed ? FORGOTTEN_TITLE : undefined}
+    >
+      <div className="flex items-center justify-between gap-2 px-2 py-1 text-[10px] font-medium border-b border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300">
+        <span>🔗 {action.toolName ?? action.kind}</span>
+        <span className="flex items-center gap-3 text-gray-500 dark:text-gray-400">
+          {link && <span className="font-mono">{link}</span>}
+          {latencyMs !== undefined && <span title="Time from the action to its observation">⏱ {formatLatency(latencyMs)}</span>}
+        </span>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-2 p-2">
+        <div className="min-w-0">
+          <div className="text-[10px] uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">Request</div>
+          <TrajectoryEvent event={action} />
+        </div>
+        <div className="min-w-0">
+          <div className="text-[10px] uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">Response</div>
+          <TrajectoryEvent event={observation} />
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default EventPair;
@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { formatBytes } from '../../utils/format';
+import { getDataUrlSize, LAZY_IMAGE_BYTES, toImageSrc } from '../../utils/images';
+
+interface ImageThumbnailsProps {
+  urls: string[];
+  // Used in alt text, e.g. "Screenshot 1"
+  label?: string;
+}
+
+interface Dimensions {
+  width: number;
+  height: number;
+}
+
+const describeImage = (size: number | undefined, dimensions: Dimensions | undefined): string => [
+  dimensions && `${dimensions.width}×${dimensions.height}`,
+  size !== undefined ? formatBytes(size) : 'remote image'
+].filter(Boolean).join(' · ');
+
+// True once the element has been near the viewport; always true where IntersectionObserver is missing
+const useSeen = (ref: React.RefObject<HTMLElement | null>, enabled: boolean): boolean => {
+  const [seen, setSeen] = useState(!enabled || typeof IntersectionObserver === 'undefined');
+
+  useEffect(() => {
+    if (seen || !ref.current) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) setSeen(true);
+    }, { rootMargin: '200px' });
+    observer.observe(ref.current);
+    return () => observer.disconnect();
+  }, [ref, seen]);
+
+  return seen;
+};
+
+interface ImageThumbnailProps {
+  src: string;
+  alt: string;
+  onOpen: () => void;
+  onLoad: (dimensions: Dimensions) => void;
+  dimensions?: Dimensions;
+}
+
+const ImageThumbnail: React.FC<ImageThumbnailProps> = ({ src, alt, onOpen, onLoad, dimensions }) => {
+  const ref = useRef<HTMLButtonElement>(null);
+  const size = getDataUrlSize(src);
+  // Remote images get the browser's lazy loading; large inline ones wait for the observer
+  const seen = useSeen(ref, size !== undefined && size > LAZY_IMAGE_BYTES);
+
+  return (
+    <figure className="flex flex-col items-start gap-0.5">
+      <button
+        ref={ref}
+        onClick={onOpen}
+        className="block rounded border border-gray-200 dark:border-gray-700 overflow-hidden bg-gray-100 dark:bg-gray-800 hover:ring-2 hover:ring-blue-400 transition-shadow"
+        title="Open image"
+      >
+        {seen ? (
+          <img
+            src={src}
+            alt={alt}
+            loading="lazy"
+            decoding="async"
+            className="max-h-32 max-w-[240px] object-contain"
+            onLoad={e => onLoad({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          />
+        ) : (
+          <div className="h-24 w-40 flex items-center justify-center text-[10px] text-gray-500 dark:text-gray-400">
+            Loading {formatBytes(size ?? 0)}…
+          </div>
+        )}
+      </button>
+      <figcaption className="text-[10px] text-gray-500 dark:text-gray-400">{describeImage(size, dimensions)}</figcaption>
+    </figure>
+  );
+};
+
+interface ImageLightboxProps {
+  srcs: string[];
+  index: number;
+  label: string;
+  dimensions: Record<number, Dimensions>;
+  onNavigate: (index: number) => void;
+  onClose: () => void;
+}
+
+const ImageLightbox: React.FC<ImageLightboxProps> = ({ srcs, index, label, dimensions, onNavigate, onClose }) => {
+  const src = srcs[index];
+  const size = getDataUrlSize(src);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft' && index > 0) onNavigate(index - 1);
+      if (e.key === 'ArrowRight' && index < srcs.length - 1) onNavigate(index + 1);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [index, srcs.length, onNavigate, onClose]);
+
+  return (
+    <div
+      role="dialog"
+      aria-label={`${label} ${index + 1} of ${srcs.length}`}
+      className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-black bg-opacity-80 p-4"
+      onClick={onClose}
+    >
+      <img
+        src={src}
+        alt={`${label} ${index + 1}`}
+        className="max-w-full max-h-[85vh] object-contain shadow-xl"
+        onClick={e => e.stopPropagation()}
+      />
+      <div className="mt-2 flex items-center gap-3 text-xs text-gray-200" onClick={e => e.stopPropagation()}>
+        {srcs.length > 1 && (
+          <button onClick={() => onNavigate(index - 1)} disabled={index === 0} className="px-2 py-1 rounded bg-gray-700 disabled:opacity-40">
+            ← Previous
+          </button>
+        )}
+        <span>{index + 1} / {srcs.length} · {describeImage(size, dimensions[index])}</span>
+        {size === undefined && (
+          <a href={src} target="_blank" rel="noopener noreferrer" className="underline">Open original</a>
+        )}
+        {srcs.length > 1 && (
+          <button onClick={() => onNavigate(index + 1)} disabled={index === srcs.length - 1} className="px-2 py-1 rounded bg-gray-700 disabled:opacity-40">
+            Next →
+          </button>
+        )}
+        <button onClick={onClose} className="px-2 py-1 rounded bg-gray-700">Close</button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Thumbnails for the images an event carries, with size info and a lightbox.
+ * Accepts data: URLs, remote URLs and bare base64.
+ */
+export const ImageThumbnails: React.FC<ImageThumbnailsProps> = ({ urls, label = 'Image' }) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const [dimensions, setDimensions] = useState<Record<number, Dimensions>>({});
+
+  if (urls.length === 0) return null;
+  const srcs = urls.map(toImageSrc);
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {srcs.map((src, index) => (
+        <ImageThumbnail
+          key={index}
+          src={src}
+          alt={`${label} ${index + 1}`}
+          dimensions={dimensions[index]}
+          onOpen={() => setOpenIndex(index)}
+          onLoad={loaded => setDimensions(previous => ({ ...previous, [index]: loaded }))}
+        />
+      ))}
+      {openIndex !== null && (
+        <ImageLightbox
+          srcs={srcs}
+          index={openIndex}
+          label={label}
+          dimensions={dimensions}
+          onNavigate={setOpenIndex}
+          onClose={() => setOpenIndex(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useEffect, useRef } from 'react';
 import { CSyntaxHighlighter } from '../syntax-highlighter';
+import { elideDataUrls } from '../../utils/images';
 
 interface JsonModalProps {
   isOpen: boolean;
@@ -55,7 +56,7 @@ export const JsonModal: React.FC<JsonModalProps> = ({ isOpen, onClose, data }) =
         </div>
         <div className="flex-1 overflow-auto p-4">
           <CSyntaxHighlighter language="json">
-            {JSON.stringify(data, null, 2)}
+            {JSON.stringify(data, elideDataUrls, 2)}
           </CSyntaxHighlighter>
         </div>
         <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end">
@@ -0,0 +1,161 @@
+import React from 'react';
+import {
+  isAgentStateChange,
+  isUserMessage,
+  isAssistantMessage,
+  isCommandAction,
+  isCommandObservation,
+  isIPythonAction,
+  isIPythonObservation,
+  isFinishAction,
+  isErrorObservation,
+  isReadAction,
+  isReadObservation,
+  isEditAction,
+  isEditObservation,
+  isThinkAction,
+  isThinkObservation,
+  isStrReplaceEditAction,
+  isBrowseAction,
+  isBrowseInteractiveAction,
+  isBrowseObservation,
+  isDelegateAction,
+  isDelegateObservation,
+  isRecallAction,
+  isRecallObservation,
+  isCondensationAction,
+  isMCPAction,
+  isMCPObservation,
+  isSampleMessage,
+  isSampleThought,
+  isSampleCommand,
+  isSystemPrompt,
+  isUserLLMMessage,
+  isAgentThought,
+  isAgentAction,
+  isToolObservation,
+  isAgentContextEvent,
+  isEnvironmentEvent
+} from "../../../utils/share";
+import {
+  AgentStateChangeComponent,
+  UserMessageComponent,
+  AssistantMessageComponent,
+  CommandActionComponent,
+  CommandObservationComponent,
+  IPythonActionComponent,
+  IPythonObservationComponent,
+  FinishActionComponent,
+  ReadActionComponent,
+  ReadObservationComponent,
+  EditActionComponent,
+  EditObservationComponent,
+  ErrorObservationComponent,
+  ThinkActionComponent,
+  ThinkObservationComponent,
+  StrReplaceEditActionComponent,
+  BrowseActionComponent,
+  BrowseInteractiveActionComponent,
+  BrowseObservationComponent,
+  DelegateActionComponent,
+  DelegateObservationComponent,
+  RecallActionComponent,
+  RecallObservationComponent,
+  CondensationActionComponent,
+  MCPActionComponent,
+  MCPObservationComponent,
+  SampleMessageComponent,
+  SampleThoughtComponent,
+  SampleCommandComponent,
+  SystemPromptComponent,
+  UserLLMMessageComponent,
+  AgentThoughtComponent,
+  AgentActionComponent,
+  ToolObservationComponent,
+  AgentContextComponent,
+  EnvironmentEventComponent,
+  GenericEventComponent
+} from "../trajectory-list-items";
+import { EventDialect, EventKind, NormalizedEvent } from '../../../types/event';
+import { EventRenderer } from '../../../types/renderer';
+
+// A renderer for one item shape: the dialect and guard pick the events, the card shows event.raw
+const cardFor = (
+  id: string,
+  dialect: EventDialect,
+  kinds: EventKind[],
+  guard: (item: any) => boolean,
+  render: (item: any) => React.ReactNode,
+  priority = 0
+): EventRenderer => ({
+  id,
+  kinds,
+  priority,
+  matches: (event: NormalizedEvent) => event.dialect === dialect && guard(event.raw),
+  render: (event: NormalizedEvent) => render(event.raw)
+});
+
+// Agent SDK events, e.g. from conversation directories and completion logs
+const AGENT_SDK_RENDERERS: EventRenderer[] = [
+  // Outranks the plain environment event card for the same full_state event
+  cardFor('agent-context', 'agent-sdk', ['context'], isAgentContextEvent, item => <AgentContextComponent data={item} timestamp={item.timestamp} />, 10),
+  cardFor('environment-event', 'agent-sdk', ['context', 'state'], isEnvironmentEvent, item => <EnvironmentEventComponent event={item} />),
+  cardFor('system-prompt', 'agent-sdk', ['system'], isSystemPrompt, item => <SystemPromptComponent data={item} />),
+  cardFor('user-llm-message', 'agent-sdk', ['message'], isUserLLMMessage, item => <UserLLMMessageComponent message={item} />),
+  cardFor('agent-thought', 'agent-sdk', ['thought'], isAgentThought, item => <AgentThoughtComponent thought={item} />),
+  cardFor('agent-action', 'agent-sdk', ['action', 'finish'], isAgentAction, item => <AgentActionComponent action={item} />),
+  cardFor('tool-observation', 'agent-sdk', ['observation', 'error'], isToolObservation, item => <ToolObservationComponent observation={item} />)
+];
+
+// Legacy OpenHands actions and observations
+const OPENHANDS_RENDERERS: EventRenderer[] = [
+  cardFor('agent-state-change', 'openhands', ['state'], isAgentStateChange, item => <AgentStateChangeComponent state={item} />),
+  cardFor('user-message', 'openhands', ['message'], isUserMessage, item => <UserMessageComponent message={item} />),
+  cardFor('assistant-message', 'openhands', ['message'], isAssistantMessage, item => <AssistantMessageComponent message={item} />),
+  cardFor('command-action', 'openhands', ['action'], isCommandAction, item => <CommandActionComponent command={item} />),
+  cardFor('command-observation', 'openhands', ['observation'], isCommandObservation, item => <CommandObservationComponent observation={item} />),
+  cardFor('ipython-action', 'openhands', ['action'], isIPythonAction, item => <IPythonActionComponent action={item} />),
+  cardFor('ipython-observation', 'openhands', ['observation'], isIPythonObservation, item => <IPythonObservationComponent observation={item} />),
+  cardFor('finish-action', 'openhands', ['finish'], isFinishAction, item => <FinishActionComponent action={item} />),
+  cardFor('error-observation', 'openhands', ['error'], isErrorObservation, item => <ErrorObservationComponent observation={item} />),
+  cardFor('read-action', 'openhands', ['action'], isReadAction, item => <ReadActionComponent item={item} />),
+  cardFor('read-observation', 'openhands', ['observation'], isReadObservation, item => <ReadObservationComponent observation={item} />),
+  cardFor('edit-action', 'openhands', ['action'], isEditAction, item => <EditActionComponent item={item} />),
+  // Outranks the whole-file edit card for the same edit action
+  cardFor('str-replace-edit-action', 'openhands', ['action'], isStrReplaceEditAction, item => <StrReplaceEditActionComponent item={item} />, 10),
+  cardFor('edit-observation', 'openhands', ['observation'], isEditObservation, item => <EditObservationComponent observation={item} />),
+  cardFor('think-action', 'openhands', ['thought'], isThinkAction, item => <ThinkActionComponent action={item} />),
+  cardFor('think-observation', 'openhands', ['observation'], isThinkObservation, item => <ThinkObservationComponent observation={item} />),
+  cardFor('browse-action', 'openhands', ['action'], isBrowseAction, item => <BrowseActionComponent action={item} />),
+  cardFor('browse-interactive-action', 'openhands', ['action'], isBrowseInteractiveAction, item => <BrowseInteractiveActionComponent action={item} />),
+  cardFor('browse-observation', 'openhands', ['observation'], isBrowseObservation, item => <BrowseObservationComponent observation={item} />),
+  cardFor('delegate-action', 'openhands', ['action'], isDelegateAction, item => <DelegateActionComponent action={item} />),
+  cardFor('delegate-observation', 'openhands', ['observation'], isDelegateObservation, item => <DelegateObservationComponent observation={item} />),
+  cardFor('recall-action', 'openhands', ['context'], isRecallAction, item => <RecallActionComponent action={item} />),
+  cardFor('recall-observation', 'openhands', ['context'], isRecallObservation, item => <RecallObservationComponent observation={item} />),
+  cardFor('condensation-action', 'openhands', ['condensation'], isCondensationAction, item => <CondensationActionComponent action={item} />),
+  cardFor('mcp-action', 'openhands', ['action'], isMCPAction, item => <MCPActionComponent action={item} />),
+  cardFor('mcp-observation', 'openhands', ['observation'], isMCPObservation, item => <MCPObservationComponent observation={item} />)
+];
+
+// sample-trajectory.json entries
+const SAMPLE_RENDERERS: EventRenderer[] = [
+  cardFor('sample-message', 'sample', ['message'], isSampleMessage, item => <SampleMessageComponent entry={item} />),
+  cardFor('sample-thought', 'sample', ['thought'], isSampleThought, item => <SampleThoughtComponent entry={item} />),
+  cardFor('sample-command', 'sample', ['action'], isSampleCommand, item => <SampleCommandComponent entry={item} />)
+];
+
+export const BUILTIN_RENDERERS: EventRenderer[] = [
+  ...AGENT_SDK_RENDERERS,
+  ...OPENHANDS_RENDERERS,
+  ...SAMPLE_RENDERERS
+];
+
+// Used when no registered renderer matches: a card built from the normalized fields
+export const FALLBACK_RENDERER: EventRenderer = {
+  id: 'generic',
+  kinds: [],
+  priority: -Infinity,
+  matches: () => true,
+  render: (event: NormalizedEvent) => <GenericEventComponent event={event} />
+};
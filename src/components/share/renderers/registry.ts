@@ -0,0 +1,40 @@
+import { EventKind, NormalizedEvent } from '../../../types/event';
+import { EventRenderer } from '../../../types/renderer';
+import { BUILTIN_RENDERERS, FALLBACK_RENDERER } from './builtin';
+
+const renderers: EventRenderer[] = [...BUILTIN_RENDERERS];
+// Renderers per event kind, highest priority first; rebuilt when one is registered
+let byKind = new Map<EventKind, EventRenderer[]>();
+
+const indexRenderers = () => {
+  byKind = new Map();
+  for (const renderer of renderers) {
+    for (const kind of renderer.kinds) {
+      byKind.set(kind, [...(byKind.get(kind) ?? []), renderer]);
+    }
+  }
+  // Array.prototype.sort is stable, so ties keep registration order
+  byKind.forEach(list => list.sort((a, b) => b.priority - a.priority));
+};
+indexRenderers();
+
+/**
+ * Adds a card renderer, replacing any registered renderer with the same id
+ */
+export function registerRenderer(renderer: EventRenderer): void {
+  const index = renderers.findIndex(existing => existing.id === renderer.id);
+  if (index === -1) {
+    renderers.push(renderer);
+  } else {
+    renderers[index] = renderer;
+  }
+  indexRenderers();
+}
+
+/**
+ * Picks the renderer for an event: the highest-priority registered renderer for
+ * its kind that matches, or the generic card
+ */
+export function getEventRenderer(event: NormalizedEvent): EventRenderer {
+  return byKind.get(event.kind)?.find(renderer => renderer.matches(event)) ?? FALLBACK_RENDERER;
+}
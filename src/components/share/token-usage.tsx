@@ -0,0 +1,20 @@
+import React from 'react';
+import { StepUsage } from '../../types/completion';
+
+interface TokenUsageProps {
+  usage: StepUsage;
+}
+
+export const TokenUsage: React.FC<TokenUsageProps> = ({ usage }) => {
+  return (
+    <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-500 dark:text-gray-400 mt-2">
+      {usage.model && <span className="font-mono">{usage.model}</span>}
+      <span>Prompt: {usage.prompt_tokens.toLocaleString()}</span>
+      <span>Completion: {usage.completion_tokens.toLocaleString()}</span>
+      <span>Cached: {usage.cache_read_tokens.toLocaleString()}</span>
+      {usage.cost !== undefined && <span>Cost: ${usage.cost.toFixed(4)}</span>}
+    </div>
+  );
+};
+
+export default TokenUsage;
@@ -0,0 +1,40 @@
+import React from 'react';
+import clsx from 'clsx';
+import { getEventRenderer } from './renderers/registry';
+import { TokenUsage } from './token-usage';
+import { NormalizedEvent } from '../../types/event';
+
+interface TrajectoryEventProps {
+  event: NormalizedEvent;
+  // Shown above the card, e.g. for an action whose result is missing
+  warning?: string;
+  // Faded out when a condensation had removed the event from the LLM's context
+  dimmed?: boolean;
+}
+
+export const FORGOTTEN_TITLE = 'Condensed away: the LLM no longer saw this event';
+
+/**
+ * Renders one normalized event with the card the renderer registry picks for it.
+ * Token usage is shown the same way for every format.
+ */
+export const TrajectoryEvent: React.FC<TrajectoryEventProps> = ({ event, warning, dimmed }) => (
+  <div
+    className={clsx("w-full max-w-[1000px] flex flex-col transition-opacity", dimmed && "opacity-40")}
+    title={dimmed ? FORGOTTEN_TITLE : undefined}
+  >
+    {warning && (
+      <div role="note" className="px-2 py-0.5 mb-1 text-[10px] rounded bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300">
+        ⚠ {warning}
+      </div>
+    )}
+    {getEventRenderer(event).render(event)}
+    {event.metrics && (
+      <div className="px-2">
+        <TokenUsage usage={event.metrics} />
+      </div>
+    )}
+  </div>
+);
+
+export default TrajectoryEvent;
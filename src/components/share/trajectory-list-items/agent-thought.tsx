@@ -28,7 +28,7 @@ export const AgentThoughtComponent: React.FC<AgentThoughtProps> = ({ thought })
             <CMarkdown>{reasoning}</CMarkdown>
           </>
         )}
-        {thoughts && (
+        {thoughts && !(Array.isArray(thoughts) && thoughts.length === 0) && (
           <>
             <div className="text-xs text-gray-500 mb-1 mt-2">Thoughts:</div>
             {Array.isArray(thoughts) ? thoughts.map((t: any, i: number) => (
@@ -0,0 +1,31 @@
+import React from 'react';
+import { TrajectoryCard } from "../trajectory-card";
+import { BrowseAction } from '../../../types/share';
+import { CMarkdown } from '../../markdown';
+
+interface BrowseActionProps {
+  action: BrowseAction;
+}
+
+export const BrowseActionComponent: React.FC<BrowseActionProps> = ({ action }) => {
+  return (
+    <TrajectoryCard 
+      className="bg-sky-50 dark:bg-sky-900/10 border border-sky-200 dark:border-sky-800"
+      originalJson={action}
+      timestamp={action.timestamp}
+    >
+      <TrajectoryCard.Header className="bg-sky-100 dark:bg-sky-800/50 text-sky-800 dark:text-sky-100">Browse</TrajectoryCard.Header>
+      <TrajectoryCard.Body>
+        {action.args.thought && <CMarkdown>{action.args.thought}</CMarkdown>}
+        <a
+          href={action.args.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-xs font-mono text-blue-600 dark:text-blue-400 hover:underline break-all"
+        >
+          {action.args.url}
+        </a>
+      </TrajectoryCard.Body>
+    </TrajectoryCard>
+  );
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+import { CSyntaxHighlighter } from "../../syntax-highlighter";
+import { TrajectoryCard } from "../trajectory-card";
+import { BrowseInteractiveAction } from '../../../types/share';
+import { CMarkdown } from '../../markdown';
+
+interface BrowseInteractiveActionProps {
+  action: BrowseInteractiveAction;
+}
+
+export const BrowseInteractiveActionComponent: React.FC<BrowseInteractiveActionProps> = ({ action }) => {
+  return (
+    <TrajectoryCard 
+      className="bg-sky-50 dark:bg-sky-900/10 border border-sky-200 dark:border-sky-800"
+      originalJson={action}
+      timestamp={action.timestamp}
+    >
+      <TrajectoryCard.Header className="bg-sky-100 dark:bg-sky-800/50 text-sky-800 dark:text-sky-100">Browser Actions</TrajectoryCard.Header>
+      <TrajectoryCard.Body>
+        {action.args.thought && <CMarkdown>{action.args.thought}</CMarkdown>}
+        {/* BrowserGym actions are python-style calls, e.g. click('42') */}
+        <CSyntaxHighlighter language="python">{action.args.browser_actions}</CSyntaxHighlighter>
+        {action.args.browsergym_send_msg_to_user && (
+          <>
+            <div className="text-xs font-medium mt-1 mb-0.5">Message to user:</div>
+            <CMarkdown>{action.args.browsergym_send_msg_to_user}</CMarkdown>
+          </>
+        )}
+      </TrajectoryCard.Body>
+    </TrajectoryCard>
+  );
+};
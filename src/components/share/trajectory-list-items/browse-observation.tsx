@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { CSyntaxHighlighter } from "../../syntax-highlighter";
+import { TrajectoryCard } from "../trajectory-card";
+import { BrowseObservation } from '../../../types/share';
+import { ImageThumbnails } from '../image-thumbnails';
+
+interface BrowseObservationProps {
+  observation: BrowseObservation;
+}
+
+export const BrowseObservationComponent: React.FC<BrowseObservationProps> = ({ observation }) => {
+  const [showPageText, setShowPageText] = useState(false);
+  const { url, screenshot, error, last_browser_action, last_browser_action_error } = observation.extras;
+
+  return (
+    <TrajectoryCard 
+      className="bg-gray-50 dark:bg-gray-800/30 border border-gray-200 dark:border-gray-700"
+      originalJson={observation}
+      timestamp={observation.timestamp}
+    >
+      <TrajectoryCard.Header className="bg-gray-100 dark:bg-gray-700/50 text-gray-700 dark:text-gray-200">
+        <div className="flex justify-between items-center w-full">
+          <span className="truncate">Browser Output: {url}</span>
+          {observation.content && (
+            <button 
+              onClick={() => setShowPageText(!showPageText)} 
+              className="text-xs px-2 py-1 rounded bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors"
+            >
+              {showPageText ? 'Hide Page Text' : 'Show Page Text'}
+            </button>
+          )}
+        </div>
+      </TrajectoryCard.Header>
+      <TrajectoryCard.Body>
+        {last_browser_action && (
+          <div className="text-xs text-gray-600 dark:text-gray-300 mb-1">
+            Last action: <code className="font-mono">{last_browser_action}</code>
+          </div>
+        )}
+        {(error || last_browser_action_error) && (
+          <div className="text-xs text-red-600 dark:text-red-400 mb-1">
+            {last_browser_action_error || 'The browser reported an error'}
+          </div>
+        )}
+        {screenshot && <ImageThumbnails urls={[screenshot]} label="Screenshot" />}
+        {showPageText && <CSyntaxHighlighter language="text">{observation.content}</CSyntaxHighlighter>}
+      </TrajectoryCard.Body>
+    </TrajectoryCard>
+  );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { TrajectoryCard } from "../trajectory-card";
+import { CondensationAction } from '../../../types/share';
+import { CMarkdown } from '../../markdown';
+import { describeForgotten } from '../../../events/condensation';
+
+interface CondensationActionProps {
+  action: CondensationAction;
+}
+
+export const CondensationActionComponent: React.FC<CondensationActionProps> = ({ action }) => {
+  return (
+    <TrajectoryCard 
+      className="bg-stone-50 dark:bg-stone-900/10 border border-stone-200 dark:border-stone-700"
+      originalJson={action}
+      timestamp={action.timestamp}
+    >
+      <TrajectoryCard.Header className="bg-stone-100 dark:bg-stone-800/50 text-stone-800 dark:text-stone-100">History Condensed</TrajectoryCard.Header>
+      <TrajectoryCard.Body>
+        <div className="text-xs text-gray-600 dark:text-gray-300">{describeForgotten(action.args)}</div>
+        {action.args.summary && (
+          <>
+            <div className="text-xs font-medium mt-1 mb-0.5">Summary:</div>
+            <CMarkdown>{action.args.summary}</CMarkdown>
+          </>
+        )}
+      </TrajectoryCard.Body>
+    </TrajectoryCard>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { CSyntaxHighlighter } from "../../syntax-highlighter";
+import { TrajectoryCard } from "../trajectory-card";
+import { DelegateAction } from '../../../types/share';
+import { CMarkdown } from '../../markdown';
+
+interface DelegateActionProps {
+  action: DelegateAction;
+}
+
+export const DelegateActionComponent: React.FC<DelegateActionProps> = ({ action }) => {
+  // The task reads better as text than inside the inputs JSON
+  const { task, ...inputs } = action.args.inputs ?? {};
+
+  return (
+    <TrajectoryCard 
+      className="bg-violet-50 dark:bg-violet-900/10 border border-violet-200 dark:border-violet-800"
+      originalJson={action}
+      timestamp={action.timestamp}
+    >
+      <TrajectoryCard.Header className="bg-violet-100 dark:bg-violet-800/50 text-violet-800 dark:text-violet-100">
+        Delegate to {action.args.agent}
+      </TrajectoryCard.Header>
+      <TrajectoryCard.Body>
+        {action.args.thought && <CMarkdown>{action.args.thought}</CMarkdown>}
+        {typeof task === 'string' && task && (
+          <>
+            <div className="text-xs font-medium mt-1 mb-0.5">Task:</div>
+            <CMarkdown>{task}</CMarkdown>
+          </>
+        )}
+        {Object.keys(inputs).length > 0 && (
+          <CSyntaxHighlighter language="json">
+            {JSON.stringify(inputs, null, 2)}
+          </CSyntaxHighlighter>
+        )}
+      </TrajectoryCard.Body>
+    </TrajectoryCard>
+  );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import { CSyntaxHighlighter } from "../../syntax-highlighter";
+import { TrajectoryCard } from "../trajectory-card";
+import { DelegateObservation } from '../../../types/share';
+import { CMarkdown } from '../../markdown';
+
+interface DelegateObservationProps {
+  observation: DelegateObservation;
+}
+
+export const DelegateObservationComponent: React.FC<DelegateObservationProps> = ({ observation }) => {
+  const outputs = observation.extras?.outputs ?? {};
+
+  return (
+    <TrajectoryCard 
+      className="bg-gray-50 dark:bg-gray-800/30 border border-gray-200 dark:border-gray-700"
+      originalJson={observation}
+      timestamp={observation.timestamp}
+    >
+      <TrajectoryCard.Header className="bg-gray-100 dark:bg-gray-700/50 text-gray-700 dark:text-gray-200">Delegate Result</TrajectoryCard.Header>
+      <TrajectoryCard.Body>
+        {observation.content && <CMarkdown>{observation.content}</CMarkdown>}
+        {Object.keys(outputs).length > 0 && (
+          <CSyntaxHighlighter language="json">
+            {JSON.stringify(outputs, null, 2)}
+          </CSyntaxHighlighter>
+        )}
+      </TrajectoryCard.Body>
+    </TrajectoryCard>
+  );
+};
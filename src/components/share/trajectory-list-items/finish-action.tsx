@@ -9,6 +9,9 @@ interface FinishActionProps {
 }
 
 export const FinishActionComponent: React.FC<FinishActionProps> = ({ action }) => {
+  // A submitted patch reads better as a diff than inside the outputs JSON
+  const { git_patch: patch, ...outputs } = action.args.outputs;
+
   return (
     <TrajectoryCard 
       className="bg-green-50 dark:bg-green-900/10 border border-green-200 dark:border-green-800"
@@ -24,13 +27,20 @@ export const FinishActionComponent: React.FC<FinishActionProps> = ({ action }) =
             <CMarkdown>{action.args.final_thought}</CMarkdown>
           </>
         )}
-        {Object.keys(action.args.outputs).length > 0 && (
+        {typeof patch === 'string' && patch && (
+          <>
+            <div className="text-xs font-medium mt-1 mb-0.5">Patch:</div>
+            <CSyntaxHighlighter language="diff">{patch}</CSyntaxHighlighter>
+          </>
+        )}
+        {Object.keys(outputs).length > 0 && (
           <CSyntaxHighlighter language="json">
-            {JSON.stringify(action.args.outputs, null, 2)}
+            {JSON.stringify(outputs, null, 2)}
           </CSyntaxHighlighter>
         )}
         <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
           Task completed: {action.args.task_completed || 'unknown'}
+          {action.args.exit_status && <> · Exit status: {action.args.exit_status}</>}
         </div>
       </TrajectoryCard.Body>
     </TrajectoryCard>
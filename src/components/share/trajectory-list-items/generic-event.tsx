@@ -0,0 +1,64 @@
+import React from 'react';
+import { CSyntaxHighlighter } from "../../syntax-highlighter";
+import { TrajectoryCard } from "../trajectory-card";
+import { CMarkdown } from '../../markdown';
+import { NormalizedEvent } from '../../../types/event';
+import { elideDataUrls } from '../../../utils/images';
+
+interface GenericEventProps {
+  event: NormalizedEvent;
+}
+
+const ACTOR_LABELS: Record<NormalizedEvent['actor'], string> = {
+  user: 'User',
+  agent: 'Agent',
+  environment: 'Environment'
+};
+
+const KIND_LABELS: Record<NormalizedEvent['kind'], string> = {
+  message: 'Message',
+  thought: 'Thought',
+  action: 'Action',
+  observation: 'Observation',
+  error: 'Error',
+  finish: 'Finish',
+  state: 'State',
+  system: 'System',
+  context: 'Context',
+  condensation: 'Condensation',
+  unknown: 'Event'
+};
+
+/**
+ * Card built from the normalized fields alone, for events without a dedicated card
+ */
+export const GenericEventComponent: React.FC<GenericEventProps> = ({ event }) => {
+  const hasArgs = event.args !== undefined && Object.keys(event.args).length > 0;
+  const hasContent = event.text || hasArgs || event.output;
+
+  return (
+    <TrajectoryCard
+      className="bg-gray-50 dark:bg-gray-800/30 border border-gray-200 dark:border-gray-700"
+      originalJson={event.raw}
+      timestamp={event.timestamp}
+    >
+      <TrajectoryCard.Header className="bg-gray-100 dark:bg-gray-700/50 text-gray-700 dark:text-gray-200">
+        {ACTOR_LABELS[event.actor]} {KIND_LABELS[event.kind]}{event.toolName ? `: ${event.toolName}` : ''}
+      </TrajectoryCard.Header>
+      <TrajectoryCard.Body>
+        {event.text && <CMarkdown>{event.text}</CMarkdown>}
+        {hasArgs && (
+          <CSyntaxHighlighter language="json">
+            {JSON.stringify(event.args, elideDataUrls, 2)}
+          </CSyntaxHighlighter>
+        )}
+        {event.output && <CSyntaxHighlighter language="text">{event.output}</CSyntaxHighlighter>}
+        {!hasContent && (
+          <CSyntaxHighlighter language="json">
+            {JSON.stringify(event.raw, elideDataUrls, 2)}
+          </CSyntaxHighlighter>
+        )}
+      </TrajectoryCard.Body>
+    </TrajectoryCard>
+  );
+};
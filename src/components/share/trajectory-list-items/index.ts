@@ -9,6 +9,17 @@ export * from "./read-action";
 export * from "./read-observation";
 export * from "./edit-action";
 export * from "./edit-observation";
+export * from "./str-replace-edit-action";
+export * from "./browse-action";
+export * from "./browse-interactive-action";
+export * from "./browse-observation";
+export * from "./delegate-action";
+export * from "./delegate-observation";
+export * from "./recall-action";
+export * from "./recall-observation";
+export * from "./condensation-action";
+export * from "./mcp-action";
+export * from "./mcp-observation";
 export * from "./user-message";
 export * from "./user-llm-message";
 export * from "./error-observation";
@@ -18,4 +29,9 @@ export * from "./environment-event";
 export * from "./system-prompt";
 export * from "./agent-thought";
 export * from "./agent-action";
-export * from "./agent-context";
\ No newline at end of file
+export * from "./agent-context";
+export * from "./sample-message";
+export * from "./sample-thought";
+export * from "./sample-command";
+export * from "./tool-observation";
+export * from "./generic-event";
\ No newline at end of file
@@ -0,0 +1,31 @@
+import React from 'react';
+import { CSyntaxHighlighter } from "../../syntax-highlighter";
+import { TrajectoryCard } from "../trajectory-card";
+import { MCPAction } from '../../../types/share';
+import { CMarkdown } from '../../markdown';
+
+interface MCPActionProps {
+  action: MCPAction;
+}
+
+export const MCPActionComponent: React.FC<MCPActionProps> = ({ action }) => {
+  const args = action.args.arguments ?? {};
+
+  return (
+    <TrajectoryCard 
+      className="bg-cyan-50 dark:bg-cyan-900/10 border border-cyan-200 dark:border-cyan-800"
+      originalJson={action}
+      timestamp={action.timestamp}
+    >
+      <TrajectoryCard.Header className="bg-cyan-100 dark:bg-cyan-800/50 text-cyan-800 dark:text-cyan-100">MCP Tool: {action.args.name}</TrajectoryCard.Header>
+      <TrajectoryCard.Body>
+        {action.args.thought && <CMarkdown>{action.args.thought}</CMarkdown>}
+        {Object.keys(args).length > 0 && (
+          <CSyntaxHighlighter language="json">
+            {JSON.stringify(args, null, 2)}
+          </CSyntaxHighlighter>
+        )}
+      </TrajectoryCard.Body>
+    </TrajectoryCard>
+  );
+};
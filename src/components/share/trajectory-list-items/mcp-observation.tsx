@@ -0,0 +1,36 @@
+import React from 'react';
+import { CSyntaxHighlighter } from "../../syntax-highlighter";
+import { TrajectoryCard } from "../trajectory-card";
+import { MCPObservation } from '../../../types/share';
+
+interface MCPObservationProps {
+  observation: MCPObservation;
+}
+
+// MCP servers usually answer with JSON; pretty-print it when it parses
+const formatContent = (content: string): { language: string; text: string } => {
+  try {
+    return { language: 'json', text: JSON.stringify(JSON.parse(content), null, 2) };
+  } catch {
+    return { language: 'text', text: content };
+  }
+};
+
+export const MCPObservationComponent: React.FC<MCPObservationProps> = ({ observation }) => {
+  const { language, text } = formatContent(observation.content);
+
+  return (
+    <TrajectoryCard 
+      className="bg-gray-50 dark:bg-gray-800/30 border border-gray-200 dark:border-gray-700"
+      originalJson={observation}
+      timestamp={observation.timestamp}
+    >
+      <TrajectoryCard.Header className="bg-gray-100 dark:bg-gray-700/50 text-gray-700 dark:text-gray-200">
+        MCP Result{observation.extras?.name ? `: ${observation.extras.name}` : ''}
+      </TrajectoryCard.Header>
+      <TrajectoryCard.Body>
+        <CSyntaxHighlighter language={language}>{text}</CSyntaxHighlighter>
+      </TrajectoryCard.Body>
+    </TrajectoryCard>
+  );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { TrajectoryCard } from "../trajectory-card";
+import { RecallAction } from '../../../types/share';
+import { CMarkdown } from '../../markdown';
+
+interface RecallActionProps {
+  action: RecallAction;
+}
+
+const RECALL_TYPE_LABELS: Record<string, string> = {
+  workspace_context: 'Workspace Context',
+  knowledge: 'Knowledge'
+};
+
+export const RecallActionComponent: React.FC<RecallActionProps> = ({ action }) => {
+  return (
+    <TrajectoryCard 
+      className="bg-teal-50 dark:bg-teal-900/10 border border-teal-200 dark:border-teal-800"
+      originalJson={action}
+      timestamp={action.timestamp}
+    >
+      <TrajectoryCard.Header className="bg-teal-100 dark:bg-teal-800/50 text-teal-800 dark:text-teal-100">
+        Recall: {RECALL_TYPE_LABELS[action.args.recall_type] ?? action.args.recall_type}
+      </TrajectoryCard.Header>
+      <TrajectoryCard.Body>
+        {action.args.query && <CMarkdown>{action.args.query}</CMarkdown>}
+      </TrajectoryCard.Body>
+    </TrajectoryCard>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { TrajectoryCard } from "../trajectory-card";
+import { RecallObservation } from '../../../types/share';
+import { CMarkdown } from '../../markdown';
+
+interface RecallObservationProps {
+  observation: RecallObservation;
+}
+
+export const RecallObservationComponent: React.FC<RecallObservationProps> = ({ observation }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const {
+    repo_name,
+    repo_directory,
+    repo_instructions,
+    runtime_hosts,
+    additional_agent_instructions,
+    date,
+    microagent_knowledge = []
+  } = observation.extras;
+  const hosts = Object.entries(runtime_hosts ?? {});
+
+  const toggle = (name: string) => {
+    const next = new Set(expanded);
+    if (next.has(name)) {
+      next.delete(name);
+    } else {
+      next.add(name);
+    }
+    setExpanded(next);
+  };
+
+  return (
+    <TrajectoryCard 
+      className="bg-teal-50 dark:bg-teal-900/10 border border-teal-200 dark:border-teal-800"
+      originalJson={observation}
+      timestamp={observation.timestamp}
+    >
+      <TrajectoryCard.Header className="bg-teal-100 dark:bg-teal-800/50 text-teal-800 dark:text-teal-100">Recalled Context</TrajectoryCard.Header>
+      <TrajectoryCard.Body>
+        {(repo_name || date) && (
+          <div className="text-xs text-gray-600 dark:text-gray-300 mb-1">
+            {repo_name && <>Repository: <span className="font-mono">{repo_name}</span>{repo_directory && ` (${repo_directory})`}</>}
+            {repo_name && date && ' · '}
+            {date && <>Date: {date}</>}
+          </div>
+        )}
+        {hosts.length > 0 && (
+          <div className="text-xs text-gray-600 dark:text-gray-300 mb-1">
+            Hosts: {hosts.map(([host, port]) => `${host} (port ${port})`).join(', ')}
+          </div>
+        )}
+        {repo_instructions && (
+          <>
+            <div className="text-xs font-medium mt-1 mb-0.5">Repository instructions:</div>
+            <CMarkdown>{repo_instructions}</CMarkdown>
+          </>
+        )}
+        {additional_agent_instructions && (
+          <>
+            <div className="text-xs font-medium mt-1 mb-0.5">Additional instructions:</div>
+            <CMarkdown>{additional_agent_instructions}</CMarkdown>
+          </>
+        )}
+        {microagent_knowledge.length > 0 && (
+          <>
+            <div className="text-xs font-medium mt-1 mb-0.5">Microagents ({microagent_knowledge.length}):</div>
+            <ul className="space-y-1">
+              {microagent_knowledge.map(knowledge => (
+                <li key={knowledge.name} className="text-xs">
+                  <button
+                    onClick={() => toggle(knowledge.name)}
+                    className="text-teal-700 dark:text-teal-300 hover:underline"
+                    aria-expanded={expanded.has(knowledge.name)}
+                  >
+                    {expanded.has(knowledge.name) ? '▾' : '▸'} {knowledge.name}
+                  </button>
+                  <span className="text-gray-500 dark:text-gray-400"> triggered by “{knowledge.trigger}”</span>
+                  {expanded.has(knowledge.name) && (
+                    <div className="mt-1 pl-3">
+                      <CMarkdown>{knowledge.content}</CMarkdown>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+        {observation.content && !repo_name && microagent_knowledge.length === 0 && (
+          <CMarkdown>{observation.content}</CMarkdown>
+        )}
+      </TrajectoryCard.Body>
+    </TrajectoryCard>
+  );
+};
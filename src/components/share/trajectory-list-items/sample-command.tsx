@@ -0,0 +1,28 @@
+import React from 'react';
+import { CSyntaxHighlighter } from "../../syntax-highlighter";
+import { TrajectoryCard } from "../trajectory-card";
+import { SampleEntry } from '../../../types/share';
+import { CMarkdown } from '../../markdown';
+
+interface SampleCommandProps {
+  entry: SampleEntry;
+}
+
+export const SampleCommandComponent: React.FC<SampleCommandProps> = ({ entry }) => {
+  return (
+    <TrajectoryCard 
+      className="bg-green-50 dark:bg-green-900/10 border border-green-200 dark:border-green-800"
+      originalJson={entry}
+      timestamp={entry.timestamp}
+    >
+      <TrajectoryCard.Header className="bg-green-100 dark:bg-green-800/50 text-green-800 dark:text-green-100">{entry.actorType} Shell Action</TrajectoryCard.Header>
+      <TrajectoryCard.Body>
+        {entry.content && <CMarkdown>{entry.content}</CMarkdown>}
+        {entry.path && (
+          <div className="text-xs font-mono text-gray-600 dark:text-gray-400 mb-2">{entry.path}</div>
+        )}
+        {entry.command && <CSyntaxHighlighter language="shell">{entry.command}</CSyntaxHighlighter>}
+      </TrajectoryCard.Body>
+    </TrajectoryCard>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { TrajectoryCard } from "../trajectory-card";
+import { SampleEntry } from '../../../types/share';
+import { CMarkdown } from '../../markdown';
+
+interface SampleMessageProps {
+  entry: SampleEntry;
+}
+
+const ACTOR_STYLES: Record<SampleEntry["actorType"], { card: string; header: string }> = {
+  User: {
+    card: "bg-blue-50 dark:bg-blue-900/10 border border-blue-200 dark:border-blue-800",
+    header: "bg-blue-100 dark:bg-blue-800/50 text-blue-800 dark:text-blue-100"
+  },
+  Assistant: {
+    card: "bg-purple-50 dark:bg-purple-900/10 border border-purple-200 dark:border-purple-800",
+    header: "bg-purple-100 dark:bg-purple-800/50 text-purple-800 dark:text-purple-100"
+  },
+  System: {
+    card: "bg-gray-50 dark:bg-gray-900/10 border border-gray-200 dark:border-gray-700",
+    header: "bg-gray-100 dark:bg-gray-800/50 text-gray-800 dark:text-gray-100"
+  }
+};
+
+export const SampleMessageComponent: React.FC<SampleMessageProps> = ({ entry }) => {
+  const styles = ACTOR_STYLES[entry.actorType] ?? ACTOR_STYLES.System;
+
+  return (
+    <TrajectoryCard 
+      className={styles.card}
+      originalJson={entry}
+      timestamp={entry.timestamp}
+    >
+      <TrajectoryCard.Header className={styles.header}>{entry.actorType} Message</TrajectoryCard.Header>
+      <TrajectoryCard.Body>
+        <CMarkdown>{entry.content || ''}</CMarkdown>
+      </TrajectoryCard.Body>
+    </TrajectoryCard>
+  );
+};
@@ -0,0 +1,23 @@
+import React from 'react';
+import { TrajectoryCard } from "../trajectory-card";
+import { SampleEntry } from '../../../types/share';
+import { CMarkdown } from '../../markdown';
+
+interface SampleThoughtProps {
+  entry: SampleEntry;
+}
+
+export const SampleThoughtComponent: React.FC<SampleThoughtProps> = ({ entry }) => {
+  return (
+    <TrajectoryCard 
+      className="bg-indigo-50 dark:bg-indigo-900/10 border border-indigo-200 dark:border-indigo-800"
+      originalJson={entry}
+      timestamp={entry.timestamp}
+    >
+      <TrajectoryCard.Header className="bg-indigo-100 dark:bg-indigo-800/50 text-indigo-800 dark:text-indigo-100">Thinking</TrajectoryCard.Header>
+      <TrajectoryCard.Body>
+        {entry.content && <CMarkdown>{entry.content}</CMarkdown>}
+      </TrajectoryCard.Body>
+    </TrajectoryCard>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { CSyntaxHighlighter } from "../../syntax-highlighter";
+import { TrajectoryCard } from "../trajectory-card";
+import { StrReplaceEditAction } from '../../../types/share';
+import { CMarkdown } from '../../markdown';
+import { DiffViewer } from '../../diff-viewer';
+
+interface StrReplaceEditActionProps {
+  item: StrReplaceEditAction;
+}
+
+const LANGUAGES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  html: 'html',
+  css: 'css',
+  json: 'json',
+  md: 'markdown',
+  sh: 'bash'
+};
+
+const COMMAND_LABELS: Record<StrReplaceEditAction['args']['command'], string> = {
+  view: 'View',
+  create: 'Create',
+  str_replace: 'Replace',
+  insert: 'Insert',
+  undo_edit: 'Undo Edit'
+};
+
+export const StrReplaceEditActionComponent: React.FC<StrReplaceEditActionProps> = ({ item }) => {
+  const { path, command, file_text, old_str, new_str, insert_line, view_range, thought } = item.args;
+  const language = LANGUAGES[path.split('.').pop()?.toLowerCase() ?? ''] ?? 'text';
+  // Edits written before the command field existed still carry the strings
+  const label = COMMAND_LABELS[command] ?? (old_str != null ? 'Replace' : 'Create');
+
+  return (
+    <TrajectoryCard 
+      className="bg-orange-50 dark:bg-orange-900/10 border border-orange-200 dark:border-orange-800"
+      originalJson={item}
+      timestamp={item.timestamp}
+    >
+      <TrajectoryCard.Header className="bg-orange-100 dark:bg-orange-800/50 text-orange-800 dark:text-orange-100">
+        File {label}: {path}
+      </TrajectoryCard.Header>
+      <TrajectoryCard.Body>
+        {thought && <CMarkdown>{thought}</CMarkdown>}
+
+        {old_str != null && (
+          <div className="border border-gray-200 dark:border-gray-700 rounded overflow-hidden mt-1">
+            <DiffViewer oldStr={old_str} newStr={new_str ?? ''} language={language} />
+          </div>
+        )}
+
+        {old_str == null && new_str != null && (
+          <>
+            <div className="text-xs font-medium mt-1 mb-0.5">
+              {insert_line != null ? `Insert after line ${insert_line}:` : 'New text:'}
+            </div>
+            <CSyntaxHighlighter language={language}>{new_str}</CSyntaxHighlighter>
+          </>
+        )}
+
+        {file_text != null && (
+          <>
+            <div className="text-xs font-medium mt-1 mb-0.5">File contents:</div>
+            <CSyntaxHighlighter language={language}>{file_text}</CSyntaxHighlighter>
+          </>
+        )}
+
+        {command === 'view' && (
+          <div className="text-xs text-gray-600 dark:text-gray-300 mt-1">
+            {view_range ? `Lines ${view_range[0]} to ${view_range[1] === -1 ? 'end' : view_range[1]}` : 'Whole file'}
+          </div>
+        )}
+      </TrajectoryCard.Body>
+    </TrajectoryCard>
+  );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { CSyntaxHighlighter } from "../../syntax-highlighter";
+import { TrajectoryCard } from "../trajectory-card";
+import { ImageThumbnails } from '../image-thumbnails';
+import { imageUrlsFromContent } from '../../../utils/images';
+
+interface ToolObservationProps {
+  observation: any;
+}
+
+export const ToolObservationComponent: React.FC<ToolObservationProps> = ({ observation }) => {
+  const content = observation.observation?.content ?? observation.observation;
+  const extractText = (content: any): string => {
+    if (typeof content === 'string') return content;
+    if (Array.isArray(content)) {
+      return content.map(c => (c?.type === 'text' ? c.text || '' : '')).filter(Boolean).join('\n');
+    }
+    return JSON.stringify(content, null, 2);
+  };
+
+  return (
+    <TrajectoryCard
+      className="bg-gray-50 dark:bg-gray-800/30 border border-gray-200 dark:border-gray-700"
+      originalJson={observation}
+      timestamp={observation.timestamp}
+    >
+      <TrajectoryCard.Header className="bg-gray-100 dark:bg-gray-700/50 text-gray-700 dark:text-gray-200">
+        🔧 Tool Result: {observation.tool_name || 'unknown'}
+      </TrajectoryCard.Header>
+      <TrajectoryCard.Body>
+        <CSyntaxHighlighter language="text">
+          {extractText(content)}
+        </CSyntaxHighlighter>
+        <ImageThumbnails urls={imageUrlsFromContent(content)} />
+      </TrajectoryCard.Body>
+    </TrajectoryCard>
+  );
+};
@@ -1,6 +1,8 @@
 import React from 'react';
 import { TrajectoryCard } from "../trajectory-card";
 import { CMarkdown } from '../../markdown';
+import { ImageThumbnails } from '../image-thumbnails';
+import { imageUrlsFromContent } from '../../../utils/images';
 
 interface UserLLMMessageProps {
   message: any;
@@ -14,7 +16,6 @@ export const UserLLMMessageComponent: React.FC<UserLLMMessageProps> = ({ message
     if (Array.isArray(content)) {
       return content.map(c => {
         if (c.type === 'text') return c.text || '';
-        if (c.type === 'image_url') return '[Image]';
         return '';
       }).filter(Boolean).join('\n');
     }
@@ -32,6 +33,7 @@ export const UserLLMMessageComponent: React.FC<UserLLMMessageProps> = ({ message
       </TrajectoryCard.Header>
       <TrajectoryCard.Body>
         <CMarkdown>{extractText(content)}</CMarkdown>
+        <ImageThumbnails urls={imageUrlsFromContent(content)} />
       </TrajectoryCard.Body>
     </TrajectoryCard>
   );
@@ -2,6 +2,7 @@ import React from 'react';
 import { TrajectoryCard } from "../trajectory-card";
 import { UserMessage } from '../../../types/share';
 import { CMarkdown } from '../../markdown';
+import { ImageThumbnails } from '../image-thumbnails';
 
 interface UserMessageProps {
   message: UserMessage;
@@ -19,6 +20,7 @@ export const UserMessageComponent: React.FC<UserMessageProps> = ({ message }) =>
       <TrajectoryCard.Header className="bg-blue-100 dark:bg-blue-800/50 text-blue-800 dark:text-blue-100">User Message</TrajectoryCard.Header>
       <TrajectoryCard.Body>
         <CMarkdown>{content}</CMarkdown>
+        <ImageThumbnails urls={message.args?.images_urls ?? []} />
       </TrajectoryCard.Body>
     </TrajectoryCard>
   );
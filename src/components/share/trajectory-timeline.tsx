@@ -0,0 +1,98 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { NormalizedEvent } from '../../types/event';
+import { pairEvents } from '../../events/pairing';
+import { forgetsEvents, getForgottenKeys } from '../../events/condensation';
+import { Delegation, getDelegations } from '../../events/delegation';
+import { TrajectoryEvent } from './trajectory-event';
+import { EventPair } from './event-pair';
+import { BrowserReplay } from './browser-replay';
+import { CondensationMarker } from './condensation-marker';
+import { DelegationSubtree } from './delegation-subtree';
+import { DelegationOutline } from './delegation-outline';
+
+interface TrajectoryTimelineProps {
+  events: NormalizedEvent[];
+  // Set for a sub-agent's timeline inside its delegation
+  nested?: boolean;
+}
+
+const ORPHAN_WARNINGS = {
+  action: 'No observation found for this action',
+  observation: 'This observation does not match any action'
+};
+
+/**
+ * The cards of a trajectory, with each action shown together with its observation.
+ * Browsing sessions also get a replay above the cards, condensations a marker
+ * that can dim what the LLM had forgotten, and sub-agents a nested timeline.
+ */
+export const TrajectoryTimeline: React.FC<TrajectoryTimelineProps> = ({ events, nested = false }) => {
+  const delegations = useMemo(() => getDelegations(events), [events]);
+  // Sub-agent events are shown inside their delegation, and its result with it
+  const { rootEvents, delegationsByKey, resultKeys } = useMemo(() => {
+    const subEventKeys = new Set(delegations.flatMap(delegation => delegation.events.map(event => event.key)));
+    return {
+      rootEvents: events.filter(event => !subEventKeys.has(event.key)),
+      delegationsByKey: new Map<string, Delegation>(delegations.map(delegation => [delegation.key, delegation])),
+      resultKeys: new Set(delegations.flatMap(delegation => (delegation.result ? [delegation.result.key] : [])))
+    };
+  }, [events, delegations]);
+  const entries = useMemo(() => pairEvents(rootEvents), [rootEvents]);
+  // Key of the condensation whose view of the history is shown, if any
+  const [condensationKey, setCondensationKey] = useState<string | null>(null);
+  const forgotten = useMemo(
+    () => (condensationKey === null ? new Set<string>() : getForgottenKeys(events, condensationKey)),
+    [events, condensationKey]
+  );
+
+  useEffect(() => setCondensationKey(null), [events]);
+
+  const renderDelegation = (delegation: Delegation) => (
+    <DelegationSubtree key={delegation.key} delegation={delegation}>
+      <TrajectoryTimeline events={delegation.events} nested />
+    </DelegationSubtree>
+  );
+
+  return (
+    <>
+      {!nested && delegations.length > 0 && <DelegationOutline delegations={delegations} />}
+      <BrowserReplay events={rootEvents} />
+      {entries.map(entry => {
+        if (entry.type === 'pair') {
+          const delegation = delegationsByKey.get(entry.action.key);
+          return delegation ? renderDelegation(delegation) : (
+            <EventPair
+              key={entry.key}
+              action={entry.action}
+              observation={entry.observation}
+              latencyMs={entry.latencyMs}
+              dimmed={forgotten.has(entry.action.key) || forgotten.has(entry.observation.key)}
+            />
+          );
+        }
+
+        const delegation = delegationsByKey.get(entry.key);
+        if (delegation) return renderDelegation(delegation);
+        if (resultKeys.has(entry.key)) return null;
+        return (
+          <React.Fragment key={entry.key}>
+            {entry.event.kind === 'condensation' && forgetsEvents(entry.event.args ?? {}) && (
+              <CondensationMarker
+                event={entry.event}
+                active={condensationKey === entry.key}
+                onToggle={() => setCondensationKey(condensationKey === entry.key ? null : entry.key)}
+              />
+            )}
+            <TrajectoryEvent
+              event={entry.event}
+              warning={entry.orphan && ORPHAN_WARNINGS[entry.orphan]}
+              dimmed={forgotten.has(entry.event.key)}
+            />
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+};
+
+export default TrajectoryTimeline;
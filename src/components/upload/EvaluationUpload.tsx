@@ -1,8 +1,13 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useRef, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { UploadContent } from '../../types/upload';
-import pako from 'pako';
-import { extractFromTar } from '../../lib/tarExtractor';
+import { LoadProgress } from '../../types/loader';
+import { loadFileOffThread, isAbortError } from '../../lib/loaderClient';
+import { sniffFormat } from '../../lib/formatSniffer';
+import { adaptInput } from '../../formats';
+import { readJsonlInput } from '../../lib/openFile';
+import { readBlob } from '../../utils/blob';
+import { TrajectoryLoadingOverlay } from '../loading/TrajectoryLoadingOverlay';
 
 interface EvaluationUploadProps {
   onUpload: (content: UploadContent) => void;
@@ -11,67 +16,47 @@ interface EvaluationUploadProps {
 export const EvaluationUpload: React.FC<EvaluationUploadProps> = ({ onUpload }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<LoadProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const processFile = async (file: File) => {
     setIsProcessing(true);
     setError(null);
+    setProgress(null);
 
     try {
-      if (file.name.endsWith('.tar.gz') || file.name.endsWith('.tgz')) {
-        // Handle tar.gz files
-        console.log('Processing tar.gz file:', file.name);
-        
-        const buffer = await file.arrayBuffer();
-        const gzippedData = new Uint8Array(buffer);
-        
-        console.log('Decompressing...');
-        let decompressed: Uint8Array;
-        try {
-          decompressed = pako.ungzip(gzippedData);
-        } catch {
-          decompressed = pako.inflate(gzippedData);
-        }
-        
-        console.log('Extracting from tar...');
-        const { jsonlContent, reportContent } = extractFromTar(decompressed);
-        
-        if (!jsonlContent) {
-          throw new Error('No JSONL content found in archive');
-        }
-        
-        onUpload({
-          content: {
-            fileType: 'full_archive' as const,
-            jsonlContent,
-            reportContent
-          }
-        });
-      } else {
-        // Handle plain JSONL files
-        const reader = new FileReader();
-        reader.onload = () => {
-          try {
-            const fileContent = reader.result as string;
-            onUpload({
-              content: {
-                jsonlContent: fileContent,
-                fileType: 'jsonl'
-              }
-            });
-          } catch (err) {
-            setError('Failed to process file');
-            console.error(err);
-          } finally {
-            setIsProcessing(false);
-          }
-        };
-        reader.readAsText(file);
+      const format = sniffFormat(new Uint8Array(await readBlob(file.slice(0, 512))), file.name);
+
+      if (format === 'text') {
+        // Plain JSONL files need no extraction; the viewer parses the file itself in the worker
+        onUpload(adaptInput(await readJsonlInput(file)));
         return;
       }
+
+      console.log(`Processing ${format} file:`, file.name);
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      console.log('Extracting in background...');
+      const loaded = await loadFileOffThread(file, file.name, {
+        onProgress: setProgress,
+        signal: controller.signal
+      });
+
+      // A gzipped JSONL file (e.g. output.jsonl.gz) or an archive
+      onUpload(adaptInput(loaded.kind === 'text'
+        ? await readJsonlInput(new Blob([loaded.text]))
+        : { kind: 'archive', archive: loaded.result }));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to process file');
-      console.error(err);
+      if (isAbortError(err)) {
+        console.log('Archive extraction cancelled');
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to process file');
+        console.error(err);
+      }
     } finally {
+      abortRef.current = null;
+      setProgress(null);
       setIsProcessing(false);
     }
   };
@@ -85,8 +70,9 @@ export const EvaluationUpload: React.FC<EvaluationUploadProps> = ({ onUpload })
     onDrop,
     accept: {
       'application/json': ['.jsonl', '.json'],
-      'application/gzip': ['.gz', '.tar.gz', '.tgz'],
-      'application/x-tar': ['.tar']
+      'application/gzip': ['.gz', '.tar.gz', '.tgz', '.jsonl.gz'],
+      'application/x-tar': ['.tar'],
+      'application/zip': ['.zip']
     },
     multiple: false,
     disabled: isProcessing
@@ -94,11 +80,18 @@ export const EvaluationUpload: React.FC<EvaluationUploadProps> = ({ onUpload })
 
   return (
     <div className="mb-6">
+      {isProcessing && progress && (
+        <TrajectoryLoadingOverlay
+          message="Extracting evaluation archive..."
+          progress={progress}
+          onCancel={() => abortRef.current?.abort()}
+        />
+      )}
       <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
         Visualize OpenHands Evaluation Output
       </h2>
       <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-        Upload a JSONL file or drag-drop a results.tar.gz file.
+        Upload a JSONL file or drag-drop a results archive (.tar.gz, .tar or .zip).
       </p>
       <div 
         {...getRootProps()} 
@@ -138,11 +131,11 @@ export const EvaluationUpload: React.FC<EvaluationUploadProps> = ({ onUpload })
               <p className={`text-sm ${isDragActive ? 'text-green-600 dark:text-green-400' : 'text-gray-600 dark:text-gray-400'}`}>
                 {isDragActive
                   ? 'Drop the file here...'
-                  : 'Drag and drop a .jsonl or .tar.gz file here, or click to select'
+                  : 'Drag and drop a .jsonl, .jsonl.gz, .tar.gz, .tar or .zip file here, or click to select'
                 }
               </p>
               <p className="text-xs text-gray-500 dark:text-gray-500 mt-2">
-                Supports: .jsonl files or .tar.gz archives from OpenHands evaluation
+                Supports: .jsonl files (optionally gzipped) or .tar.gz, .tar and .zip archives from OpenHands evaluation
               </p>
             </>
           )}
@@ -1,6 +1,29 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useRef, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { UploadContent } from '../../types/upload';
+import { sniffFormat } from '../../lib/formatSniffer';
+import { loadFileOffThread } from '../../lib/loaderClient';
+import { adaptInput } from '../../formats';
+import { isDirectoryUpload, readDirectoryFiles } from '../../lib/directoryLoader';
+
+/**
+ * Decodes an uploaded trajectory, decompressing it first if it is gzipped
+ */
+const readTrajectoryText = async (buffer: ArrayBuffer, fileName: string): Promise<string> => {
+  const format = sniffFormat(new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 512)), fileName);
+  if (format === 'text') {
+    return new TextDecoder('utf8').decode(buffer);
+  }
+  if (format !== 'gzip') {
+    throw new Error(`This looks like a ${format} archive. Use the evaluation upload for archives.`);
+  }
+
+  const loaded = await loadFileOffThread(new Blob([buffer]), fileName);
+  if (loaded.kind !== 'text') {
+    throw new Error('This looks like a compressed archive. Use the evaluation upload for archives.');
+  }
+  return loaded.text;
+};
 
 interface UploadTrajectoryProps {
   onUpload: (content: UploadContent) => void;
@@ -13,45 +36,38 @@ export const UploadTrajectory: React.FC<UploadTrajectoryProps> = ({
 }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
 
-  const processOpenHandsTrajectory = (content: any) => {
-    // Check if it's an array (OpenHands trajectory format)
-    if (Array.isArray(content)) {
-      // Check if it has OpenHands specific fields
-      if (content.length > 0 &&
-          (('action' in content[0] && 'source' in content[0]) ||
-           ('observation' in content[0] && 'source' in content[0]))) {
-        console.log('Detected OpenHands trajectory format - using trajectory viewer');
-
-        // Return the content directly for the trajectory viewer
-        return content;
-      }
-      return content;
-    }
-    
-    // Check if it has entries array (sample-trajectory.json format)
-    if (content.entries && Array.isArray(content.entries)) {
-      console.log('Detected entries array format');
-      
-      // Return the data directly for the trajectory viewer
-      return content;
+  // A conversation directory (events/*.json plus base_state.json) is read like an archive
+  const processDirectory = useCallback(async (files: File[]) => {
+    setIsProcessing(true);
+    setError(null);
+    if (onUploadStart) {
+      onUploadStart();
     }
-    
-    // Check if it has history array (trajectory-visualizer format)
-    if (content.history && Array.isArray(content.history)) {
-      console.log('Detected history array format - using trajectory viewer');
+    console.log(`Processing folder with ${files.length} files`);
 
-      // Return the history array for the trajectory viewer
-      return content.history;
+    try {
+      const archive = await readDirectoryFiles(files);
+      onUpload(adaptInput({ kind: 'archive', archive }));
+    } catch (error) {
+      console.error('Failed to open folder:', error);
+      setError(error instanceof Error ? error.message : 'Failed to open the folder');
+    } finally {
+      setIsProcessing(false);
     }
-    
-    // If it's not in a recognized format, return as is and let the converter handle it
-    console.log('Unknown format, passing to converter as-is');
-    return content;
-  };
+  }, [onUpload, onUploadStart]);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length === 0) return;
+    if (isDirectoryUpload(acceptedFiles)) {
+      processDirectory(acceptedFiles);
+      return;
+    }
+    if (acceptedFiles.length > 1) {
+      setError(`${acceptedFiles.length} files were dropped. Drop one file, or a whole conversation folder.`);
+      return;
+    }
 
     setIsProcessing(true);
     setError(null);
@@ -66,10 +82,20 @@ export const UploadTrajectory: React.FC<UploadTrajectoryProps> = ({
     
     const reader = new FileReader();
 
-    reader.onload = () => {
+    reader.onload = async () => {
+      let text: string;
+      try {
+        text = await readTrajectoryText(reader.result as ArrayBuffer, file.name);
+      } catch (error) {
+        console.error('Failed to open file:', error);
+        setError(error instanceof Error ? error.message : 'Failed to open the file');
+        setIsProcessing(false);
+        return;
+      }
+
       try {
         // For JSON files, we parse the content and pass it as a trajectory
-        const content = JSON.parse(reader.result as string);
+        const content = JSON.parse(text);
         
         // Log some basic info about the content to help with debugging
         if (Array.isArray(content)) {
@@ -81,36 +107,19 @@ export const UploadTrajectory: React.FC<UploadTrajectoryProps> = ({
           console.log('Parsed JSON object with keys:', Object.keys(content));
         }
         
-        // Process the trajectory based on its format
-        const processedTrajectory = processOpenHandsTrajectory(content);
-        
-        // Check if we've converted to JSONL format
-        if (processedTrajectory && typeof processedTrajectory === 'object' && 'jsonlContent' in processedTrajectory) {
-          console.log('Using JSONL viewer for OpenHands trajectory');
-          onUpload({
-            content: processedTrajectory
-          });
-          setIsProcessing(false);
-        }
+        // Detect the trajectory format and convert it for the viewer
+        const uploadContent = adaptInput({ kind: 'json', data: content });
+        const trajectoryData = uploadContent.content.fileType === 'trajectory' ? uploadContent.content.trajectoryData : null;
+
         // For large trajectories, add a small delay to allow the UI to update
-        else if (Array.isArray(processedTrajectory) && processedTrajectory.length > 500) {
-          console.log(`Processing large trajectory with ${processedTrajectory.length} items...`);
+        if (Array.isArray(trajectoryData) && trajectoryData.length > 500) {
+          console.log(`Processing large trajectory with ${trajectoryData.length} items...`);
           setTimeout(() => {
-            onUpload({
-              content: {
-                trajectoryData: processedTrajectory,
-                fileType: 'trajectory'
-              }
-            });
+            onUpload(uploadContent);
             setIsProcessing(false);
           }, 100);
         } else {
-          onUpload({
-            content: {
-              trajectoryData: processedTrajectory,
-              fileType: 'trajectory'
-            }
-          });
+          onUpload(uploadContent);
           setIsProcessing(false);
         }
       } catch (error) {
@@ -127,15 +136,26 @@ export const UploadTrajectory: React.FC<UploadTrajectoryProps> = ({
       setIsProcessing(false);
     };
 
-    reader.readAsText(file);
-  }, [onUpload, onUploadStart]);
+    reader.readAsArrayBuffer(file);
+  }, [onUpload, onUploadStart, processDirectory]);
+
+  const handleFolderSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Allow picking the same folder again
+    event.target.value = '';
+    if (files.length > 0) {
+      processDirectory(files);
+    }
+  };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'application/json': ['.json']
+      'application/json': ['.json', '.traj'],
+      'application/gzip': ['.gz', '.json.gz']
     },
-    multiple: false,
+    // Several files arrive when a conversation folder is dropped
+    multiple: true,
     disabled: isProcessing
   });
 
@@ -203,12 +223,30 @@ export const UploadTrajectory: React.FC<UploadTrajectoryProps> = ({
                 }
               </p>
               <p className="text-xs text-gray-500 dark:text-gray-500 mt-2">
-                Supports OpenHands trajectory JSON files, only .json files are supported
+                Supports OpenHands trajectory JSON files, as .json or gzipped .json.gz, SWE-agent .traj files and conversation folders
               </p>
             </>
           )}
         </div>
       </div>
+
+      <div className="text-center">
+        <input
+          ref={folderInputRef}
+          type="file"
+          className="hidden"
+          onChange={handleFolderSelect}
+          {...({ webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
+        />
+        <button
+          type="button"
+          onClick={() => folderInputRef.current?.click()}
+          disabled={isProcessing}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 disabled:opacity-50"
+        >
+          Select a conversation folder (events/ and base_state.json)
+        </button>
+      </div>
       
       {error && (
         <div className="p-3 bg-red-100 dark:bg-red-900/10 text-red-700 dark:text-red-400 rounded-md">
@@ -14,7 +14,7 @@ describe('UploadTrajectory', () => {
     render(<UploadTrajectory onUpload={mockOnUpload} />);
 
     expect(screen.getByText(/drag and drop a trajectory file here/i)).toBeInTheDocument();
-    expect(screen.getByText(/only .json files are supported/i)).toBeInTheDocument();
+    expect(screen.getByText(/as .json or gzipped .json.gz/i)).toBeInTheDocument();
   });
 
   it('shows drag active state', () => {
@@ -58,7 +58,8 @@ describe('UploadTrajectory', () => {
               args: { command: 'ls' }
             }
           ]
-        }
+        },
+        detection: expect.objectContaining({ formatId: 'json-array' })
       });
     });
   });
@@ -102,12 +103,59 @@ describe('UploadTrajectory', () => {
       expect(mockOnUpload).toHaveBeenCalledWith({
         content: {
           fileType: 'trajectory',
-          trajectoryData: newFormatData
-        }
+          trajectoryData: newFormatData.entries
+        },
+        detection: expect.objectContaining({ formatId: 'entries' })
       });
     });
   });
 
+  it('opens a dropped conversation directory', async () => {
+    render(<UploadTrajectory onUpload={mockOnUpload} />);
+
+    const files = [
+      withPath(new File([JSON.stringify({ id: 'b', timestamp: '2025-01-01T00:00:02', source: 'agent' })], 'event-00001-b.json', { type: 'application/json' }), '/conv/events/event-00001-b.json'),
+      withPath(new File([JSON.stringify({ id: 'a', timestamp: '2025-01-01T00:00:01', source: 'user' })], 'event-00000-a.json', { type: 'application/json' }), '/conv/events/event-00000-a.json'),
+      withPath(new File([JSON.stringify({ agent: {} })], 'base_state.json', { type: 'application/json' }), '/conv/base_state.json')
+    ];
+    const dropzone = screen.getByText(/drag and drop a trajectory file here/i).parentElement!.parentElement!;
+
+    await act(async () => {
+      fireEvent.drop(dropzone, createDropEvent(files));
+    });
+
+    await waitFor(() => {
+      expect(mockOnUpload).toHaveBeenCalledWith(expect.objectContaining({
+        content: {
+          fileType: 'trajectory',
+          trajectoryData: [
+            expect.objectContaining({ key: 'full_state' }),
+            expect.objectContaining({ id: 'a' }),
+            expect.objectContaining({ id: 'b' })
+          ]
+        },
+        detection: expect.objectContaining({ formatId: 'openhands-conversation' })
+      }));
+    });
+  });
+
+  it('rejects several loose files', async () => {
+    render(<UploadTrajectory onUpload={mockOnUpload} />);
+
+    const files = [
+      new File(['[]'], 'first.json', { type: 'application/json' }),
+      new File(['[]'], 'second.json', { type: 'application/json' })
+    ];
+    const dropzone = screen.getByText(/drag and drop a trajectory file here/i).parentElement!.parentElement!;
+
+    await act(async () => {
+      fireEvent.drop(dropzone, createDropEvent(files));
+    });
+
+    expect(await screen.findByText(/2 files were dropped\. Drop one file/)).toBeInTheDocument();
+    expect(mockOnUpload).not.toHaveBeenCalled();
+  });
+
   it('handles invalid JSON file', async () => {
     const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
     const alertSpy = vi.spyOn(window, 'alert').mockImplementation(() => {});
@@ -132,6 +180,12 @@ describe('UploadTrajectory', () => {
   });
 });
 
+// Sets the relative path react-dropzone reports for files dropped inside a folder
+function withPath(file: File, path: string) {
+  Object.defineProperty(file, 'path', { value: path });
+  return file;
+}
+
 // Helper function to create a drop event with files
 function createDropEvent(files: File[]) {
   return {
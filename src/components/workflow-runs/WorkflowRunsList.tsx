@@ -4,6 +4,7 @@ import { api } from '../../services/api';
 import WorkflowRunsHeader from './WorkflowRunsHeader';
 import WorkflowRunItem from './WorkflowRunItem';
 import WorkflowRunsListSkeleton from '../loading/WorkflowRunsListSkeleton';
+import { getSourceJson } from '../../lib/openFile';
 
 interface WorkflowRunsListProps {
   owner: string;
@@ -182,7 +183,7 @@ const WorkflowRunsList: React.FC<WorkflowRunsListProps> = ({ owner, repo, onSele
                   const artifactId = details.artifacts.artifacts[0].id;
                   try {
                     const artifactContent = await api.getArtifactContent(owner, repo, artifactId);
-                    const content = artifactContent.content || artifactContent;
+                    const content = getSourceJson(artifactContent);
                     
                     if (content?.issue) {
                       metadata[run.id] = {
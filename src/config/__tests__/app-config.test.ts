@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DEFAULT_APP_CONFIG, getProxyUrl, isAllowedInUrl, isAllowedProxyTarget, loadAppConfig, validateAppConfig } from '../app-config';
+
+describe('validateAppConfig', () => {
+  it('fills missing settings from the defaults', () => {
+    const { config, errors } = validateAppConfig({ features: { github: false } });
+    expect(errors).toEqual([]);
+    expect(config.features).toEqual({ github: false, fileUrl: true, inUrl: true });
+    expect(config.inUrl).toEqual(DEFAULT_APP_CONFIG.inUrl);
+  });
+
+  it('reports invalid and unknown settings and keeps their defaults', () => {
+    const { config, errors } = validateAppConfig({
+      githubApiUrl: 42,
+      jsonlViewer: { sortDirection: 'sideways', displayFields: ['instance_id'] },
+      inUrl: 'https://example.com/',
+      theme: 'dark'
+    });
+
+    expect(errors).toEqual([
+      'theme is not a known setting',
+      'githubApiUrl has an invalid value: 42',
+      'inUrl must be an object',
+      'jsonlViewer.sortDirection has an invalid value: "sideways"'
+    ]);
+    expect(config.githubApiUrl).toBe(DEFAULT_APP_CONFIG.githubApiUrl);
+    expect(config.jsonlViewer).toEqual({ ...DEFAULT_APP_CONFIG.jsonlViewer, displayFields: ['instance_id'] });
+  });
+
+  it('leaves the proxy off by default', () => {
+    expect(validateAppConfig({}).config.proxy).toEqual({ url: null, allowedPrefixes: [] });
+  });
+});
+
+describe('isAllowedInUrl', () => {
+  const { config } = validateAppConfig({
+    inUrl: { allowedPrefixes: ['https://a.example.com/', 'https://b.example.com/'], allowedSuffixes: ['.tar.gz'] }
+  });
+
+  it('requires one allowed prefix and one allowed suffix', () => {
+    expect(isAllowedInUrl('https://b.example.com/run/results.tar.gz', config)).toBe(true);
+    expect(isAllowedInUrl('https://c.example.com/run/results.tar.gz', config)).toBe(false);
+    expect(isAllowedInUrl('https://a.example.com/run/results.zip', config)).toBe(false);
+  });
+
+  it('does not take a look-alike host for an allowed one', () => {
+    expect(isAllowedInUrl('https://a.example.com.evil.net/run/results.tar.gz', config)).toBe(false);
+    expect(isAllowedInUrl('https://a.example.com@evil.net/run/results.tar.gz', config)).toBe(false);
+  });
+
+  it('only admits paths below a prefix at a path segment boundary', () => {
+    const { config: foo } = validateAppConfig({
+      inUrl: { allowedPrefixes: ['https://a.example.com/foo'], allowedSuffixes: ['.tar.gz'] }
+    });
+    expect(isAllowedInUrl('https://a.example.com/foo/results.tar.gz', foo)).toBe(true);
+    expect(isAllowedInUrl('https://a.example.com/foobar/results.tar.gz', foo)).toBe(false);
+  });
+});
+
+describe('proxy settings', () => {
+  const { config } = validateAppConfig({
+    proxy: { url: '/api/proxy?url={url}', allowedPrefixes: ['https://static.internal/'] }
+  });
+
+  it('only sends allowlisted URLs to the proxy', () => {
+    expect(isAllowedProxyTarget('https://static.internal/run/output.jsonl', config)).toBe(true);
+    expect(isAllowedProxyTarget('https://elsewhere.example.com/output.jsonl', config)).toBe(false);
+    expect(isAllowedProxyTarget('https://static.internal/run/output.jsonl', DEFAULT_APP_CONFIG)).toBe(false);
+  });
+
+  it('compares the origin, not the start of the string', () => {
+    const { config: hostOnly } = validateAppConfig({
+      proxy: { url: '/api/proxy?url={url}', allowedPrefixes: ['https://host.example.com'] }
+    });
+    expect(isAllowedProxyTarget('https://host.example.com/output.jsonl', hostOnly)).toBe(true);
+    expect(isAllowedProxyTarget('https://host.example.com.evil.net/output.jsonl', hostOnly)).toBe(false);
+    expect(isAllowedProxyTarget('https://host.example.com:8443/output.jsonl', hostOnly)).toBe(false);
+  });
+
+  it('builds the proxy request URL', () => {
+    expect(getProxyUrl('https://static.internal/a b.jsonl', config)).toBe('/api/proxy?url=https%3A%2F%2Fstatic.internal%2Fa%20b.jsonl');
+    expect(getProxyUrl('https://x/y', validateAppConfig({ proxy: { url: 'https://proxy/?target=' } }).config)).toBe('https://proxy/?target=https%3A%2F%2Fx%2Fy');
+  });
+});
+
+describe('loadAppConfig', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('uses the defaults without errors when there is no config.json', async () => {
+    global.fetch = vi.fn().mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found', headers: new Map() }) as typeof fetch;
+    expect(await loadAppConfig()).toEqual({ config: DEFAULT_APP_CONFIG, errors: [] });
+  });
+
+  it('reports config.json that is not JSON', async () => {
+    global.fetch = vi.fn().mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: new Map([['content-type', 'application/json']]),
+      json: () => Promise.reject(new SyntaxError('Unexpected token'))
+    }) as typeof fetch;
+
+    const { config, errors } = await loadAppConfig();
+    expect(config).toBe(DEFAULT_APP_CONFIG);
+    expect(errors).toEqual(['/config.json is not valid JSON: Unexpected token']);
+  });
+});
@@ -0,0 +1,212 @@
+// Runtime configuration, loaded from /config.json at startup so self-hosted
+// deployments can change it without rebuilding
+
+import { DEFAULT_JSONL_VIEWER_SETTINGS } from './jsonl-viewer-config';
+import { matchesUrlPrefix } from './url-prefix';
+
+export interface AppConfig {
+  // Which archives the inUrl parameter may load: a URL must match one prefix and one suffix
+  inUrl: {
+    allowedPrefixes: string[];
+    allowedSuffixes: string[];
+  };
+  githubApiUrl: string;
+  // Proxy retried when a direct fileUrl fetch fails (usually CORS). Off unless configured.
+  proxy: {
+    // Proxy endpoint; {url} is replaced with the encoded target, otherwise the target is appended
+    url: string | null;
+    // Only URLs with one of these prefixes are ever sent to the proxy
+    allowedPrefixes: string[];
+  };
+  jsonlViewer: {
+    sortField: string;
+    sortDirection: 'asc' | 'desc';
+    displayFields: string[];
+  };
+  features: {
+    // GitHub token prompt, repository selector and workflow runs
+    github: boolean;
+    fileUrl: boolean;
+    inUrl: boolean;
+  };
+}
+
+export interface AppConfigResult {
+  config: AppConfig;
+  // Problems found in config.json; the affected settings keep their defaults
+  errors: string[];
+}
+
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  inUrl: {
+    allowedPrefixes: ['https://results.eval.all-hands.dev/'],
+    allowedSuffixes: ['results.tar.gz']
+  },
+  githubApiUrl: 'https://api.github.com',
+  proxy: {
+    url: null,
+    allowedPrefixes: []
+  },
+  jsonlViewer: {
+    sortField: DEFAULT_JSONL_VIEWER_SETTINGS.sortField,
+    sortDirection: DEFAULT_JSONL_VIEWER_SETTINGS.sortDirection,
+    displayFields: [...DEFAULT_JSONL_VIEWER_SETTINGS.displayFields]
+  },
+  features: {
+    github: true,
+    fileUrl: true,
+    inUrl: true
+  }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value !== '';
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Reads one section of the config, reporting unknown keys and values of the wrong type
+function readSection<T extends object>(
+  raw: unknown,
+  defaults: T,
+  name: string,
+  validators: { [K in keyof T]: (value: unknown) => boolean },
+  errors: string[]
+): T {
+  if (raw === undefined) return defaults;
+  if (!isPlainObject(raw)) {
+    errors.push(`${name} must be an object`);
+    return defaults;
+  }
+
+  const result = { ...defaults };
+  for (const [key, value] of Object.entries(raw)) {
+    if (!(key in validators)) {
+      errors.push(`${name}.${key} is not a known setting`);
+    } else if (!validators[key as keyof T](value)) {
+      errors.push(`${name}.${key} has an invalid value: ${JSON.stringify(value)}`);
+    } else {
+      result[key as keyof T] = value as T[keyof T];
+    }
+  }
+  return result;
+}
+
+const ROOT_KEYS: (keyof AppConfig)[] = ['inUrl', 'githubApiUrl', 'proxy', 'jsonlViewer', 'features'];
+
+/**
+ * Checks a parsed config.json against the schema. Invalid or unknown settings are
+ * reported and fall back to their defaults, so a typo never stops the app loading.
+ */
+export function validateAppConfig(raw: unknown): AppConfigResult {
+  if (!isPlainObject(raw)) {
+    return { config: DEFAULT_APP_CONFIG, errors: ['config.json must contain a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  for (const key of Object.keys(raw)) {
+    if (!ROOT_KEYS.includes(key as keyof AppConfig)) errors.push(`${key} is not a known setting`);
+  }
+
+  let githubApiUrl = DEFAULT_APP_CONFIG.githubApiUrl;
+  if (raw.githubApiUrl !== undefined) {
+    if (isNonEmptyString(raw.githubApiUrl)) {
+      githubApiUrl = raw.githubApiUrl.replace(/\/+$/, '');
+    } else {
+      errors.push(`githubApiUrl has an invalid value: ${JSON.stringify(raw.githubApiUrl)}`);
+    }
+  }
+
+  const config: AppConfig = {
+    inUrl: readSection(raw.inUrl, DEFAULT_APP_CONFIG.inUrl, 'inUrl', {
+      allowedPrefixes: isStringArray,
+      allowedSuffixes: isStringArray
+    }, errors),
+    githubApiUrl,
+    proxy: readSection(raw.proxy, DEFAULT_APP_CONFIG.proxy, 'proxy', {
+      url: value => value === null || isNonEmptyString(value),
+      allowedPrefixes: isStringArray
+    }, errors),
+    jsonlViewer: readSection(raw.jsonlViewer, DEFAULT_APP_CONFIG.jsonlViewer, 'jsonlViewer', {
+      sortField: isNonEmptyString,
+      sortDirection: value => value === 'asc' || value === 'desc',
+      displayFields: isStringArray
+    }, errors),
+    features: readSection(raw.features, DEFAULT_APP_CONFIG.features, 'features', {
+      github: value => typeof value === 'boolean',
+      fileUrl: value => typeof value === 'boolean',
+      inUrl: value => typeof value === 'boolean'
+    }, errors)
+  };
+  return { config, errors };
+}
+
+let currentConfig: AppConfig = DEFAULT_APP_CONFIG;
+
+export const getAppConfig = (): AppConfig => currentConfig;
+
+export function setAppConfig(config: AppConfig): void {
+  currentConfig = config;
+}
+
+/**
+ * Fetches and validates config.json. A missing file is not an error: the defaults apply.
+ */
+export async function loadAppConfig(url = '/config.json'): Promise<AppConfigResult> {
+  let response: Response;
+  try {
+    response = await fetch(url, { cache: 'no-cache' });
+  } catch (err) {
+    return { config: DEFAULT_APP_CONFIG, errors: [`Could not fetch ${url}: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+  // SPA hosts answer unknown paths with index.html instead of a 404
+  if (response.status === 404 || response.headers.get('content-type')?.includes('text/html')) {
+    return { config: DEFAULT_APP_CONFIG, errors: [] };
+  }
+  if (!response.ok) {
+    return { config: DEFAULT_APP_CONFIG, errors: [`Could not fetch ${url}: ${response.status} ${response.statusText}`] };
+  }
+
+  try {
+    return validateAppConfig(await response.json());
+  } catch (err) {
+    return { config: DEFAULT_APP_CONFIG, errors: [`${url} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+}
+
+const parseUrl = (url: string): URL | null => {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether the inUrl parameter may load this URL
+ */
+export function isAllowedInUrl(url: string, config: AppConfig = currentConfig): boolean {
+  const target = parseUrl(url);
+  return target !== null && config.inUrl.allowedPrefixes.some(prefix => matchesUrlPrefix(target, prefix)) &&
+         config.inUrl.allowedSuffixes.some(suffix => url.endsWith(suffix));
+}
+
+/**
+ * Whether a URL may be sent to the configured proxy
+ */
+export function isAllowedProxyTarget(url: string, config: AppConfig = currentConfig): boolean {
+  const target = parseUrl(url);
+  return config.proxy.url !== null && target !== null && config.proxy.allowedPrefixes.some(prefix => matchesUrlPrefix(target, prefix));
+}
+
+/**
+ * The proxy request URL for a target, or null when the proxy is off
+ */
+export function getProxyUrl(target: string, config: AppConfig = currentConfig): string | null {
+  const proxyUrl = config.proxy.url;
+  if (proxyUrl === null) return null;
+  const encoded = encodeURIComponent(target);
+  return proxyUrl.includes('{url}') ? proxyUrl.replace('{url}', encoded) : `${proxyUrl}${encoded}`;
+}
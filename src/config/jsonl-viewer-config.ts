@@ -10,6 +10,7 @@ export const COMMON_SORT_FIELDS: SortField[] = [
   { value: 'instance_id', label: 'Instance ID' },
   { value: 'metrics.accumulated_cost', label: 'Cost (metrics.accumulated_cost)' },
   { value: 'report.resolved', label: 'Resolved Status (report.resolved)' },
+  { value: 'report_status', label: 'Report Status (output.report.json)' },
   { value: 'len(history)', label: 'History Length (len(history))' },
   { value: 'duration', label: 'Duration' }
 ];
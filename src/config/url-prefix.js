@@ -0,0 +1,23 @@
+// Plain JavaScript so scripts/cors-proxy.mjs can import it: the app and the proxy
+// must agree on what an allowlisted prefix admits
+
+/**
+ * Whether a URL falls under an allowlisted prefix. The origin must be the same, so a
+ * look-alike host such as https://host.example.com.evil.net does not pass for
+ * https://host.example.com, and the path must continue at a segment boundary, so
+ * https://host.example.com/data does not admit https://host.example.com/data-private.
+ * @param {URL} url The parsed URL to check
+ * @param {string} prefix An allowlist entry; invalid entries match nothing
+ * @returns {boolean}
+ */
+export function matchesUrlPrefix(url, prefix) {
+  let allowed;
+  try {
+    allowed = new URL(prefix);
+  } catch {
+    return false;
+  }
+  const path = allowed.pathname;
+  if (url.origin !== allowed.origin || !url.pathname.startsWith(path)) return false;
+  return path.endsWith('/') || url.pathname.length === path.length || url.pathname[path.length] === '/';
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeEvents } from '..';
+import { getBrowserSteps } from '../browsing';
+
+describe('getBrowserSteps', () => {
+  it('makes one step per browser observation with the action that led to it', () => {
+    const steps = getBrowserSteps(normalizeEvents([
+      { id: 1, action: 'browse', source: 'agent', args: { url: 'https://example.com', thought: 'Open the site' } },
+      { id: 2, cause: 1, observation: 'browse', source: 'environment', content: '', extras: { url: 'https://example.com', screenshot: 'AAAA' } },
+      { id: 3, action: 'run', source: 'agent', args: { command: 'ls' } },
+      { id: 4, action: 'browse_interactive', source: 'agent', args: { browser_actions: "fill('12', 'shoes')" } },
+      {
+        id: 5,
+        cause: 4,
+        observation: 'browse',
+        source: 'environment',
+        content: '',
+        extras: {
+          url: 'https://example.com/?q=shoes',
+          focused_element_bid: '12',
+          axtree_object: { nodes: [{ browsergym_id: '12', role: { value: 'textbox' }, name: { value: 'Search' } }] }
+        }
+      }
+    ]));
+
+    expect(steps).toHaveLength(2);
+    expect(steps[0]).toMatchObject({ key: '1', actionKey: '0', action: "goto('https://example.com')", thought: 'Open the site', screenshot: 'AAAA' });
+    expect(steps[1]).toMatchObject({ action: "fill('12', 'shoes')", focusedElement: 'textbox "Search" (12)', url: 'https://example.com/?q=shoes' });
+  });
+
+  it('falls back to the last browser action recorded on an unmatched observation', () => {
+    const steps = getBrowserSteps(normalizeEvents([
+      { id: 9, observation: 'browse', source: 'environment', content: '', extras: { url: 'https://a.test', last_browser_action: "click('3')", focused_element_bid: '3', last_browser_action_error: 'Timeout' } }
+    ]));
+
+    expect(steps[0]).toMatchObject({ action: "click('3')", focusedElement: 'element 3', error: 'Timeout' });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeEvents } from '..';
+import { describeForgotten, getForgottenKeys } from '../condensation';
+
+describe('condensation', () => {
+  it('names the forgotten events by id or by range', () => {
+    expect(describeForgotten({ forgotten_event_ids: [4, 5] })).toBe('Forgot 2 events: 4, 5');
+    expect(describeForgotten({ forgotten_events_start_id: 3, forgotten_events_end_id: 9 })).toBe('Forgot events 3 to 9');
+    expect(describeForgotten({})).toBe('No events forgotten');
+  });
+
+  it('collects what earlier condensations forgot as well', () => {
+    const events = normalizeEvents([
+      { id: 1, action: 'run', source: 'agent', args: { command: 'ls' } },
+      { id: 2, action: 'run', source: 'agent', args: { command: 'pwd' } },
+      { id: 3, action: 'condensation', source: 'agent', args: { forgotten_event_ids: [1] } },
+      { id: 4, action: 'run', source: 'agent', args: { command: 'make' } },
+      { id: 5, action: 'condensation', source: 'agent', args: { forgotten_events_start_id: 2, forgotten_events_end_id: 4 } }
+    ]);
+
+    expect([...getForgottenKeys(events, '2')]).toEqual(['0']);
+    expect([...getForgottenKeys(events, '4')]).toEqual(['0', '1', '2', '3']);
+  });
+
+  it('reads agent SDK condensation events', () => {
+    const events = normalizeEvents([
+      { id: 'a', kind: 'ActionEvent', source: 'agent', tool_name: 'terminal', action: { command: 'ls' } },
+      { id: 'c', kind: 'Condensation', source: 'agent', forgotten_event_ids: ['a'], summary: 'Listed files' }
+    ]);
+
+    expect(events[1]).toMatchObject({ kind: 'condensation', text: 'Listed files' });
+    expect([...getForgottenKeys(events, '1')]).toEqual(['0']);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeEvents } from '..';
+import { getDelegations } from '../delegation';
+
+// The main agent delegates to a browsing agent, which delegates once more
+const history = [
+  { id: 1, action: 'message', source: 'user', args: { content: 'Find the price' } },
+  { id: 2, action: 'delegate', source: 'agent', args: { agent: 'BrowsingAgent', inputs: { task: 'Open the shop' } }, llm_metrics: { accumulated_cost: 0.1 } },
+  { id: 3, action: 'browse', source: 'agent', args: { url: 'https://shop.test' }, llm_metrics: { accumulated_cost: 0.15 } },
+  { id: 4, cause: 3, observation: 'browse', source: 'environment', content: '', extras: { url: 'https://shop.test' } },
+  { id: 5, action: 'delegate', source: 'agent', args: { agent: 'ReaderAgent', inputs: { task: 'Read the price' } } },
+  { id: 6, action: 'finish', source: 'agent', args: { outputs: { price: 12 } }, llm_metrics: { accumulated_cost: 0.3 } },
+  { id: 7, cause: 5, observation: 'delegate', source: 'agent', content: 'Read it', extras: { outputs: { price: 12 } } },
+  { id: 8, action: 'finish', source: 'agent', args: { outputs: { price: 12 } } },
+  { id: 9, cause: 2, observation: 'delegate', source: 'agent', content: 'Done', extras: { outputs: { price: 12 } } },
+  { id: 10, action: 'message', source: 'agent', args: { content: 'It costs 12' } }
+];
+
+describe('delegation', () => {
+  it('links sub-agent events to the delegate action that spawned them', () => {
+    const parents = normalizeEvents(history).map(event => event.parent);
+    expect(parents).toEqual([undefined, undefined, 2, 2, 2, 5, 2, 2, undefined, undefined]);
+  });
+
+  it('builds the delegation tree with steps, cost and outputs', () => {
+    const [browsing] = getDelegations(normalizeEvents(history));
+
+    expect(browsing).toMatchObject({
+      agent: 'BrowsingAgent',
+      task: 'Open the shop',
+      stepCount: 3,
+      outputs: { price: 12 },
+      result: { id: 9 }
+    });
+    expect(browsing.cost).toBeCloseTo(0.2);
+    expect(browsing.events.map(event => event.id)).toEqual([3, 4, 5, 6, 7, 8]);
+    expect(browsing.children).toHaveLength(1);
+    expect(browsing.children[0]).toMatchObject({ agent: 'ReaderAgent', stepCount: 1, result: { id: 7 } });
+  });
+
+  it('keeps a delegation without a result open to the end', () => {
+    const [delegation] = getDelegations(normalizeEvents(history.slice(0, 4)));
+    expect(delegation.result).toBeUndefined();
+    expect(delegation.events).toHaveLength(2);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { getVisibleEvents, normalizeEvents } from '..';
+import { sweAgentToTrajectory } from '../../formats/sweAgent';
+import { completionsToTrajectory } from '../../formats/completions';
+
+describe('normalizeEvents', () => {
+  it('reads legacy OpenHands actions and observations', () => {
+    const events = normalizeEvents([
+      { id: 1, action: 'message', args: { content: 'Fix the bug' } },
+      {
+        id: 2,
+        action: 'run',
+        source: 'agent',
+        args: { command: 'ls', thought: 'Look around' },
+        tool_call_metadata: { function_name: 'execute_bash', tool_call_id: 'call_1', model_response: { model: 'gpt-4o', usage: { prompt_tokens: 10, completion_tokens: 2 } } }
+      },
+      { id: 3, cause: 2, observation: 'run', source: 'agent', content: 'README.md', extras: { exit_code: 0 } },
+      { id: 4, observation: 'null', source: 'environment', content: '' }
+    ]);
+
+    expect(events.map(event => [event.kind, event.actor, event.toolName])).toEqual([
+      ['message', 'user', undefined],
+      ['action', 'agent', 'execute_bash'],
+      ['observation', 'agent', 'run'],
+      ['observation', 'environment', 'null']
+    ]);
+    expect(events[0].text).toBe('Fix the bug');
+    expect(events[1]).toMatchObject({ toolCallId: 'call_1', args: { command: 'ls' }, text: 'Look around' });
+    expect(events[1].metrics).toMatchObject({ model: 'gpt-4o', prompt_tokens: 10, completion_tokens: 2 });
+    expect(events[2]).toMatchObject({ cause: 2, output: 'README.md' });
+    expect(getVisibleEvents(events)).toHaveLength(3);
+  });
+
+  it('reads agent SDK events from completion logs', () => {
+    const items = completionsToTrajectory([{
+      messages: [{ role: 'system', content: 'Be helpful' }, { role: 'user', content: 'Hi' }],
+      response: {
+        model: 'gpt-4o',
+        choices: [{ message: { role: 'assistant', content: 'Listing', tool_calls: [{ id: 'c1', type: 'function', function: { name: 'execute_bash', arguments: '{"command":"ls"}' } }] } }],
+        usage: { prompt_tokens: 5, completion_tokens: 1 }
+      }
+    }]);
+    const events = normalizeEvents(items);
+
+    expect(events.map(event => event.dialect)).toEqual(['agent-sdk', 'agent-sdk', 'agent-sdk', 'agent-sdk']);
+    expect(events.map(event => event.kind)).toEqual(['system', 'message', 'thought', 'action']);
+    expect(events[3]).toMatchObject({ toolName: 'execute_bash', toolCallId: 'c1', args: { command: 'ls' } });
+    expect(events[2].metrics?.prompt_tokens).toBe(5);
+  });
+
+  it('reads sample entries', () => {
+    const [message, command] = normalizeEvents([
+      { type: 'message', actorType: 'User', content: 'Hello' },
+      { type: 'command', actorType: 'Assistant', command: 'pwd', path: '/repo' }
+    ]);
+
+    expect(message).toMatchObject({ kind: 'message', actor: 'user', text: 'Hello', dialect: 'sample' });
+    expect(command).toMatchObject({ kind: 'action', actor: 'agent', toolName: 'command', args: { command: 'pwd', path: '/repo' } });
+  });
+
+  it('gives every imported format a known dialect', () => {
+    const items = sweAgentToTrajectory({
+      history: [{ role: 'user', content: 'Task' }],
+      trajectory: [{ action: 'ls', observation: 'a.py', thought: 'Look' }, { action: 'submit', thought: 'Done' }],
+      info: { submission: 'diff', exit_status: 'submitted' }
+    });
+    const events = normalizeEvents([...items, { unrelated: true }]);
+
+    expect(events.slice(0, -1).every(event => event.dialect === 'openhands')).toBe(true);
+    expect(events[events.length - 2]).toMatchObject({ kind: 'finish', toolName: 'finish' });
+    expect(events[events.length - 1]).toMatchObject({ kind: 'unknown', dialect: 'unknown', key: String(events.length - 1) });
+  });
+
+  it('has no events for a trajectory that is not an array', () => {
+    expect(normalizeEvents({ issue: { title: 'Fix it' } })).toEqual([]);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeEvents } from '..';
+import { formatLatency, pairEvents } from '../pairing';
+
+describe('pairEvents', () => {
+  it('pairs legacy observations with their action by cause', () => {
+    const entries = pairEvents(normalizeEvents([
+      { id: 1, action: 'run', source: 'agent', args: { command: 'ls' }, timestamp: '2025-03-01T10:00:00Z' },
+      { id: 2, action: 'run', source: 'agent', args: { command: 'pwd' }, timestamp: '2025-03-01T10:00:01Z' },
+      { id: 3, cause: 1, observation: 'run', source: 'agent', content: 'a.py', timestamp: '2025-03-01T10:00:02.500Z' },
+      { id: 4, cause: 99, observation: 'run', source: 'agent', content: 'lost' }
+    ]));
+
+    expect(entries.map(entry => entry.type === 'pair' ? 'pair' : `single:${entry.orphan}`)).toEqual([
+      'pair',
+      'single:action',
+      'single:observation'
+    ]);
+    expect(entries[0]).toMatchObject({ action: { id: 1 }, observation: { id: 3 }, latencyMs: 2500 });
+  });
+
+  it('pairs function-calling events by tool call id', () => {
+    const entries = pairEvents(normalizeEvents([
+      { source: 'agent', tool_name: 'execute_bash', tool_call_id: 'call_a', action: { command: 'ls' } },
+      { source: 'agent', tool_name: 'finish', tool_call_id: 'call_b', action: {} },
+      { source: 'environment', kind: 'ObservationEvent', tool_name: 'execute_bash', tool_call_id: 'call_a', observation: { content: 'ok' } }
+    ]));
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ type: 'pair', observation: { toolCallId: 'call_a' } });
+    expect(entries[0].type === 'pair' && entries[0].latencyMs).toBeUndefined();
+    // A finish call needs no result
+    expect(entries[1].type === 'single' && entries[1].orphan).toBeUndefined();
+  });
+
+  it('formats latencies', () => {
+    expect(formatLatency(850)).toBe('850 ms');
+    expect(formatLatency(4200)).toBe('4.2 s');
+    expect(formatLatency(125000)).toBe('2m 5s');
+  });
+});
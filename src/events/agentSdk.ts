@@ -0,0 +1,97 @@
+import { AgentSdkItem, NormalizedEvent } from '../types/event';
+import {
+  isAgentAction,
+  isAgentContextEvent,
+  isAgentThought,
+  isEnvironmentEvent,
+  isSystemPrompt,
+  isToolObservation
+} from '../utils/share';
+import { contentText, isPlainObject, toActor } from './helpers';
+
+type Adapted = Omit<NormalizedEvent, 'key'>;
+
+/**
+ * Agent SDK (V1) events: conversation directories, index history and completion logs
+ */
+export const isAgentSdkItem = (item: unknown): item is AgentSdkItem =>
+  isPlainObject(item) && (
+    typeof item.kind === 'string' ||
+    isEnvironmentEvent(item) ||
+    isSystemPrompt(item) ||
+    item.llm_message !== undefined ||
+    isAgentThought(item) ||
+    isAgentAction(item)
+  );
+
+const thoughtText = (thought: unknown): string | undefined =>
+  contentText(thought) || (typeof thought === 'object' && thought !== null ? JSON.stringify(thought) : undefined);
+
+export function adaptAgentSdkItem(item: AgentSdkItem): Adapted {
+  const common = {
+    id: item.id,
+    actor: toActor(item.source),
+    timestamp: item.timestamp,
+    metrics: item.usage,
+    dialect: 'agent-sdk' as const,
+    raw: item
+  };
+
+  if (isAgentContextEvent(item) || (isEnvironmentEvent(item) && item.key === 'full_state')) {
+    return { ...common, kind: 'context', args: item.value };
+  }
+  if (isEnvironmentEvent(item) || item.kind === 'ConversationStateUpdateEvent') {
+    return { ...common, kind: 'state', args: { [String(item.key)]: item.value } };
+  }
+  if (isSystemPrompt(item)) {
+    const prompt = item.system_prompt;
+    return { ...common, kind: 'system', text: contentText(isPlainObject(prompt) ? prompt.text : prompt), args: { tools: item.tools } };
+  }
+  if (item.llm_message !== undefined) {
+    return { ...common, kind: 'message', text: contentText(item.llm_message.content) };
+  }
+  // Thoughts may carry the action they led to, and are shown as one card
+  if (isAgentThought(item)) {
+    return {
+      ...common,
+      kind: 'thought',
+      text: thoughtText(item.thought) || item.reasoning_content,
+      toolName: item.tool_name,
+      toolCallId: item.tool_call_id,
+      args: item.action
+    };
+  }
+  if (isAgentAction(item)) {
+    return {
+      ...common,
+      kind: item.tool_name === 'finish' ? 'finish' : 'action',
+      toolName: item.tool_name,
+      toolCallId: item.tool_call_id,
+      args: item.action ?? item.tool_call,
+      text: item.summary ?? item.reasoning_content
+    };
+  }
+  if (isToolObservation(item)) {
+    const observation = item.observation;
+    return {
+      ...common,
+      kind: isPlainObject(observation) && observation.is_error ? 'error' : 'observation',
+      toolName: item.tool_name,
+      toolCallId: item.tool_call_id,
+      cause: item.action_id,
+      output: contentText(isPlainObject(observation) ? observation.content : undefined) ?? (typeof observation === 'string' ? observation : JSON.stringify(observation, null, 2))
+    };
+  }
+  if (item.kind === 'Condensation') {
+    return {
+      ...common,
+      kind: 'condensation',
+      args: { forgotten_event_ids: item.forgotten_event_ids, summary: item.summary, summary_offset: item.summary_offset },
+      text: item.summary ?? undefined
+    };
+  }
+  if (item.kind === 'AgentErrorEvent') {
+    return { ...common, kind: 'error', toolName: item.tool_name, toolCallId: item.tool_call_id, output: item.error };
+  }
+  return { ...common, kind: 'unknown' };
+}
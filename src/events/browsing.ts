@@ -0,0 +1,67 @@
+import { NormalizedEvent } from '../types/event';
+import { pairEvents } from './pairing';
+
+export interface BrowserStep {
+  // Key of the browser observation, the same as in the timeline
+  key: string;
+  // Key of the action that led to this page state, when it was found
+  actionKey?: string;
+  // BrowserGym action string, e.g. click('42'), or goto() for a plain browse action
+  action?: string;
+  thought?: string;
+  url: string;
+  screenshot?: string;
+  // The element that had focus after the action, e.g. textbox "Search"
+  focusedElement?: string;
+  error?: string;
+  timestamp?: string;
+}
+
+const isBrowserObservation = (event: NormalizedEvent): boolean =>
+  event.dialect === 'openhands' && event.raw?.observation === 'browse';
+
+// Names the focused element from the accessibility tree when it was kept, otherwise by its BrowserGym id
+const describeFocusedElement = (extras: Record<string, any>): string | undefined => {
+  const bid = extras.focused_element_bid;
+  if (bid === undefined || bid === null || bid === '') return undefined;
+  const node = extras.axtree_object?.nodes?.find((candidate: any) => String(candidate?.browsergym_id) === String(bid));
+  const role = node?.role?.value;
+  const name = node?.name?.value;
+  if (!role) return `element ${bid}`;
+  return name ? `${role} "${name}" (${bid})` : `${role} (${bid})`;
+};
+
+const describeAction = (action: NormalizedEvent | undefined, extras: Record<string, any>): string | undefined => {
+  const args = action?.raw?.args ?? {};
+  if (typeof args.browser_actions === 'string') return args.browser_actions;
+  if (typeof args.url === 'string') return `goto('${args.url}')`;
+  // Without the action, the observation still records what was last done
+  return extras.last_browser_action || undefined;
+};
+
+/**
+ * The page states of a browsing session in order: one step per browser observation,
+ * with the action that led to it
+ */
+export function getBrowserSteps(events: NormalizedEvent[]): BrowserStep[] {
+  const steps: BrowserStep[] = [];
+  for (const entry of pairEvents(events)) {
+    const observation = entry.type === 'pair' ? entry.observation : entry.event;
+    if (!isBrowserObservation(observation)) continue;
+
+    const action = entry.type === 'pair' ? entry.action : undefined;
+    const extras = observation.raw.extras ?? {};
+    steps.push({
+      key: observation.key,
+      actionKey: action?.key,
+      action: describeAction(action, extras),
+      thought: action?.text,
+      url: extras.url ?? '',
+      screenshot: extras.screenshot || undefined,
+      focusedElement: describeFocusedElement(extras),
+      error: extras.last_browser_action_error || (extras.error ? 'The browser reported an error' : undefined),
+      timestamp: observation.timestamp
+    });
+  }
+  return steps;
+}
@@ -0,0 +1,57 @@
+import { NormalizedEvent } from '../types/event';
+
+// Condensation args as both dialects write them: legacy actions give either the
+// dropped ids or the first and last of a range, agent SDK events give the ids
+export interface CondensationArgs {
+  forgotten_event_ids?: (string | number)[] | null;
+  forgotten_events_start_id?: number | null;
+  forgotten_events_end_id?: number | null;
+  summary?: string | null;
+}
+
+/**
+ * Names the events a condensation dropped, e.g. "Forgot events 4 to 20"
+ */
+export function describeForgotten({ forgotten_event_ids, forgotten_events_start_id, forgotten_events_end_id }: CondensationArgs): string {
+  if (forgotten_event_ids && forgotten_event_ids.length > 0) {
+    return `Forgot ${forgotten_event_ids.length} event${forgotten_event_ids.length === 1 ? '' : 's'}: ${forgotten_event_ids.join(', ')}`;
+  }
+  if (forgotten_events_start_id != null && forgotten_events_end_id != null) {
+    return `Forgot events ${forgotten_events_start_id} to ${forgotten_events_end_id}`;
+  }
+  return 'No events forgotten';
+}
+
+/**
+ * Whether a condensation dropped any events, by id or by range
+ */
+export function forgetsEvents({ forgotten_event_ids, forgotten_events_start_id, forgotten_events_end_id }: CondensationArgs): boolean {
+  return (!!forgotten_event_ids && forgotten_event_ids.length > 0) ||
+    (forgotten_events_start_id != null && forgotten_events_end_id != null);
+}
+
+const forgets = (args: CondensationArgs, event: NormalizedEvent): boolean => {
+  if (event.id === undefined) return false;
+  if (args.forgotten_event_ids && args.forgotten_event_ids.length > 0) {
+    return args.forgotten_event_ids.some(id => String(id) === String(event.id));
+  }
+  const id = Number(event.id);
+  return args.forgotten_events_start_id != null && args.forgotten_events_end_id != null &&
+    id >= args.forgotten_events_start_id && id <= args.forgotten_events_end_id;
+};
+
+/**
+ * Keys of the events the LLM no longer saw once the given condensation ran.
+ * Condensations build on each other, so every earlier one counts too.
+ * @param events The timeline's events
+ * @param condensationKey Key of a condensation event
+ */
+export function getForgottenKeys(events: NormalizedEvent[], condensationKey: string): Set<string> {
+  const end = events.findIndex(event => event.key === condensationKey);
+  const condensations = events.slice(0, end + 1).filter(event => event.kind === 'condensation');
+  const forgotten = new Set<string>();
+  for (const event of events) {
+    if (condensations.some(condensation => forgets(condensation.args ?? {}, event))) forgotten.add(event.key);
+  }
+  return forgotten;
+}
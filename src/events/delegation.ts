@@ -0,0 +1,107 @@
+import { NormalizedEvent } from '../types/event';
+
+export interface Delegation {
+  // Key of the delegate action
+  key: string;
+  action: NormalizedEvent;
+  // The delegate observation the parent agent got back, if the sub-agent returned
+  result?: NormalizedEvent;
+  // Sub-agent class, e.g. BrowsingAgent
+  agent: string;
+  task?: string;
+  // Everything the sub-agent did, its own delegations included
+  events: NormalizedEvent[];
+  // Actions the sub-agent took itself, not counting those of its delegates
+  stepCount: number;
+  cost?: number;
+  outputs?: Record<string, unknown>;
+  children: Delegation[];
+}
+
+const isDelegateAction = (event: NormalizedEvent): boolean =>
+  event.dialect === 'openhands' && event.raw?.action === 'delegate' && event.id !== undefined;
+
+const isDelegateResult = (event: NormalizedEvent): boolean =>
+  event.dialect === 'openhands' && event.raw?.observation === 'delegate';
+
+// A result answers its action by cause or tool call id; one with neither closes the innermost delegation
+const answers = (result: NormalizedEvent, action: NormalizedEvent, innermost: boolean): boolean => {
+  if (result.cause !== undefined) return String(result.cause) === String(action.id);
+  if (result.toolCallId !== undefined) return result.toolCallId === action.toolCallId;
+  return innermost;
+};
+
+/**
+ * Sets parent on the events a sub-agent emitted. Legacy histories interleave them:
+ * everything between a delegate action and the delegate observation that answers
+ * it belongs to the sub-agent, and delegations can nest.
+ */
+export function withDelegationParents(events: NormalizedEvent[]): NormalizedEvent[] {
+  const open: NormalizedEvent[] = [];
+  return events.map(event => {
+    if (isDelegateResult(event)) {
+      const index = open.findLastIndex((action, i) => answers(event, action, i === open.length - 1));
+      if (index !== -1) open.length = index;
+    }
+    const parent = open[open.length - 1]?.id;
+    if (isDelegateAction(event)) open.push(event);
+    return parent === undefined || event.parent !== undefined ? event : { ...event, parent };
+  });
+}
+
+// Per-step costs when the format has them, otherwise how much the accumulated cost grew
+const getCost = (action: NormalizedEvent, events: NormalizedEvent[]): number | undefined => {
+  const costs = events.map(event => event.metrics?.cost).filter((cost): cost is number => cost !== undefined);
+  if (costs.length > 0) return costs.reduce((sum, cost) => sum + cost, 0);
+
+  const accumulated = events
+    .map(event => event.raw?.llm_metrics?.accumulated_cost)
+    .filter((cost): cost is number => typeof cost === 'number');
+  const start = action.raw?.llm_metrics?.accumulated_cost;
+  if (accumulated.length === 0 || typeof start !== 'number') return undefined;
+  return Math.max(0, Math.max(...accumulated) - start);
+};
+
+/**
+ * The delegations made by the agent whose events these are, each with the
+ * delegations its sub-agent made in turn
+ * @param events Events with parents set by withDelegationParents
+ */
+export function getDelegations(events: NormalizedEvent[]): Delegation[] {
+  const parents = new Map<string, string | undefined>();
+  for (const event of events) {
+    if (event.id !== undefined) parents.set(String(event.id), event.parent === undefined ? undefined : String(event.parent));
+  }
+  // The events of a nested call start below the delegate action, so parents outside the list count as roots
+  const isRoot = (event: NormalizedEvent) => event.parent === undefined || !parents.has(String(event.parent));
+  const descendsFrom = (event: NormalizedEvent, id: string): boolean => {
+    let parent = event.parent === undefined ? undefined : String(event.parent);
+    const seen = new Set<string>();
+    while (parent !== undefined && !seen.has(parent)) {
+      if (parent === id) return true;
+      seen.add(parent);
+      parent = parents.get(parent);
+    }
+    return false;
+  };
+
+  return events.filter(event => isRoot(event) && isDelegateAction(event)).map(action => {
+    const id = String(action.id);
+    const subEvents = events.filter(event => descendsFrom(event, id));
+    // The first result after the action that answers it; an unlinked one answers the latest delegation
+    const result = events.slice(events.indexOf(action) + 1).find(event => isRoot(event) && isDelegateResult(event) && answers(event, action, true));
+    const inputs = action.raw.args?.inputs ?? {};
+    return {
+      key: action.key,
+      action,
+      result,
+      agent: action.raw.args?.agent ?? 'Sub-agent',
+      task: typeof inputs.task === 'string' ? inputs.task : undefined,
+      events: subEvents,
+      stepCount: subEvents.filter(event => String(event.parent) === id && (event.kind === 'action' || event.kind === 'finish')).length,
+      cost: getCost(action, subEvents),
+      outputs: result?.raw?.extras?.outputs,
+      children: getDelegations(subEvents)
+    };
+  });
+}
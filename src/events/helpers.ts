@@ -0,0 +1,36 @@
+import { StepUsage } from '../types/completion';
+import { EventActor } from '../types/event';
+
+/**
+ * Text of message content that is either a string or a list of content parts
+ */
+export function contentText(content: unknown): string | undefined {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map(part => (part?.type === 'text' ? part.text || '' : '')).filter(Boolean).join('\n');
+  }
+  return undefined;
+}
+
+export const toActor = (source: unknown): EventActor => {
+  if (source === 'user') return 'user';
+  if (source === 'environment') return 'environment';
+  return 'agent';
+};
+
+/**
+ * Per-call token usage from an OpenAI-style response usage block
+ */
+export function toStepUsage(usage: unknown, model?: string, cost?: number): StepUsage | undefined {
+  if (!isPlainObject(usage)) return undefined;
+  return {
+    model,
+    prompt_tokens: usage.prompt_tokens ?? 0,
+    completion_tokens: usage.completion_tokens ?? 0,
+    cache_read_tokens: usage.cache_read_tokens ?? usage.prompt_tokens_details?.cached_tokens ?? usage.cache_read_input_tokens ?? 0,
+    cost
+  };
+}
+
+export const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -0,0 +1,70 @@
+import { EventDialect, NormalizedEvent } from '../types/event';
+import { adaptOpenHandsItem, isOpenHandsItem } from './openhands';
+import { adaptAgentSdkItem, isAgentSdkItem } from './agentSdk';
+import { adaptSampleItem, isSampleItem } from './sampleEntries';
+import { isPlainObject, toActor } from './helpers';
+import { withDelegationParents } from './delegation';
+
+type Adapted = Omit<NormalizedEvent, 'key'>;
+
+interface DialectAdapter {
+  dialect: EventDialect;
+  // Converts the item, or returns undefined when it is not in this dialect
+  adapt: (item: unknown) => Adapted | undefined;
+}
+
+const forDialect = <T>(
+  dialect: EventDialect,
+  matches: (item: unknown) => item is T,
+  adapt: (item: T) => Adapted
+): DialectAdapter => ({
+  dialect,
+  adapt: item => (matches(item) ? adapt(item) : undefined)
+});
+
+// Checked in order. Every trajectory format emits items in one of these dialects:
+// history, JSON array and raw exports and SWE-agent files use legacy OpenHands items,
+// conversation directories and completion logs use agent SDK events, and entries
+// timelines use sample entries.
+const DIALECTS: DialectAdapter[] = [
+  forDialect('openhands', isOpenHandsItem, adaptOpenHandsItem),
+  forDialect('agent-sdk', isAgentSdkItem, adaptAgentSdkItem),
+  forDialect('sample', isSampleItem, adaptSampleItem)
+];
+
+/**
+ * Converts one trajectory item, of any dialect, to the normalized event model
+ * @param item The item as produced by a trajectory format
+ * @param index Position of the item in its trajectory
+ */
+export function normalizeEvent(item: unknown, index: number): NormalizedEvent {
+  const key = String(index);
+  for (const { adapt } of DIALECTS) {
+    const adapted = adapt(item);
+    if (adapted) return { key, ...adapted };
+  }
+  return {
+    key,
+    id: isPlainObject(item) ? item.id : undefined,
+    kind: 'unknown',
+    actor: toActor(isPlainObject(item) ? item.source : undefined),
+    timestamp: isPlainObject(item) ? item.timestamp : undefined,
+    dialect: 'unknown',
+    raw: item
+  };
+}
+
+/**
+ * Converts a whole trajectory, linking the events of sub-agents to the delegate
+ * action that spawned them. Anything but an array has no events.
+ */
+export function normalizeEvents(items: unknown): NormalizedEvent[] {
+  if (!Array.isArray(items)) return [];
+  return withDelegationParents(items.map(normalizeEvent));
+}
+
+/**
+ * The events a timeline shows: everything but bookkeeping such as null observations
+ */
+export const getVisibleEvents = (events: NormalizedEvent[]): NormalizedEvent[] =>
+  events.filter(event => !event.hidden);
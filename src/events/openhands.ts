@@ -0,0 +1,93 @@
+import { EventKind, NormalizedEvent, OpenHandsItem } from '../types/event';
+import { contentText, isPlainObject, toActor, toStepUsage } from './helpers';
+
+type Adapted = Omit<NormalizedEvent, 'key'>;
+
+/**
+ * Legacy OpenHands history items: { action, args } or { observation, content, extras }
+ */
+export const isOpenHandsItem = (item: unknown): item is OpenHandsItem =>
+  isPlainObject(item) && (typeof item.action === 'string' || typeof item.observation === 'string');
+
+const actionKind = (action: string): EventKind => {
+  switch (action) {
+    case 'message':
+      return 'message';
+    case 'think':
+      return 'thought';
+    case 'finish':
+      return 'finish';
+    case 'change_agent_state':
+    case 'initialize':
+      return 'state';
+    case 'system':
+    // Asks the condenser to run; the condensation that follows says what was dropped
+    case 'condensation_request':
+      return 'system';
+    case 'recall':
+      return 'context';
+    case 'condensation':
+      return 'condensation';
+    default:
+      return 'action';
+  }
+};
+
+const observationKind = (observation: string): EventKind => {
+  switch (observation) {
+    case 'error':
+      return 'error';
+    case 'agent_state_changed':
+      return 'state';
+    case 'recall':
+      return 'context';
+    // Acknowledges a condensation request
+    case 'condense':
+      return 'system';
+    default:
+      return 'observation';
+  }
+};
+
+export function adaptOpenHandsItem(item: OpenHandsItem): Adapted {
+  const metadata = item.tool_call_metadata;
+  const response = metadata?.model_response;
+  const common = {
+    id: item.id,
+    actor: toActor(item.source),
+    timestamp: item.timestamp,
+    toolCallId: metadata?.tool_call_id,
+    metrics: toStepUsage(response?.usage, response?.model),
+    dialect: 'openhands' as const,
+    raw: item
+  };
+
+  if (typeof item.action === 'string') {
+    const args = item.args ?? {};
+    const kind = actionKind(item.action);
+    return {
+      ...common,
+      kind,
+      // Messages typed by the user may lack a source
+      actor: kind === 'message' && item.source === undefined ? 'user' : common.actor,
+      toolName: kind === 'action' || kind === 'finish' ? metadata?.function_name ?? item.action : undefined,
+      args,
+      text: kind === 'message'
+        ? args.content ?? item.content ?? item.message
+        : kind === 'system' ? args.content
+        : kind === 'condensation' ? args.summary ?? undefined
+        : args.thought ?? args.final_thought,
+      hidden: item.action === 'change_agent_state'
+    };
+  }
+
+  return {
+    ...common,
+    kind: observationKind(item.observation ?? ''),
+    cause: item.cause ?? undefined,
+    toolName: metadata?.function_name ?? item.observation,
+    args: item.extras,
+    output: contentText(item.content) ?? item.message,
+    hidden: item.observation === 'null'
+  };
+}
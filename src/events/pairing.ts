@@ -0,0 +1,77 @@
+import { NormalizedEvent } from '../types/event';
+
+export type TimelineEntry =
+  | { type: 'pair'; key: string; action: NormalizedEvent; observation: NormalizedEvent; latencyMs?: number }
+  | { type: 'single'; key: string; event: NormalizedEvent; orphan?: 'action' | 'observation' };
+
+// Actions that run a tool and so should get a result back
+const expectsObservation = (event: NormalizedEvent): boolean =>
+  event.dialect !== 'sample' && (event.kind === 'action' || (event.kind === 'thought' && event.toolCallId !== undefined));
+
+const isObservation = (event: NormalizedEvent): boolean =>
+  event.kind === 'observation' || event.kind === 'error';
+
+// Observations point back with a tool call id (function calling) or cause (legacy ids)
+const isLinked = (event: NormalizedEvent): boolean =>
+  event.toolCallId !== undefined || event.cause !== undefined;
+
+const getLatency = (action: NormalizedEvent, observation: NormalizedEvent): number | undefined => {
+  const start = Date.parse(action.timestamp ?? '');
+  const end = Date.parse(observation.timestamp ?? '');
+  return isNaN(start) || isNaN(end) ? undefined : end - start;
+};
+
+/**
+ * Groups each action with the observation that answers it, matched by tool call id
+ * or by the observation's cause. A pair takes the action's place in the timeline.
+ * Actions without a result and observations whose action is missing are flagged.
+ */
+export function pairEvents(events: NormalizedEvent[]): TimelineEntry[] {
+  const actionsByCallId = new Map<string, NormalizedEvent>();
+  const actionsById = new Map<string, NormalizedEvent>();
+  for (const event of events) {
+    if (!expectsObservation(event) && event.kind !== 'finish' && event.kind !== 'thought') continue;
+    if (event.toolCallId !== undefined && !actionsByCallId.has(event.toolCallId)) actionsByCallId.set(event.toolCallId, event);
+    if (event.id !== undefined && !actionsById.has(String(event.id))) actionsById.set(String(event.id), event);
+  }
+
+  // First observation for each action
+  const observationFor = new Map<string, NormalizedEvent>();
+  const paired = new Set<string>();
+  for (const event of events) {
+    if (!isObservation(event) || !isLinked(event)) continue;
+    const action = (event.toolCallId !== undefined ? actionsByCallId.get(event.toolCallId) : undefined) ??
+      (event.cause !== undefined ? actionsById.get(String(event.cause)) : undefined);
+    if (action && !observationFor.has(action.key)) {
+      observationFor.set(action.key, event);
+      paired.add(event.key);
+    }
+  }
+
+  const entries: TimelineEntry[] = [];
+  for (const event of events) {
+    if (paired.has(event.key)) continue;
+
+    const observation = observationFor.get(event.key);
+    if (observation) {
+      entries.push({ type: 'pair', key: event.key, action: event, observation, latencyMs: getLatency(event, observation) });
+    } else if (expectsObservation(event)) {
+      entries.push({ type: 'single', key: event.key, event, orphan: 'action' });
+    } else if (event.kind === 'observation' && event.dialect !== 'sample') {
+      entries.push({ type: 'single', key: event.key, event, orphan: 'observation' });
+    } else {
+      entries.push({ type: 'single', key: event.key, event });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Formats a latency as e.g. "850 ms", "4.2 s" or "2m 5s"
+ */
+export function formatLatency(ms: number): string {
+  if (ms < 1000) return `${Math.max(0, Math.round(ms))} ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`;
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
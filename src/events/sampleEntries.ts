@@ -0,0 +1,29 @@
+import { NormalizedEvent } from '../types/event';
+import { SampleEntry } from '../types/share';
+import { isPlainObject } from './helpers';
+
+type Adapted = Omit<NormalizedEvent, 'key'>;
+
+// isSampleEntry's test, for items not yet known to be trajectory items
+export const isSampleItem = (item: unknown): item is SampleEntry =>
+  isPlainObject(item) && 'type' in item && 'actorType' in item && !('action' in item) && !('observation' in item);
+
+const ACTORS = { User: 'user', Assistant: 'agent', System: 'environment' } as const;
+
+/**
+ * sample-trajectory.json entries: { type, actorType, content | command }
+ */
+export function adaptSampleItem(item: SampleEntry): Adapted {
+  const common = {
+    id: item.id,
+    actor: ACTORS[item.actorType] ?? 'agent',
+    timestamp: item.timestamp,
+    dialect: 'sample' as const,
+    raw: item
+  };
+
+  if (item.type === 'command') {
+    return { ...common, kind: 'action', toolName: 'command', args: { command: item.command, path: item.path } };
+  }
+  return { ...common, kind: item.type === 'thought' ? 'thought' : 'message', text: item.content };
+}
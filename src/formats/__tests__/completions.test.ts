@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { adaptInput } from '../registry';
+import { completionsToTrajectory } from '../completions';
+import { ArchiveCollector } from '../../lib/archive';
+import { readJsonlInput } from '../../lib/openFile';
+import { CompletionRecord } from '../../types/completion';
+
+const toolCall = (id: string, name: string, args: object) => ({
+  id,
+  type: 'function',
+  function: { name, arguments: JSON.stringify(args) }
+});
+
+const firstCall: CompletionRecord = {
+  messages: [
+    { role: 'system', content: 'You are a helpful agent.' },
+    { role: 'user', content: [{ type: 'text', text: 'Fix the tests' }] }
+  ],
+  response: {
+    model: 'gpt-4o',
+    choices: [{ message: { role: 'assistant', content: 'Running the tests first.', tool_calls: [toolCall('call_1', 'execute_bash', { command: 'npm test' })] } }],
+    usage: { prompt_tokens: 1200, completion_tokens: 40, prompt_tokens_details: { cached_tokens: 1000 } }
+  },
+  kwargs: { tools: [{ type: 'function', function: { name: 'execute_bash' } }] },
+  timestamp: 1741369500,
+  cost: 0.01
+};
+
+const secondCall: CompletionRecord = {
+  messages: [
+    ...firstCall.messages,
+    { role: 'assistant', content: 'Running the tests first.', tool_calls: [toolCall('call_1', 'execute_bash', { command: 'npm test' })] },
+    { role: 'tool', tool_call_id: 'call_1', content: '1 failing' }
+  ],
+  response: {
+    model: 'gpt-4o',
+    choices: [{ message: { role: 'assistant', content: null, tool_calls: [toolCall('call_2', 'finish', {})] } }],
+    usage: { prompt_tokens: 1300, completion_tokens: 10, cache_read_input_tokens: 1200 }
+  },
+  timestamp: 1741369510
+};
+
+describe('completion log format', () => {
+  it('maps messages, tool calls and tool results to trajectory items', () => {
+    const items = completionsToTrajectory([firstCall, secondCall]);
+
+    expect(items.map(item => item.system_prompt ?? item.llm_message?.role ?? item.tool_name ?? 'thought')).toEqual([
+      'You are a helpful agent.',
+      'user',
+      'thought',
+      'execute_bash',
+      'execute_bash',
+      'finish'
+    ]);
+    expect(items[0].tools).toHaveLength(1);
+    expect(items[3].action).toEqual({ command: 'npm test' });
+    expect(items[4]).toMatchObject({ kind: 'ObservationEvent', tool_call_id: 'call_1', observation: { content: '1 failing' } });
+  });
+
+  it('attaches usage to the first item of each call', () => {
+    const items = completionsToTrajectory([firstCall, secondCall]);
+
+    expect(items[2].usage).toEqual({ model: 'gpt-4o', prompt_tokens: 1200, completion_tokens: 40, cache_read_tokens: 1000, cost: 0.01 });
+    expect(items[3].usage).toBeUndefined();
+    expect(items[5].usage).toMatchObject({ prompt_tokens: 1300, cache_read_tokens: 1200 });
+  });
+
+  it('detects JSONL completion logs ahead of evaluation output', async () => {
+    const text = [secondCall, firstCall].map(record => JSON.stringify(record)).join('\n');
+    const result = adaptInput(await readJsonlInput(new Blob([text])));
+
+    expect(result.detection?.formatId).toBe('llm-completions');
+    expect(result.detection?.candidates.map(candidate => candidate.id)).toContain('evaluation-jsonl');
+    // Records are put back in call order
+    expect(result.content.fileType === 'trajectory' && result.content.trajectoryData[0].system_prompt).toBe('You are a helpful agent.');
+  });
+
+  it('leaves JSONL logs larger than the sample to the JSONL viewer', () => {
+    const sample = JSON.stringify(firstCall);
+    const result = adaptInput({ kind: 'jsonl', data: new Blob([sample]), sample, truncated: true });
+
+    expect(result.detection?.formatId).toBe('evaluation-jsonl');
+    expect(result.detection?.candidates.map(candidate => candidate.id)).not.toContain('llm-completions');
+  });
+
+  it('reads a folder of completion files from an archive', () => {
+    const encoder = new TextEncoder();
+    const collector = new ArchiveCollector();
+    for (const [name, record] of [['a.json', firstCall], ['b.json', secondCall]] as const) {
+      const data = encoder.encode(JSON.stringify(record));
+      collector.addFile(`llm_completions/conv-1/${name}`, data.length, data);
+    }
+
+    const result = adaptInput({ kind: 'archive', archive: collector.finish() });
+    expect(result.detection?.formatId).toBe('llm-completions');
+    expect(result.content.fileType === 'trajectory' && result.content.trajectoryData).toHaveLength(6);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { adaptInput } from '../registry';
+import { ArchiveCollector } from '../../lib/archive';
+
+const collect = (files: Record<string, unknown>) => {
+  const encoder = new TextEncoder();
+  const collector = new ArchiveCollector();
+  for (const [path, value] of Object.entries(files)) {
+    const data = encoder.encode(JSON.stringify(value));
+    collector.addFile(path, data.length, data);
+  }
+  return collector.finish();
+};
+
+describe('conversation directory format', () => {
+  it('orders events by timestamp and puts the base state first', () => {
+    const archive = collect({
+      'conv/base_state.json': { agent: { llm: { model: 'gpt-4o' } } },
+      'conv/events/event-00001-b.json': { id: 'b', kind: 'ActionEvent', source: 'agent', timestamp: '2025-01-01T00:00:02' },
+      'conv/events/event-00000-a.json': { id: 'a', kind: 'SystemPromptEvent', source: 'agent', timestamp: '2025-01-01T00:00:01' },
+      'conv/events/event-00002-c.json': { id: 'c', kind: 'ObservationEvent', source: 'environment', timestamp: '2025-01-01T00:00:02' }
+    });
+
+    const result = adaptInput({ kind: 'archive', archive });
+    expect(result.detection?.formatId).toBe('openhands-conversation');
+    const items = result.content.fileType === 'trajectory' ? result.content.trajectoryData : [];
+    expect(items.map((item: any) => item.id ?? item.key)).toEqual(['full_state', 'a', 'b', 'c']);
+    expect(items[0]).toMatchObject({ source: 'environment', value: { agent: { llm: { model: 'gpt-4o' } } }, timestamp: '2025-01-01T00:00:01' });
+  });
+
+  it('skips unreadable event files', () => {
+    const archive = collect({ 'events/event-00000-a.json': { id: 'a', timestamp: '2025-01-01T00:00:01' } });
+    archive.archive.entries.push({ path: 'events/event-00001-b.json', size: 10, type: 'file', retained: false });
+
+    const result = adaptInput({ kind: 'archive', archive });
+    expect(result.content.fileType === 'trajectory' && result.content.trajectoryData).toHaveLength(1);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { adaptInput, rankFormats, registerFormat } from '../registry';
+
+describe('format registry', () => {
+  it('ranks OpenHands event lists above the generic array format', () => {
+    const data = [{ action: 'run', source: 'agent' }];
+    expect(rankFormats({ kind: 'json', data }).map(candidate => candidate.id)).toEqual([
+      'openhands-events',
+      'json-array',
+      'raw-json'
+    ]);
+  });
+
+  it('unwraps history exports', () => {
+    const result = adaptInput({ kind: 'json', data: { history: [{ id: 1 }] } });
+    expect(result.content).toEqual({ trajectoryData: [{ id: 1 }], fileType: 'trajectory' });
+    expect(result.detection?.formatId).toBe('openhands-history');
+    expect(result.detection?.overridden).toBe(false);
+  });
+
+  it('prefers entries over history when both are present', () => {
+    const data = { entries: [], history: [] };
+    expect(adaptInput({ kind: 'json', data }).detection?.formatId).toBe('entries');
+  });
+
+  it('unwraps entries timelines', () => {
+    const entries = [{ id: 1, type: 'message', content: 'Hi', actorType: 'User' }];
+    expect(adaptInput({ kind: 'json', data: { entries } }).content).toEqual({ trajectoryData: entries, fileType: 'trajectory' });
+  });
+
+  it('passes through content already in the viewer shape', () => {
+    const content = { fileType: 'jsonl', jsonlContent: '{}' };
+    expect(adaptInput({ kind: 'json', data: { content } }).content).toEqual(content);
+  });
+
+  it('applies a user override', () => {
+    const data = { history: [{ id: 1 }] };
+    const result = adaptInput({ kind: 'json', data }, 'json-array');
+    expect(result.content).toEqual({ trajectoryData: data, fileType: 'trajectory' });
+    expect(result.detection?.overridden).toBe(true);
+  });
+
+  it('shows unrecognized objects as details rather than a trajectory', () => {
+    const data = { issue: { title: 'Fix it', number: 1 }, metrics: { cost: 0.5 } };
+    const result = adaptInput({ kind: 'json', data });
+    expect(result.detection?.formatId).toBe('raw-json');
+    expect(result.content).toEqual({ data, fileType: 'json' });
+  });
+
+  it('reports archives without output.jsonl', () => {
+    const archive = { jsonlContent: null, reportContent: null, archive: { entries: [], files: new Map() } };
+    expect(() => adaptInput({ kind: 'archive', archive })).toThrow('No JSONL content found in archive');
+  });
+
+  it('uses registered formats', () => {
+    registerFormat({
+      id: 'test-format',
+      label: 'Test format',
+      detect: (input) => (input.kind === 'json' && input.data?.test === true ? 0.95 : 0),
+      adapt: () => ({ trajectoryData: [], fileType: 'trajectory' })
+    });
+    expect(adaptInput({ kind: 'json', data: { test: true } }).detection?.formatId).toBe('test-format');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { adaptInput } from '../registry';
+
+const traj = {
+  trajectory: [
+    { action: 'ls', observation: 'src\ntests', thought: 'Look around first.', response: 'Look around first.\n```\nls\n```' },
+    { action: 'submit', observation: 'diff --git a/x b/x', thought: 'The fix is done.' }
+  ],
+  history: [
+    { role: 'system', content: 'You are SWE-agent.' },
+    { role: 'user', content: [{ type: 'text', text: 'Fix issue #1' }] }
+  ],
+  info: {
+    submission: 'diff --git a/x b/x',
+    exit_status: 'submitted',
+    model_stats: { instance_cost: 0.5, tokens_sent: 1000, tokens_received: 100, api_calls: 2 }
+  }
+};
+
+describe('SWE-agent format', () => {
+  it('is preferred over the history export it also resembles', () => {
+    expect(adaptInput({ kind: 'json', data: traj }).detection?.formatId).toBe('swe-agent');
+  });
+
+  it('maps steps to shell actions and the submission to a finish action', () => {
+    const content = adaptInput({ kind: 'json', data: traj }).content;
+    const items = content.fileType === 'trajectory' ? content.trajectoryData : [];
+
+    expect(items.map((item: any) => item.action ?? item.observation)).toEqual(['message', 'run', 'run', 'finish']);
+    expect(items[0].args.content).toBe('Fix issue #1');
+    expect(items[1].args).toMatchObject({ command: 'ls', thought: 'Look around first.' });
+    expect(items[2]).toMatchObject({ cause: 1, content: 'src\ntests' });
+    expect(items[3].args).toEqual({
+      outputs: { git_patch: 'diff --git a/x b/x', model_stats: traj.info.model_stats },
+      thought: 'The fix is done.',
+      task_completed: 'true',
+      exit_status: 'submitted'
+    });
+  });
+
+  it('does not count an auto-submission at a limit as completed', () => {
+    const data = { ...traj, info: { ...traj.info, exit_status: 'submitted (exit_cost)' } };
+    const content = adaptInput({ kind: 'json', data }).content;
+    const items = content.fileType === 'trajectory' ? content.trajectoryData : [];
+
+    expect(items[items.length - 1].args).toMatchObject({ task_completed: 'false', exit_status: 'submitted (exit_cost)' });
+  });
+});
@@ -0,0 +1,120 @@
+import { FormatInput, TrajectoryFormat } from '../types/format';
+import { completionLogFormat } from './completions';
+import { sweAgentFormat } from './sweAgent';
+import { conversationFormat } from './conversation';
+
+const UPLOAD_FILE_TYPES = ['jsonl', 'trajectory', 'full_archive'];
+
+const jsonData = (input: FormatInput): any => (input.kind === 'json' ? input.data : undefined);
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asTrajectory = (data: any) => ({ trajectoryData: data, fileType: 'trajectory' as const });
+
+// Content that is already in the viewer's own shape, e.g. the `data` URL parameter
+const uploadContentFormat: TrajectoryFormat = {
+  id: 'upload-content',
+  label: 'Trajectory visualizer content',
+  detect: (input) => {
+    const data = jsonData(input);
+    return isPlainObject(data) && isPlainObject(data.content) && UPLOAD_FILE_TYPES.includes(data.content.fileType) ? 1 : 0;
+  },
+  adapt: (input) => jsonData(input).content
+};
+
+const openHandsEventsFormat: TrajectoryFormat = {
+  id: 'openhands-events',
+  label: 'OpenHands event list',
+  detect: (input) => {
+    const data = jsonData(input);
+    if (!Array.isArray(data) || data.length === 0 || !isPlainObject(data[0])) return 0;
+    const first = data[0];
+    return ('action' in first || 'observation' in first) && 'source' in first ? 0.9 : 0;
+  },
+  adapt: (input) => asTrajectory(jsonData(input))
+};
+
+// trajectory-visualizer and OpenHands exports that wrap events in a history array
+const historyFormat: TrajectoryFormat = {
+  id: 'openhands-history',
+  label: 'OpenHands history export',
+  detect: (input) => {
+    const data = jsonData(input);
+    return isPlainObject(data) && Array.isArray(data.history) ? 0.8 : 0;
+  },
+  adapt: (input) => asTrajectory(jsonData(input).history)
+};
+
+// sample-trajectory.json style timelines
+const entriesFormat: TrajectoryFormat = {
+  id: 'entries',
+  label: 'Entries timeline',
+  detect: (input) => {
+    const data = jsonData(input);
+    // Files with both arrays were always shown as entries
+    return isPlainObject(data) && Array.isArray(data.entries) ? 0.85 : 0;
+  },
+  adapt: (input) => asTrajectory(jsonData(input).entries)
+};
+
+const jsonArrayFormat: TrajectoryFormat = {
+  id: 'json-array',
+  label: 'Generic event array',
+  detect: (input) => (Array.isArray(jsonData(input)) ? 0.2 : 0),
+  adapt: (input) => asTrajectory(jsonData(input))
+};
+
+// Last resort: hand unrecognised arrays to the trajectory viewer as-is, and show anything else as details
+const rawJsonFormat: TrajectoryFormat = {
+  id: 'raw-json',
+  label: 'Unrecognized JSON',
+  detect: (input) => (input.kind === 'json' ? 0.01 : 0),
+  adapt: (input) => {
+    const data = jsonData(input);
+    return Array.isArray(data) ? asTrajectory(data) : { data, fileType: 'json' };
+  }
+};
+
+const evaluationJsonlFormat: TrajectoryFormat = {
+  id: 'evaluation-jsonl',
+  label: 'Evaluation output (JSONL)',
+  detect: (input) => (input.kind === 'jsonl' ? 1 : 0),
+  adapt: (input) => {
+    if (input.kind !== 'jsonl') throw new Error('Evaluation output must be JSONL');
+    return { jsonlContent: input.data, fileType: 'jsonl' };
+  }
+};
+
+const evaluationArchiveFormat: TrajectoryFormat = {
+  id: 'evaluation-archive',
+  label: 'Evaluation archive',
+  detect: (input) => {
+    if (input.kind !== 'archive') return 0;
+    // Still offered without output.jsonl so the error explains what is missing
+    return input.archive.jsonlContent ? 1 : 0.05;
+  },
+  adapt: (input) => {
+    if (input.kind !== 'archive') throw new Error('Evaluation archive input must be an archive');
+    const { jsonlContent, reportContent, archive } = input.archive;
+    if (!jsonlContent) {
+      throw new Error('No JSONL content found in archive');
+    }
+    return { fileType: 'full_archive', jsonlContent: new Blob([jsonlContent]), reportContent, archive };
+  }
+};
+
+// Ties are resolved in this order
+export const BUILTIN_FORMATS: TrajectoryFormat[] = [
+  uploadContentFormat,
+  openHandsEventsFormat,
+  sweAgentFormat,
+  entriesFormat,
+  historyFormat,
+  jsonArrayFormat,
+  rawJsonFormat,
+  completionLogFormat,
+  evaluationJsonlFormat,
+  conversationFormat,
+  evaluationArchiveFormat
+];
@@ -0,0 +1,235 @@
+import { CompletionMessage, CompletionRecord, CompletionResponse, StepUsage } from '../types/completion';
+import { ExtractedArchive } from '../types/archive';
+import { FormatInput, TrajectoryFormat } from '../types/format';
+import { toStepUsage } from '../events/helpers';
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isCompletionRecord = (value: unknown): value is CompletionRecord =>
+  isPlainObject(value) && Array.isArray(value.messages) && isPlainObject(value.response);
+
+const toTimestamp = (value: unknown): string | undefined => {
+  if (typeof value === 'number') return new Date(value * 1000).toISOString();
+  return typeof value === 'string' ? value : undefined;
+};
+
+// Flattens string or multi-part message content to display text
+const messageText = (content: unknown): string => {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map(part => {
+      if (part?.type === 'text') return part.text || '';
+      if (part?.type === 'image_url') return '[Image]';
+      return '';
+    }).filter(Boolean).join('\n');
+  }
+  return content === undefined || content === null ? '' : JSON.stringify(content);
+};
+
+const parseArguments = (args: unknown): unknown => {
+  if (typeof args !== 'string') return args ?? {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return args;
+  }
+};
+
+const getStepUsage = (record: CompletionRecord, response: CompletionResponse): StepUsage | undefined =>
+  toStepUsage(response.usage, response.model, record.cost);
+
+/**
+ * Rebuilds a trajectory from the completion records of one conversation.
+ * Every request repeats the conversation so far, so after the first record only
+ * the messages following the last assistant turn (tool results, new user input)
+ * are new. Items use the agent-SDK event shape the trajectory cards render.
+ * @param records Completion records in call order
+ */
+export function completionsToTrajectory(records: CompletionRecord[]): any[] {
+  const items: any[] = [];
+  const toolNames = new Map<string, string>();
+  const add = (item: Record<string, unknown>) => items.push({ id: items.length, ...item });
+
+  const addAssistant = (message: CompletionMessage | undefined, timestamp?: string, usage?: StepUsage) => {
+    const text = messageText(message?.content);
+    const toolCalls = message?.tool_calls ?? [];
+    let reasoning = message?.reasoning_content;
+
+    // Usage and reasoning belong to the whole call, so they go on its first item only
+    if (text || toolCalls.length === 0) {
+      add({ source: 'agent', thought: text ? [{ type: 'text', text }] : [], reasoning_content: reasoning, usage, timestamp });
+      reasoning = undefined;
+      usage = undefined;
+    }
+    for (const call of toolCalls) {
+      toolNames.set(call.id, call.function?.name);
+      add({
+        source: 'agent',
+        tool_name: call.function?.name,
+        tool_call_id: call.id,
+        action: parseArguments(call.function?.arguments),
+        reasoning_content: reasoning,
+        usage,
+        timestamp
+      });
+      reasoning = undefined;
+      usage = undefined;
+    }
+  };
+
+  records.forEach((record, index) => {
+    const messages = record.fncall_messages ?? record.messages;
+    const response = record.fncall_response ?? record.response;
+    const timestamp = toTimestamp(record.timestamp);
+
+    let lastAssistant = -1;
+    if (index > 0) {
+      for (let i = messages.length - 1; i >= 0; i--) {
+        if (messages[i].role === 'assistant') {
+          lastAssistant = i;
+          break;
+        }
+      }
+    }
+
+    for (const message of messages.slice(lastAssistant + 1)) {
+      switch (message.role) {
+        case 'system':
+          // Condensed histories restart from the system prompt; show it once
+          if (index === 0) add({ source: 'agent', system_prompt: messageText(message.content), tools: record.kwargs?.tools, timestamp });
+          break;
+        case 'user':
+          add({ source: 'user', llm_message: { role: 'user', content: message.content }, timestamp });
+          break;
+        case 'tool':
+          add({
+            source: 'environment',
+            kind: 'ObservationEvent',
+            tool_name: message.name ?? toolNames.get(message.tool_call_id ?? ''),
+            tool_call_id: message.tool_call_id,
+            // Multi-part results keep their parts so images can be shown
+            observation: { content: Array.isArray(message.content) ? message.content : messageText(message.content) },
+            timestamp
+          });
+          break;
+        case 'assistant':
+          addAssistant(message, timestamp);
+          break;
+      }
+    }
+
+    addAssistant(response.choices?.[0]?.message, timestamp, getStepUsage(record, response));
+  });
+
+  return items;
+}
+
+// Sorts by the logged call time; records without one keep their position
+const sortRecords = (records: CompletionRecord[]): CompletionRecord[] =>
+  records
+    .map((record, index) => ({ record, index, time: Number(record.timestamp) }))
+    .sort((a, b) => (isNaN(a.time) || isNaN(b.time) ? a.index - b.index : a.time - b.time || a.index - b.index))
+    .map(({ record }) => record);
+
+const parseJsonlRecords = (text: string): CompletionRecord[] => {
+  const records: CompletionRecord[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const value = JSON.parse(line);
+      if (isCompletionRecord(value)) records.push(value);
+    } catch {
+      // Skip malformed lines
+    }
+  }
+  return records;
+};
+
+// Only the first line is checked, so detection stays cheap on large evaluation outputs
+const startsWithCompletionRecord = (text: string): boolean => {
+  let start = 0;
+  while (start < text.length) {
+    const end = text.indexOf('\n', start);
+    const line = text.slice(start, end === -1 ? text.length : end).trim();
+    if (line) {
+      try {
+        return isCompletionRecord(JSON.parse(line));
+      } catch {
+        return false;
+      }
+    }
+    if (end === -1) break;
+    start = end + 1;
+  }
+  return false;
+};
+
+// OpenHands writes one file per call under llm_completions/<conversation>/
+const findCompletionFiles = (archive: ExtractedArchive): string[] => {
+  const paths = archive.archive.entries
+    .filter(entry => entry.retained && /(^|\/)[^/]*completions\//i.test(entry.path) && entry.path.toLowerCase().endsWith('.json'))
+    .map(entry => entry.path)
+    .sort();
+  if (paths.length === 0) return [];
+  // Keep to a single conversation: the folder of the first file
+  const folder = paths[0].slice(0, paths[0].lastIndexOf('/') + 1);
+  return paths.filter(path => path.slice(0, path.lastIndexOf('/') + 1) === folder);
+};
+
+const parseArchiveRecord = (archive: ExtractedArchive, path: string): CompletionRecord | null => {
+  const data = archive.archive.files.get(path);
+  if (!data) return null;
+  try {
+    const value = JSON.parse(new TextDecoder('utf8').decode(data));
+    return isCompletionRecord(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+const readRecords = (input: FormatInput): CompletionRecord[] => {
+  switch (input.kind) {
+    case 'json':
+      if (Array.isArray(input.data)) return input.data.filter(isCompletionRecord);
+      return isCompletionRecord(input.data) ? [input.data] : [];
+    case 'jsonl':
+      if (input.truncated) {
+        throw new Error('The completion log is too large to convert; open it as evaluation output instead');
+      }
+      return parseJsonlRecords(input.sample);
+    case 'archive':
+      return findCompletionFiles(input.archive)
+        .map(path => parseArchiveRecord(input.archive, path))
+        .filter((record): record is CompletionRecord => record !== null);
+  }
+};
+
+export const completionLogFormat: TrajectoryFormat = {
+  id: 'llm-completions',
+  label: 'LLM completion logs',
+  detect: (input) => {
+    switch (input.kind) {
+      case 'json': {
+        const first = Array.isArray(input.data) ? input.data[0] : input.data;
+        return isCompletionRecord(first) ? 0.95 : 0;
+      }
+      case 'jsonl':
+        // Only the sample is decoded, so larger logs stay in the JSONL viewer
+        return !input.truncated && startsWithCompletionRecord(input.sample) ? 1 : 0;
+      case 'archive': {
+        const [first] = findCompletionFiles(input.archive);
+        if (!first || !parseArchiveRecord(input.archive, first)) return 0;
+        // Evaluation archives often include completion logs; their output.jsonl stays the default
+        return input.archive.jsonlContent ? 0.3 : 0.95;
+      }
+    }
+  },
+  adapt: (input) => {
+    const records = readRecords(input);
+    if (records.length === 0) {
+      throw new Error('No LLM completion records found');
+    }
+    return { trajectoryData: completionsToTrajectory(sortRecords(records)), fileType: 'trajectory' };
+  }
+};
@@ -0,0 +1,71 @@
+import { ExtractedArchive } from '../types/archive';
+import { TrajectoryFormat } from '../types/format';
+import { isConversationEvent } from '../lib/archive';
+
+const parseMember = (archive: ExtractedArchive, path: string): any => {
+  const data = archive.archive.files.get(path);
+  if (!data) return undefined;
+  try {
+    return JSON.parse(new TextDecoder('utf8').decode(data));
+  } catch {
+    return undefined;
+  }
+};
+
+// The event files of one conversation: the events/ folder that sorts first
+const findEventFiles = (archive: ExtractedArchive): string[] => {
+  const paths = archive.archive.entries
+    .filter(entry => entry.type === 'file' && isConversationEvent(entry.path))
+    .map(entry => entry.path)
+    .sort();
+  if (paths.length === 0) return [];
+  const folder = paths[0].slice(0, paths[0].lastIndexOf('/') + 1);
+  return paths.filter(path => path.slice(0, path.lastIndexOf('/') + 1) === folder);
+};
+
+const compareEvents = (a: { event: any; path: string }, b: { event: any; path: string }): number => {
+  const timeA = Date.parse(a.event.timestamp);
+  const timeB = Date.parse(b.event.timestamp);
+  if (!isNaN(timeA) && !isNaN(timeB) && timeA !== timeB) return timeA - timeB;
+  if (typeof a.event.id === 'number' && typeof b.event.id === 'number' && a.event.id !== b.event.id) {
+    return a.event.id - b.event.id;
+  }
+  // V1 event files are named event-<index>-<id>.json, so the path keeps write order
+  return a.path.localeCompare(b.path);
+};
+
+/**
+ * Rebuilds a V1 conversation from its persisted directory: the events in order,
+ * preceded by base_state.json as the agent context
+ */
+export function conversationToTrajectory(archive: ExtractedArchive): any[] {
+  const eventPaths = findEventFiles(archive);
+  const events = eventPaths
+    .map(path => ({ path, event: parseMember(archive, path) }))
+    .filter(({ event }) => event !== null && typeof event === 'object')
+    .sort(compareEvents)
+    .map(({ event }) => event);
+
+  // base_state.json sits next to the events/ folder
+  const root = eventPaths.length > 0 ? eventPaths[0].replace(/events\/[^/]+$/i, '') : '';
+  const baseState = parseMember(archive, `${root}base_state.json`);
+  if (baseState && typeof baseState === 'object') {
+    // Shaped like the full_state environment event the agent context card expects
+    events.unshift({ source: 'environment', key: 'full_state', value: baseState, timestamp: events[0]?.timestamp });
+  }
+  return events;
+}
+
+export const conversationFormat: TrajectoryFormat = {
+  id: 'openhands-conversation',
+  label: 'OpenHands conversation directory',
+  detect: (input) => (input.kind === 'archive' && findEventFiles(input.archive).length > 0 ? 0.95 : 0),
+  adapt: (input) => {
+    if (input.kind !== 'archive') throw new Error('Conversation input must be a directory or archive');
+    const trajectoryData = conversationToTrajectory(input.archive);
+    if (trajectoryData.length === 0) {
+      throw new Error('No readable events found in the conversation directory');
+    }
+    return { trajectoryData, fileType: 'trajectory' };
+  }
+};
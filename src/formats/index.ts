@@ -0,0 +1,2 @@
+export { registerFormat, getFormat, rankFormats, adaptInput } from './registry';
+export { BUILTIN_FORMATS } from './builtin';
@@ -0,0 +1,60 @@
+import { FormatCandidate, FormatInput, TrajectoryFormat } from '../types/format';
+import { UploadContent } from '../types/upload';
+import { BUILTIN_FORMATS } from './builtin';
+
+const formats: TrajectoryFormat[] = [...BUILTIN_FORMATS];
+
+/**
+ * Adds a format to detection, replacing any registered format with the same id
+ */
+export function registerFormat(format: TrajectoryFormat): void {
+  const index = formats.findIndex(existing => existing.id === format.id);
+  if (index === -1) {
+    formats.push(format);
+  } else {
+    formats[index] = format;
+  }
+}
+
+export function getFormat(id: string): TrajectoryFormat | undefined {
+  return formats.find(format => format.id === id);
+}
+
+/**
+ * Scores the input against every registered format
+ * @returns The matching formats, most confident first
+ */
+export function rankFormats(input: FormatInput): FormatCandidate[] {
+  return formats
+    .map(format => ({ id: format.id, label: format.label, confidence: format.detect(input) }))
+    .filter(candidate => candidate.confidence > 0)
+    // Array.prototype.sort is stable, so ties keep registration order
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Detects the format of the input and converts it for the viewers
+ * @param input The parsed file contents
+ * @param formatId Forces a format instead of the best match (user override)
+ * @throws If no format matches, or the forced format is unknown
+ */
+export function adaptInput(input: FormatInput, formatId?: string): UploadContent {
+  const candidates = rankFormats(input);
+  const chosenId = formatId ?? candidates[0]?.id;
+  const format = chosenId ? getFormat(chosenId) : undefined;
+  if (!format) {
+    throw new Error(formatId ? `Unknown format: ${formatId}` : 'Unrecognized file format');
+  }
+
+  const candidate = candidates.find(c => c.id === format.id);
+  return {
+    content: format.adapt(input),
+    detection: {
+      formatId: format.id,
+      confidence: candidate?.confidence ?? 0,
+      candidates,
+      input,
+      overridden: formatId !== undefined
+    }
+  };
+}
@@ -0,0 +1,103 @@
+import { TrajectoryFormat } from '../types/format';
+
+// One step of a SWE-agent .traj file
+interface SweAgentStep {
+  action?: string;
+  observation?: string;
+  thought?: string;
+  // Raw model output the thought and action were parsed from
+  response?: string;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSweAgentTrajectory = (data: unknown): data is Record<string, any> =>
+  isPlainObject(data) && Array.isArray(data.trajectory) &&
+  (isPlainObject(data.info) || typeof data.trajectory[0]?.action === 'string');
+
+const historyText = (content: unknown): string => {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map(part => (part?.type === 'text' ? part.text || '' : '')).filter(Boolean).join('\n');
+  }
+  return '';
+};
+
+/**
+ * Converts a SWE-agent trajectory to OpenHands events: the task as a user message,
+ * each step as a shell action and its output, and the submission as the finish action.
+ */
+export function sweAgentToTrajectory(data: Record<string, any>): any[] {
+  const items: any[] = [];
+  const add = (item: Record<string, unknown>) => {
+    const id = items.length;
+    items.push({ id, ...item });
+    return id;
+  };
+
+  // The first user turn in the history holds the problem statement
+  const task = Array.isArray(data.history) ? data.history.find((entry: any) => entry?.role === 'user') : undefined;
+  if (task) {
+    add({ action: 'message', source: 'user', args: { content: historyText(task.content) } });
+  }
+
+  let submitThought: string | undefined;
+  for (const step of data.trajectory as SweAgentStep[]) {
+    const command = (step.action ?? '').trim();
+    const thought = step.thought || step.response || '';
+    if (command === 'submit') {
+      // Shown on the finish action, together with the submitted patch
+      submitThought = thought;
+      continue;
+    }
+    if (!command) continue;
+
+    const actionId = add({
+      action: 'run',
+      source: 'agent',
+      message: `Running command: ${command}`,
+      args: { command, is_confirmed: 'confirmed', thought }
+    });
+    if (step.observation !== undefined) {
+      add({
+        cause: actionId,
+        observation: 'run',
+        source: 'agent',
+        message: `Command \`${command}\` executed`,
+        content: step.observation,
+        extras: { command, metadata: {} }
+      });
+    }
+  }
+
+  const info = isPlainObject(data.info) ? data.info : {};
+  if (info.submission !== undefined || info.exit_status !== undefined || submitThought !== undefined) {
+    const outputs: Record<string, unknown> = {};
+    if (info.submission) outputs.git_patch = info.submission;
+    if (info.model_stats) outputs.model_stats = info.model_stats;
+    // Only a plain submit counts as done; statuses like "submitted (exit_cost)" were auto-submitted at a limit
+    const taskCompleted = info.exit_status === undefined ? undefined : String(info.exit_status === 'submitted');
+    add({
+      action: 'finish',
+      source: 'agent',
+      message: 'Submitted',
+      args: { outputs, thought: submitThought, task_completed: taskCompleted, exit_status: info.exit_status }
+    });
+  }
+
+  return items;
+}
+
+export const sweAgentFormat: TrajectoryFormat = {
+  id: 'swe-agent',
+  label: 'SWE-agent trajectory',
+  // .traj files also carry a history array, so this must outrank the history export
+  detect: (input) => (input.kind === 'json' && isSweAgentTrajectory(input.data) ? 0.95 : 0),
+  adapt: (input) => {
+    if (input.kind !== 'json' || !isSweAgentTrajectory(input.data)) {
+      throw new Error('SWE-agent trajectories must be a JSON object with a trajectory array');
+    }
+    return { trajectoryData: sweAgentToTrajectory(input.data), fileType: 'trajectory' };
+  }
+};
@@ -3,15 +3,23 @@ import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
 import reportWebVitals from './reportWebVitals';
+import { loadAppConfig, setAppConfig } from './config/app-config';
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+// Runtime settings must be in place before anything reads them
+loadAppConfig().then(({ config, errors }) => {
+  setAppConfig(config);
+  if (errors.length > 0) {
+    console.warn('Problems in config.json:', errors);
+  }
+  root.render(
+    <React.StrictMode>
+      <App configErrors={errors} />
+    </React.StrictMode>
+  );
+});
 
 // If you want to start measuring performance in your app, pass a function
 // to log results (for example: reportWebVitals(console.log))
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { ArchiveCollector, findInstanceArtifacts } from '../archive';
+import { LoadedArchive } from '../../types/archive';
+
+const makeArchive = (paths: string[]): LoadedArchive => ({
+  entries: paths.map(path => ({ path, size: 1, type: 'file' as const, retained: true })),
+  files: new Map(paths.map(path => [path, new Uint8Array([0x61])]))
+});
+
+describe('findInstanceArtifacts', () => {
+  const archive = makeArchive([
+    'run/output.jsonl',
+    'run/eval_outputs/repo__repo-1/run_instance.log',
+    'run/eval_outputs/repo__repo-1/patch.diff',
+    'run/eval_outputs/repo__repo-1/report.json',
+    'run/eval_outputs/repo__repo-1/test_output.txt',
+    'run/eval_outputs/repo__repo-10/report.json'
+  ]);
+
+  it('matches the instance folder exactly and orders well-known files first', () => {
+    expect(findInstanceArtifacts(archive, 'repo__repo-1').map(entry => entry.path)).toEqual([
+      'run/eval_outputs/repo__repo-1/report.json',
+      'run/eval_outputs/repo__repo-1/test_output.txt',
+      'run/eval_outputs/repo__repo-1/patch.diff',
+      'run/eval_outputs/repo__repo-1/run_instance.log'
+    ]);
+  });
+
+  it('returns nothing for unknown or missing instance ids', () => {
+    expect(findInstanceArtifacts(archive, 'repo__repo-2')).toEqual([]);
+    expect(findInstanceArtifacts(archive, undefined)).toEqual([]);
+  });
+});
+
+describe('ArchiveCollector', () => {
+  const MB = 1024 * 1024;
+  const data = new Uint8Array([0x7b, 0x7d]);
+
+  it('keeps conversation events once the retention budget is spent', () => {
+    const collector = new ArchiveCollector();
+    // Sizes are taken as given, so the budget can be spent without allocating it
+    for (let i = 0; i < 4; i++) collector.addFile(`conv/logs/run-${i}.log`, 50 * MB, data);
+
+    expect(collector.wantsContent('conv/notes.txt', 10)).toBe(false);
+    expect(collector.wantsContent('conv/events/event-00000-a.json', 10)).toBe(true);
+    collector.addFile('conv/notes.txt', 10, data);
+    collector.addFile('conv/events/event-00000-a.json', 10, data);
+    collector.addFile('conv/base_state.json', 10, data);
+
+    const { archive } = collector.finish();
+    expect(archive.entries.filter(entry => entry.retained).map(entry => entry.path)).toEqual([
+      'conv/logs/run-0.log', 'conv/logs/run-1.log', 'conv/logs/run-2.log', 'conv/logs/run-3.log',
+      'conv/events/event-00000-a.json', 'conv/base_state.json'
+    ]);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { checkTarget } from '../../../scripts/cors-proxy.mjs';
+
+describe('cors proxy allowlist', () => {
+  const prefixes = ['https://host.example.com', 'https://static.example.com/runs/'];
+
+  it('forwards URLs on an allowed origin and path', () => {
+    expect(checkTarget('https://host.example.com/output.jsonl', prefixes)).toBeNull();
+    expect(checkTarget('https://static.example.com/runs/42/output.jsonl', prefixes)).toBeNull();
+  });
+
+  it('refuses look-alike hosts and other paths', () => {
+    expect(checkTarget('https://host.example.com.evil.net/output.jsonl', prefixes)).toBe('URL is not in proxy.allowedPrefixes');
+    expect(checkTarget('https://host.example.com@evil.net/output.jsonl', prefixes)).toBe('URL is not in proxy.allowedPrefixes');
+    expect(checkTarget('https://static.example.com/private/output.jsonl', prefixes)).toBe('URL is not in proxy.allowedPrefixes');
+    expect(checkTarget('ftp://host.example.com/output.jsonl', prefixes)).toBe('only http and https URLs are proxied');
+  });
+
+  it('matches a prefix path only at a path segment boundary', () => {
+    const foo = ['https://static.example.com/foo'];
+    expect(checkTarget('https://static.example.com/foo', foo)).toBeNull();
+    expect(checkTarget('https://static.example.com/foo/output.jsonl', foo)).toBeNull();
+    expect(checkTarget('https://static.example.com/foobar/output.jsonl', foo)).toBe('URL is not in proxy.allowedPrefixes');
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import pako from 'pako';
+import JSZip from 'jszip';
+import { loadFileData } from '../fileLoader';
+import { sniffFormat } from '../formatSniffer';
+import { createTar } from './tarFixtures';
+
+const encoder = new TextEncoder();
+
+describe('sniffFormat', () => {
+  it('detects formats by magic bytes regardless of file name', () => {
+    expect(sniffFormat(pako.gzip('x'), 'data.json')).toBe('gzip');
+    expect(sniffFormat(createTar([{ name: 'a.txt', content: 'a' }]), 'data.bin')).toBe('tar');
+    expect(sniffFormat(encoder.encode('{"a":1}'), 'data.tar.gz')).toBe('text');
+  });
+});
+
+describe('loadFileData', () => {
+  it('decompresses gzipped JSONL as text', async () => {
+    const loaded = await loadFileData(pako.gzip('{"instance_id":"a"}\n'), 'output.jsonl.gz');
+    expect(loaded).toEqual({ kind: 'text', compressed: true, text: '{"instance_id":"a"}\n' });
+  });
+
+  it('extracts plain and gzipped tarballs', async () => {
+    const tar = createTar([{ name: 'run/output.jsonl', content: '{"instance_id":"a"}' }]);
+
+    const plain = await loadFileData(tar, 'results.tar');
+    const gzipped = await loadFileData(pako.gzip(tar), 'results.tar.gz');
+    for (const loaded of [plain, gzipped]) {
+      expect(loaded.kind === 'archive' && loaded.result.jsonlContent).toBe('{"instance_id":"a"}');
+    }
+    expect(gzipped.compressed).toBe(true);
+  });
+
+  it('extracts zip archives', async () => {
+    const zip = new JSZip();
+    zip.file('run/output.jsonl', '{"instance_id":"a"}');
+    zip.file('run/output.report.json', '{"resolved_ids":["a"]}');
+    const data = await zip.generateAsync({ type: 'uint8array' });
+
+    const loaded = await loadFileData(data, 'results.zip');
+    expect(loaded.kind).toBe('archive');
+    if (loaded.kind !== 'archive') return;
+    expect(loaded.format).toBe('zip');
+    expect(loaded.result.jsonlContent).toBe('{"instance_id":"a"}');
+    expect(loaded.result.reportContent).toEqual({ resolved_ids: ['a'] });
+    expect(loaded.result.archive.entries.map(entry => entry.path)).toContain('run/output.report.json');
+  });
+
+  it('lists the size of zip members it does not read', async () => {
+    const zip = new JSZip();
+    zip.file('run/output.jsonl', '{"instance_id":"a"}');
+    zip.file('run/model.bin', new Uint8Array(3000), { compression: 'DEFLATE' });
+    const data = await zip.generateAsync({ type: 'uint8array', comment: 'results' });
+
+    const loaded = await loadFileData(data, 'results.zip');
+    const entry = loaded.kind === 'archive' ? loaded.result.archive.entries.find(candidate => candidate.path === 'run/model.bin') : undefined;
+    expect(entry).toMatchObject({ size: 3000, retained: false });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import pako from 'pako';
+import { getSourceJson, getUrlFileName, openFileContent } from '../openFile';
+import { createTar } from './tarFixtures';
+import { readTextChunks } from '../../utils/blob';
+
+const toBlob = (data: string | Uint8Array): Blob => new Blob([typeof data === 'string' ? data : data.slice()]);
+
+const readText = async (blob: Blob): Promise<string> => {
+  let text = '';
+  for await (const chunk of readTextChunks(blob)) text += chunk.text;
+  return text;
+};
+
+describe('openFileContent', () => {
+  it('opens .jsonl files in the JSONL viewer', async () => {
+    const result = await openFileContent(toBlob('{"instance_id":"a"}\n'), 'output.jsonl');
+    expect(result.content.fileType).toBe('jsonl');
+    expect(result.content.fileType === 'jsonl' && await readText(result.content.jsonlContent)).toBe('{"instance_id":"a"}\n');
+  });
+
+  it('hands .jsonl files to the viewer as they are and decodes only a sample for detection', async () => {
+    const file = toBlob('{"instance_id":"a"}\n{"instance_id":"b"}\n');
+    const result = await openFileContent(file, 'output.jsonl');
+    expect(result.content.fileType === 'jsonl' && result.content.jsonlContent).toBe(file);
+    expect(result.detection?.input).toEqual({ kind: 'jsonl', data: file, sample: '{"instance_id":"a"}\n{"instance_id":"b"}\n', truncated: false });
+  });
+
+  it('unwraps the history of trajectory JSON', async () => {
+    const result = await openFileContent(toBlob(JSON.stringify({ history: [{ id: 1 }] })), 'output.json');
+    expect(result.content).toEqual({ trajectoryData: [{ id: 1 }], fileType: 'trajectory' });
+  });
+
+  it('keeps the JSON document for metadata such as the issue', async () => {
+    const artifact = { issue: { title: 'Fix login', number: 7 }, history: [{ id: 1 }] };
+    expect(getSourceJson(await openFileContent(toBlob(JSON.stringify(artifact)), 'output.json'))).toEqual(artifact);
+    expect(getSourceJson(await openFileContent(toBlob('{"instance_id":"a"}\n'), 'output.jsonl'))).toBeUndefined();
+  });
+
+  it('detects JSONL without the extension', async () => {
+    const result = await openFileContent(toBlob('{"a":1}\n{"a":2}\n'), 'results.txt');
+    expect(result.content.fileType).toBe('jsonl');
+  });
+
+  it('extracts gzipped tarballs as full archives', async () => {
+    const tar = createTar([{ name: 'run/output.jsonl', content: '{"instance_id":"a"}' }]);
+    const result = await openFileContent(toBlob(pako.gzip(tar)), 'nested/results.tar.gz');
+    expect(result.content.fileType).toBe('full_archive');
+    expect(result.content.fileType === 'full_archive' && await readText(result.content.jsonlContent)).toBe('{"instance_id":"a"}');
+  });
+
+  it('rejects files that are neither JSON nor JSONL', async () => {
+    await expect(openFileContent(toBlob('plain text'), 'notes.txt')).rejects.toThrow(/not valid JSON or JSONL/);
+  });
+});
+
+describe('getUrlFileName', () => {
+  it('uses the last path segment of the URL', () => {
+    expect(getUrlFileName('https://static.example.com/nightly/output.jsonl?token=abc', 'text/plain')).toBe('output.jsonl');
+  });
+
+  it('falls back to the content type when the path has no extension', () => {
+    expect(getUrlFileName('https://static.example.com/runs/42/download', 'application/x-ndjson; charset=utf-8')).toBe('download.jsonl');
+    expect(getUrlFileName('https://static.example.com/', null)).toBe('download');
+  });
+});
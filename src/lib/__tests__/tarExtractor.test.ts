@@ -1,62 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { extractFromTar } from '../tarExtractor';
-
-/**
- * Creates a valid tar archive with the given files
- */
-function createTar(files: { name: string; content: string }[]): Uint8Array {
-  const blockSize = 512;
-  const chunks: Uint8Array[] = [];
-  const encoder = new TextEncoder();
-
-  for (const file of files) {
-    // Create tar header block (512 bytes)
-    const header = new Uint8Array(blockSize);
-    const nameBytes = encoder.encode(file.name);
-    header.set(nameBytes.slice(0, 100), 0);
-    
-    // File size (12 bytes, octal)
-    const sizeStr = file.content.length.toString(8).padStart(11, '0') + ' ';
-    header.set(encoder.encode(sizeStr), 124);
-    
-    // Type flag (1 byte) - regular file
-    header[156] = 0x30; // '0'
-    
-    // Calculate and set checksum
-    let sum = 0;
-    for (let i = 0; i < 148; i++) sum += header[i];
-    for (let i = 156; i < 512; i++) sum += header[i];
-    const checksumStr = sum.toString(8).padStart(6, '0');
-    header.set(encoder.encode(checksumStr + ' \0'), 148);
-    
-    chunks.push(header);
-    
-    // File content
-    const content = encoder.encode(file.content);
-    chunks.push(content);
-    
-    // Pad to 512-byte boundary
-    const paddedSize = Math.ceil(content.length / blockSize) * blockSize;
-    if (paddedSize > content.length) {
-      chunks.push(new Uint8Array(paddedSize - content.length));
-    }
-  }
-  
-  // Two null blocks at end
-  chunks.push(new Uint8Array(blockSize));
-  chunks.push(new Uint8Array(blockSize));
-  
-  // Concatenate all chunks
-  const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-  const result = new Uint8Array(totalLength);
-  let offset = 0;
-  for (const chunk of chunks) {
-    result.set(chunk, offset);
-    offset += chunk.length;
-  }
-  
-  return result;
-}
+import pako from 'pako';
+import { decompressTarGz, decompressTarGzStream, extractFromTar, TarStreamParser } from '../tarExtractor';
+import { createTar, paxRecords } from './tarFixtures';
 
 describe('extractFromTar', () => {
   it('extracts output.jsonl from archive', () => {
@@ -122,3 +67,200 @@ describe('extractFromTar', () => {
     expect(result.jsonlContent).toBeNull(); // Empty content not matched
   });
 });
+
+describe('extractFromTar archive index', () => {
+  it('lists every member with its size', () => {
+    const tar = createTar([
+      { name: 'eval_results/metadata.json', content: '{"model":"x"}' },
+      { name: 'eval_results/output.jsonl', content: '{"instance_id":"a"}' },
+      { name: 'eval_results/eval_outputs/a/run_instance.log', content: 'log line' },
+      { name: 'eval_results/image.png', content: 'binary' },
+    ]);
+
+    const { archive } = extractFromTar(tar);
+    expect(archive.entries.map(entry => [entry.path, entry.size])).toEqual([
+      ['eval_results/metadata.json', 13],
+      ['eval_results/output.jsonl', 19],
+      ['eval_results/eval_outputs/a/run_instance.log', 8],
+      ['eval_results/image.png', 6],
+    ]);
+  });
+
+  it('retains text members only', () => {
+    const tar = createTar([
+      { name: 'results/run_instance.log', content: 'hello' },
+      { name: 'results/image.png', content: 'binary' },
+    ]);
+
+    const { archive } = extractFromTar(tar);
+    expect(new TextDecoder().decode(archive.files.get('results/run_instance.log'))).toBe('hello');
+    expect(archive.files.has('results/image.png')).toBe(false);
+    expect(archive.entries[1].retained).toBe(false);
+  });
+
+  it('does not treat per-instance reports as the run report', () => {
+    const tar = createTar([
+      { name: 'results/output.report.json', content: '{"total": 2}' },
+      { name: 'results/eval_outputs/a/report.json', content: '{"a": {"resolved": true}}' },
+    ]);
+
+    expect(extractFromTar(tar).reportContent).toEqual({ total: 2 });
+  });
+});
+
+describe('TarStreamParser', () => {
+  const longName = `results/${'nested/'.repeat(20)}output.jsonl`;
+  const longLinkTar = () => {
+    const content = '{"instance_id":"long"}';
+    return createTar([
+      { name: '././@LongLink', content: longName + '\0' },
+      { name: longName.slice(0, 99), content },
+      { name: 'results/run.log', content: 'log' },
+    ]);
+  };
+
+  it.each([1, 7, 511, 512, 4096])('gives the same result for %i-byte chunks', (chunkSize) => {
+    const tar = longLinkTar();
+    const parser = new TarStreamParser();
+    for (let offset = 0; offset < tar.length; offset += chunkSize) {
+      parser.push(tar.subarray(offset, offset + chunkSize));
+    }
+
+    const result = parser.finish();
+    expect(result).toEqual(extractFromTar(tar));
+    expect(result.jsonlContent).toBe('{"instance_id":"long"}');
+    expect(result.archive.entries.map(entry => entry.path)).toEqual([longName, 'results/run.log']);
+  });
+
+  it('drops a member truncated by the end of the stream', () => {
+    const tar = createTar([{ name: 'results/output.jsonl', content: 'x'.repeat(1000) }]);
+    const parser = new TarStreamParser();
+    parser.push(tar.subarray(0, 700));
+    expect(parser.finish().archive.entries).toEqual([]);
+  });
+});
+
+describe('decompressTarGz', () => {
+  it('streams a gzipped tarball', async () => {
+    const tar = createTar([{ name: 'results/output.jsonl', content: '{"instance_id":"a"}' }]);
+    const result = await decompressTarGz(pako.gzip(tar));
+    expect(result.jsonlContent).toBe('{"instance_id":"a"}');
+  });
+
+  it('rejects a truncated gzip stream', async () => {
+    const gzipped = pako.gzip(createTar([{ name: 'results/output.jsonl', content: 'x'.repeat(5000) }]));
+    await expect(decompressTarGz(gzipped.subarray(0, gzipped.length - 20))).rejects.toThrow(/unexpected end of data/);
+  });
+});
+
+describe('decompressTarGzStream', () => {
+  async function* pieces(data: Uint8Array, size: number) {
+    for (let offset = 0; offset < data.length; offset += size) {
+      yield data.subarray(offset, offset + size);
+    }
+  }
+
+  it('extracts a tarball that arrives in small pieces', async () => {
+    const content = JSON.stringify({ instance_id: 'a', history: [] });
+    const gzipped = pako.gzip(createTar([{ name: 'results/output.jsonl', content }]));
+    const progress: number[] = [];
+
+    const result = await decompressTarGzStream(pieces(gzipped, 37), bytesRead => progress.push(bytesRead));
+    expect(result.jsonlContent).toBe(content);
+    expect(progress[progress.length - 1]).toBe(gzipped.length);
+  });
+
+  it('rejects a download that stops mid-stream', async () => {
+    const gzipped = pako.gzip(createTar([{ name: 'results/output.jsonl', content: 'x'.repeat(5000) }]));
+    await expect(decompressTarGzStream(pieces(gzipped.subarray(0, gzipped.length - 20), 100))).rejects.toThrow(/unexpected end of data/);
+  });
+});
+
+describe('extractFromTar extended headers', () => {
+  const longPath = `results/${'very_long_directory_name/'.repeat(6)}output.jsonl`;
+
+  it('uses the path from a PAX extended header', () => {
+    const tar = createTar([
+      { name: 'PaxHeaders.0/output.jsonl', type: 'x', content: paxRecords({ path: longPath }) },
+      { name: 'truncated-name', content: '{"instance_id":"a"}' },
+    ]);
+
+    const result = extractFromTar(tar);
+    expect(result.jsonlContent).toBe('{"instance_id":"a"}');
+    expect(result.archive.entries.map(entry => entry.path)).toEqual([longPath]);
+  });
+
+  it('uses the size from a PAX extended header', () => {
+    const content = '{"instance_id":"a"}';
+    const tar = createTar([
+      { name: 'PaxHeaders.0/output.jsonl', type: 'x', content: paxRecords({ size: String(content.length) }) },
+      { name: 'results/output.jsonl', content, headerSize: 0 },
+      { name: 'results/run.log', content: 'log' },
+    ]);
+
+    const result = extractFromTar(tar);
+    expect(result.jsonlContent).toBe(content);
+    expect(result.archive.entries.map(entry => [entry.path, entry.size])).toEqual([
+      ['results/output.jsonl', content.length],
+      ['results/run.log', 3],
+    ]);
+  });
+
+  it('applies a PAX header to the next member only and ignores global headers', () => {
+    const tar = createTar([
+      { name: 'pax_global_header', type: 'g', content: paxRecords({ path: 'global', comment: 'x' }) },
+      { name: 'PaxHeaders.0/a', type: 'x', content: paxRecords({ path: 'results/renamed.log' }) },
+      { name: 'results/a.log', content: 'a' },
+      { name: 'results/b.log', content: 'b' },
+    ]);
+
+    expect(extractFromTar(tar).archive.entries.map(entry => entry.path)).toEqual([
+      'results/renamed.log',
+      'results/b.log',
+    ]);
+  });
+
+  it('joins the ustar prefix and name fields', () => {
+    const tar = createTar([
+      { name: 'output.jsonl', prefix: 'results/eval/run', content: '{"instance_id":"a"}' },
+    ]);
+
+    expect(extractFromTar(tar).archive.entries[0].path).toBe('results/eval/run/output.jsonl');
+  });
+
+  it('does not read GNU access and change times as a path prefix', () => {
+    const tar = createTar([
+      { name: 'results/output.jsonl', gnu: { atime: 1700000000, ctime: 1700000100 }, content: '{"instance_id":"a"}' },
+    ]);
+
+    const result = extractFromTar(tar);
+    expect(result.archive.entries[0].path).toBe('results/output.jsonl');
+    expect(result.jsonlContent).toBe('{"instance_id":"a"}');
+  });
+
+  it('keeps spaces in member names', () => {
+    const tar = createTar([{ name: 'results/my notes.txt', content: 'hi' }]);
+    expect(extractFromTar(tar).archive.entries[0].path).toBe('results/my notes.txt');
+  });
+
+  it('skips symlinks and hardlinks without following them', () => {
+    const tar = createTar([
+      { name: 'results/link.jsonl', type: '2', linkName: '/etc/passwd', content: '' },
+      { name: 'results/hard.jsonl', type: '1', linkName: 'results/output.jsonl', content: '' },
+      { name: 'results/output.jsonl', content: '{"instance_id":"a"}' },
+    ]);
+
+    const result = extractFromTar(tar);
+    expect(result.jsonlContent).toBe('{"instance_id":"a"}');
+    expect(result.archive.entries.map(entry => entry.path)).toEqual(['results/output.jsonl']);
+  });
+
+  it('reads GNU long names from type L headers', () => {
+    const tar = createTar([
+      { name: '././@LongLink', type: 'L', content: longPath + '\0' },
+      { name: longPath.slice(0, 99), content: '{"instance_id":"a"}' },
+    ]);
+
+    expect(extractFromTar(tar).archive.entries.map(entry => entry.path)).toEqual([longPath]);
+  });
+});
@@ -0,0 +1,103 @@
+// Builders for tar archives used in extractor and loader tests
+
+export interface TarFixtureMember {
+  name: string;
+  content: string;
+  // Type flag, defaults to '0' (regular file)
+  type?: string;
+  // ustar prefix field, joined to the name with a slash
+  prefix?: string;
+  linkName?: string;
+  // Size written to the header, when it should differ from the content length
+  headerSize?: number;
+  // Write the old GNU magic, which puts access and change times where ustar has its prefix
+  gnu?: { atime: number; ctime: number };
+}
+
+/**
+ * Builds the body of a PAX extended header ('x' or 'g' member)
+ */
+export function paxRecords(records: Record<string, string>): string {
+  const encoder = new TextEncoder();
+  return Object.entries(records).map(([key, value]) => {
+    const body = ` ${key}=${value}\n`;
+    const bodyLength = encoder.encode(body).length;
+    // The length prefix counts its own digits
+    let length = bodyLength + String(bodyLength).length;
+    if (String(length).length !== String(bodyLength).length) length++;
+    return `${length}${body}`;
+  }).join('');
+}
+
+/**
+ * Creates a valid tar archive with the given files
+ */
+export function createTar(files: TarFixtureMember[]): Uint8Array {
+  const blockSize = 512;
+  const chunks: Uint8Array[] = [];
+  const encoder = new TextEncoder();
+
+  for (const file of files) {
+    // Create tar header block (512 bytes)
+    const header = new Uint8Array(blockSize);
+    const nameBytes = encoder.encode(file.name);
+    header.set(nameBytes.slice(0, 100), 0);
+    
+    // File size (12 bytes, octal)
+    const size = file.headerSize ?? encoder.encode(file.content).length;
+    const sizeStr = size.toString(8).padStart(11, '0') + ' ';
+    header.set(encoder.encode(sizeStr), 124);
+    
+    // Type flag (1 byte) - regular file unless given
+    header[156] = (file.type ?? '0').charCodeAt(0);
+    if (file.linkName) {
+      header.set(encoder.encode(file.linkName).slice(0, 100), 157);
+    }
+
+    if (file.gnu) {
+      header.set(encoder.encode('ustar  \0'), 257);
+      header.set(encoder.encode(file.gnu.atime.toString(8).padStart(11, '0') + '\0'), 345);
+      header.set(encoder.encode(file.gnu.ctime.toString(8).padStart(11, '0') + '\0'), 357);
+    } else {
+      // POSIX ustar magic and version
+      header.set(encoder.encode('ustar\0' + '00'), 257);
+    }
+    if (file.prefix) {
+      header.set(encoder.encode(file.prefix).slice(0, 155), 345);
+    }
+    
+    // Calculate and set checksum
+    let sum = 0;
+    for (let i = 0; i < 148; i++) sum += header[i];
+    for (let i = 156; i < 512; i++) sum += header[i];
+    const checksumStr = sum.toString(8).padStart(6, '0');
+    header.set(encoder.encode(checksumStr + ' \0'), 148);
+    
+    chunks.push(header);
+    
+    // File content
+    const content = encoder.encode(file.content);
+    chunks.push(content);
+    
+    // Pad to 512-byte boundary
+    const paddedSize = Math.ceil(content.length / blockSize) * blockSize;
+    if (paddedSize > content.length) {
+      chunks.push(new Uint8Array(paddedSize - content.length));
+    }
+  }
+  
+  // Two null blocks at end
+  chunks.push(new Uint8Array(blockSize));
+  chunks.push(new Uint8Array(blockSize));
+  
+  // Concatenate all chunks
+  const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  
+  return result;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fetchWithProxyFallback } from '../urlLoader';
+import { validateAppConfig } from '../../config/app-config';
+
+const target = 'https://static.internal/run/output.jsonl';
+const okResponse = { ok: true, status: 200, statusText: 'OK' } as Response;
+
+const withProxy = validateAppConfig({
+  proxy: { url: '/api/proxy?url={url}', allowedPrefixes: ['https://static.internal/'] }
+}).config;
+
+describe('fetchWithProxyFallback', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('fetches directly when the server allows it', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(okResponse);
+    global.fetch = fetchMock as typeof fetch;
+
+    const result = await fetchWithProxyFallback(target, { config: withProxy });
+    expect(result.path).toBe('direct');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries allowlisted URLs through the proxy', async () => {
+    const fetchMock = vi.fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(okResponse);
+    global.fetch = fetchMock as typeof fetch;
+
+    const result = await fetchWithProxyFallback(target, { config: withProxy });
+    expect(result.path).toBe('proxy');
+    expect(fetchMock.mock.calls[1][0]).toBe(`/api/proxy?url=${encodeURIComponent(target)}`);
+    expect(result.attempts.map(attempt => attempt.outcome)).toEqual(['failed', 'ok']);
+  });
+
+  it('never sends URLs outside the allowlist to the proxy', async () => {
+    const fetchMock = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    global.fetch = fetchMock as typeof fetch;
+
+    await expect(fetchWithProxyFallback('https://elsewhere.example.com/output.jsonl', { config: withProxy }))
+      .rejects.toThrow('Direct request failed: Failed to fetch\nProxy not used: the URL does not match proxy.allowedPrefixes');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not use a proxy unless one is configured', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' });
+    global.fetch = fetchMock as typeof fetch;
+
+    await expect(fetchWithProxyFallback(target, { config: validateAppConfig({}).config }))
+      .rejects.toThrow('Direct request failed: 404 Not Found\nProxy not used: no proxy is configured');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a failing proxy', async () => {
+    global.fetch = vi.fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce({ ok: false, status: 403, statusText: 'Forbidden' }) as typeof fetch;
+
+    await expect(fetchWithProxyFallback(target, { config: withProxy })).rejects.toThrow('Proxy failed: 403 Forbidden');
+  });
+});
@@ -0,0 +1,173 @@
+import { ArchiveEntry, ExtractedArchive, LoadedArchive } from '../types/archive';
+
+export type ArchiveFileKind = 'json' | 'jsonl' | 'text';
+
+const MAX_RETAINED_MEMBER_SIZE = 50 * 1024 * 1024; // 50MB per browsable file
+const MAX_RETAINED_TOTAL_SIZE = 200 * 1024 * 1024; // 200MB across browsable files
+
+// Extensions we keep in memory and can show in the archive browser
+const TEXT_EXTENSIONS = new Set([
+  'json', 'jsonl', 'txt', 'log', 'diff', 'patch', 'md', 'yaml', 'yml', 'toml',
+  'csv', 'tsv', 'py', 'sh', 'cfg', 'ini', 'html', 'xml', 'out', 'err'
+]);
+
+const getExtension = (path: string): string => {
+  const fileName = path.split('/').pop() || '';
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot + 1).toLowerCase();
+};
+
+/**
+ * Whether an archive member looks like text we can display
+ */
+export function isTextMember(path: string): boolean {
+  return TEXT_EXTENSIONS.has(getExtension(path));
+}
+
+/**
+ * Picks the viewer for an archive member based on its extension
+ */
+export function getArchiveFileKind(path: string): ArchiveFileKind {
+  const extension = getExtension(path);
+  if (extension === 'json') return 'json';
+  if (extension === 'jsonl') return 'jsonl';
+  return 'text';
+}
+
+/**
+ * Decodes a retained archive member as UTF-8
+ * @returns The text, or null if the member was not kept in memory
+ */
+export function readArchiveText(archive: LoadedArchive, path: string): string | null {
+  const data = archive.files.get(path);
+  return data ? new TextDecoder('utf8').decode(data) : null;
+}
+
+// Preferred display order for files inside eval_outputs/<instance_id>/
+const INSTANCE_ARTIFACT_ORDER = ['report.json', 'test_output.txt', 'patch.diff', 'run_instance.log'];
+
+const artifactRank = (path: string): number => {
+  const index = INSTANCE_ARTIFACT_ORDER.indexOf(path.split('/').pop() || '');
+  return index === -1 ? INSTANCE_ARTIFACT_ORDER.length : index;
+};
+
+/**
+ * Finds the files under eval_outputs/<instanceId>/ for one evaluation instance
+ * @param archive The loaded archive
+ * @param instanceId The instance_id of a JSONL entry
+ * @returns The matching file entries, well-known artifacts first
+ */
+export function findInstanceArtifacts(archive: LoadedArchive, instanceId: unknown): ArchiveEntry[] {
+  if (instanceId === undefined || instanceId === null || instanceId === '') return [];
+  const id = String(instanceId);
+
+  return archive.entries
+    .filter(entry => {
+      if (entry.type !== 'file') return false;
+      const segments = entry.path.split('/');
+      const evalIndex = segments.indexOf('eval_outputs');
+      // The instance folder must be directly below eval_outputs and contain the file
+      return evalIndex !== -1 && segments[evalIndex + 1] === id && segments.length > evalIndex + 2;
+    })
+    .sort((a, b) => artifactRank(a.path) - artifactRank(b.path) || a.path.localeCompare(b.path));
+}
+
+// Match output.jsonl (main results) - exclude auxiliary files
+const isOutputJsonl = (lowerName: string): boolean =>
+  lowerName.endsWith('/output.jsonl') ||
+  lowerName === 'output.jsonl' ||
+  (lowerName.includes('output.jsonl') && !lowerName.includes('errors') && !lowerName.includes('cost') && !lowerName.includes('timeline') && !lowerName.includes('critic'));
+
+const isReportJson = (lowerName: string): boolean =>
+  lowerName.includes('output.report.json') || (lowerName.includes('report') && lowerName.endsWith('.json'));
+
+// Per-instance reports (eval_outputs/<instance_id>/report.json) are not the run report
+const isInstanceReport = (lowerName: string): boolean =>
+  lowerName.endsWith('/report.json') && lowerName.includes('eval_outputs/');
+
+const CONVERSATION_EVENT = /(^|\/)events\/[^/]+\.json$/i;
+
+/**
+ * Whether a member is an event file of a V1 conversation directory (events/*.json)
+ */
+export function isConversationEvent(path: string): boolean {
+  return CONVERSATION_EVENT.test(path);
+}
+
+// The conversation timeline is rebuilt from these, so none may be dropped
+const isConversationMember = (path: string): boolean =>
+  isConversationEvent(path) || /(^|\/)base_state\.json$/i.test(path);
+
+/**
+ * Collects archive members from any container format (tar, zip) into the
+ * evaluation output plus a browsable index of every member.
+ */
+export class ArchiveCollector {
+  private jsonlContent: string | null = null;
+  private reportContent: any | null = null;
+  private largestJsonlSize = 0;
+  private retainedSize = 0;
+  private readonly entries: ArchiveEntry[] = [];
+  private readonly files = new Map<string, Uint8Array>();
+
+  /**
+   * Whether addFile needs the member's bytes; lets extractors skip reading the rest
+   */
+  wantsContent(path: string, size: number): boolean {
+    if (size === 0) return false;
+    const lowerName = path.toLowerCase();
+    return isOutputJsonl(lowerName) || isReportJson(lowerName) || isConversationMember(path) || this.canRetain(path, size);
+  }
+
+  addDirectory(path: string): void {
+    this.entries.push({ path, size: 0, type: 'directory', retained: false });
+  }
+
+  addFile(path: string, size: number, data?: Uint8Array): void {
+    if (!data || size === 0) {
+      this.entries.push({ path, size, type: 'file', retained: false });
+      return;
+    }
+
+    const lowerName = path.toLowerCase();
+    const isJsonl = isOutputJsonl(lowerName);
+    const isReport = isReportJson(lowerName);
+    if (isJsonl || isReport) {
+      const content = new TextDecoder('utf8').decode(data);
+      if (isJsonl && size > this.largestJsonlSize) {
+        this.jsonlContent = content;
+        this.largestJsonlSize = size;
+      }
+      if (isReport && !isInstanceReport(lowerName)) {
+        try {
+          this.reportContent = JSON.parse(content);
+        } catch {
+          // Ignore malformed JSON in report
+        }
+      }
+    }
+
+    // Keep text members in memory for the archive browser, within limits. Conversation
+    // files are kept past them: a timeline missing events would still look complete.
+    const retained = isConversationMember(path) || this.canRetain(path, size);
+    if (retained) {
+      this.files.set(path, data);
+      this.retainedSize += size;
+    }
+    this.entries.push({ path, size, type: 'file', retained });
+  }
+
+  finish(): ExtractedArchive {
+    return {
+      jsonlContent: this.jsonlContent,
+      reportContent: this.reportContent,
+      archive: { entries: this.entries, files: this.files }
+    };
+  }
+
+  private canRetain(path: string, size: number): boolean {
+    return isTextMember(path) &&
+           size <= MAX_RETAINED_MEMBER_SIZE &&
+           this.retainedSize + size <= MAX_RETAINED_TOTAL_SIZE;
+  }
+}
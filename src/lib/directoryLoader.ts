@@ -0,0 +1,45 @@
+import { ExtractedArchive } from '../types/archive';
+import { ArchiveCollector } from './archive';
+
+/**
+ * Path of a file inside a dropped or selected folder. react-dropzone sets `path`
+ * on dropped files; folder pickers (webkitdirectory) set webkitRelativePath.
+ */
+export function getRelativePath(file: File): string {
+  const path = (file as File & { path?: string }).path || file.webkitRelativePath || file.name;
+  return path.replace(/^\.?\/+/, '');
+}
+
+/**
+ * Whether the files came from a folder rather than a file pick: every path has a directory part.
+ * Several loose files are not a folder.
+ */
+export function isDirectoryUpload(files: File[]): boolean {
+  return files.length > 0 && files.every(file => getRelativePath(file).includes('/'));
+}
+
+const readFileBuffer = (file: File): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error ?? new Error(`Error reading ${file.name}`));
+    reader.readAsArrayBuffer(file);
+  });
+
+/**
+ * Reads the files of an uploaded folder into the same shape as an extracted
+ * archive, so folders go through the same format detection as zip and tar files
+ */
+export async function readDirectoryFiles(files: File[]): Promise<ExtractedArchive> {
+  const collector = new ArchiveCollector();
+  for (const file of files) {
+    const path = getRelativePath(file);
+    if (collector.wantsContent(path, file.size)) {
+      const data = new Uint8Array(await readFileBuffer(file));
+      collector.addFile(path, data.length, data);
+    } else {
+      collector.addFile(path, file.size);
+    }
+  }
+  return collector.finish();
+}
@@ -0,0 +1,104 @@
+import { ExtractedArchive } from '../types/archive';
+import { sniffFormat, SniffedFormat } from './formatSniffer';
+import { extractFromTar, inflateStream, InflateProgressCallback, TarStreamParser } from './tarExtractor';
+import { extractFromZip } from './zipExtractor';
+
+const MAX_FILE_SIZE = 500 * 1024 * 1024; // 500MB max
+
+type InflatedContent =
+  | { format: 'tar'; result: ExtractedArchive }
+  | { format: Exclude<SniffedFormat, 'tar'>; data: Uint8Array };
+
+/**
+ * Inflates gzip data, sniffing the decompressed format from its first block.
+ * Tarballs are streamed straight into the tar parser; anything else is buffered.
+ */
+function inflateAndSniff(data: Uint8Array, fileName?: string, onProgress?: InflateProgressCallback): InflatedContent {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const tarParser = new TarStreamParser();
+  // Settled once the first block is in; from then on a tarball streams into the parser
+  const sniffed = { done: false, tar: false };
+
+  inflateStream(data, chunk => {
+    if (sniffed.tar) {
+      tarParser.push(chunk);
+      return;
+    }
+    chunks.push(chunk);
+    length += chunk.length;
+    if (!sniffed.done && length >= 512) {
+      sniffed.done = true;
+      sniffed.tar = sniffFormat(concatChunks(chunks, length), fileName) === 'tar';
+      if (sniffed.tar) {
+        chunks.forEach(buffered => tarParser.push(buffered));
+        chunks.length = 0;
+      }
+    }
+  }, onProgress);
+
+  if (sniffed.tar) {
+    return { format: 'tar', result: tarParser.finish() };
+  }
+  const inflated = concatChunks(chunks, length);
+  const format = sniffFormat(inflated, fileName);
+  // Output shorter than one tar block is only sniffed here
+  if (format === 'tar') {
+    return { format, result: extractFromTar(inflated) };
+  }
+  return { format, data: inflated };
+}
+
+const concatChunks = (chunks: Uint8Array[], length: number): Uint8Array => {
+  if (chunks.length === 1) return chunks[0];
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+};
+
+export type LoadedFile =
+  | { kind: 'archive'; format: 'tar' | 'zip'; compressed: boolean; result: ExtractedArchive }
+  | { kind: 'text'; compressed: boolean; text: string };
+
+/**
+ * Opens an uploaded or downloaded file by its magic bytes: zip and tar archives
+ * (optionally gzipped) are extracted, anything else is decoded as UTF-8 text.
+ * @param data The raw file contents
+ * @param fileName Optional file name, used as a hint for tarballs without magic
+ * @param onProgress Called while gzip data is being decompressed
+ */
+export async function loadFileData(
+  data: Uint8Array,
+  fileName?: string,
+  onProgress?: InflateProgressCallback
+): Promise<LoadedFile> {
+  if (data.length > MAX_FILE_SIZE) {
+    throw new Error(`File too large: ${(data.length / 1024 / 1024).toFixed(1)}MB exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit`);
+  }
+
+  let format = sniffFormat(data, fileName);
+  const compressed = format === 'gzip';
+  if (compressed) {
+    // Strip the .gz suffix so the inner name hint applies (e.g. results.tar.gz -> results.tar)
+    const innerName = fileName?.replace(/\.gz$/i, '').replace(/\.tgz$/i, '.tar');
+    const inner = inflateAndSniff(data, innerName, onProgress);
+    if (inner.format === 'tar') {
+      return { kind: 'archive', format: 'tar', compressed, result: inner.result };
+    }
+    format = inner.format;
+    data = inner.data;
+  }
+
+  switch (format) {
+    case 'zip':
+      return { kind: 'archive', format: 'zip', compressed, result: await extractFromZip(data) };
+    case 'tar':
+      return { kind: 'archive', format: 'tar', compressed, result: extractFromTar(data) };
+    default:
+      return { kind: 'text', compressed, text: new TextDecoder('utf8').decode(data) };
+  }
+}
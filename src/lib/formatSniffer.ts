@@ -0,0 +1,26 @@
+/**
+ * Detects container formats from magic bytes, so uploads do not depend on file extensions.
+ */
+
+export type SniffedFormat = 'gzip' | 'zip' | 'tar' | 'text';
+
+const TAR_MAGIC_OFFSET = 257;
+
+const startsWith = (data: Uint8Array, bytes: number[], offset = 0): boolean =>
+  data.length >= offset + bytes.length && bytes.every((byte, i) => data[offset + i] === byte);
+
+/**
+ * Sniffs the format of the given bytes
+ * @param data The file contents (only the first 512 bytes are inspected)
+ * @param fileName Optional name, used for pre-POSIX tarballs that have no magic
+ * @returns The detected format; anything unrecognised is treated as text
+ */
+export function sniffFormat(data: Uint8Array, fileName?: string): SniffedFormat {
+  if (startsWith(data, [0x1f, 0x8b])) return 'gzip';
+  // Local file header, or the end-of-central-directory record of an empty zip
+  if (startsWith(data, [0x50, 0x4b, 0x03, 0x04]) || startsWith(data, [0x50, 0x4b, 0x05, 0x06])) return 'zip';
+  // "ustar" covers both POSIX ("ustar\0") and GNU ("ustar  ") headers
+  if (startsWith(data, [0x75, 0x73, 0x74, 0x61, 0x72], TAR_MAGIC_OFFSET)) return 'tar';
+  if (fileName?.toLowerCase().endsWith('.tar') && data.length >= 512 && data.length % 512 === 0) return 'tar';
+  return 'text';
+}
@@ -0,0 +1,169 @@
+import { JsonlEntry } from '../utils/jsonl-parser';
+import { TarExtractionResult } from './tarExtractor';
+import { LoadedFile } from './fileLoader';
+import { runLoaderTask } from '../workers/loader-tasks';
+import { LoadProgress, LoaderMessage, LoaderRequest, LoaderResult } from '../types/loader';
+
+export interface LoaderOptions {
+  onProgress?: (progress: LoadProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface JsonlParseResult {
+  entries: JsonlEntry[];
+  cancelled: boolean;
+}
+
+const abortError = () => new DOMException('Loading cancelled', 'AbortError');
+
+export const isAbortError = (err: unknown): boolean =>
+  typeof err === 'object' && err !== null && (err as { name?: string }).name === 'AbortError';
+
+const createLoaderWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('../workers/loader.worker.ts', import.meta.url), { type: 'module' });
+  } catch (err) {
+    console.warn('Failed to start loader worker, falling back to main thread:', err);
+    return null;
+  }
+};
+
+/**
+ * Runs a loader task in a dedicated worker, or on the main thread when workers
+ * are unavailable (e.g. in tests). Rejects with an AbortError when cancelled.
+ */
+function runTask(
+  request: LoaderRequest,
+  onMessage: (message: LoaderMessage) => void,
+  signal?: AbortSignal
+): Promise<LoaderResult> {
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  const worker = createLoaderWorker();
+  if (!worker) {
+    return runLoaderTask(request, { emit: onMessage, isCancelled: () => !!signal?.aborted, signal })
+      .then(result => {
+        if (signal?.aborted) throw abortError();
+        return result;
+      });
+  }
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    worker.onmessage = (event: MessageEvent<LoaderMessage>) => {
+      const message = event.data;
+      if (message.type === 'done') {
+        cleanup();
+        resolve(message.result);
+      } else if (message.type === 'error') {
+        cleanup();
+        reject(new Error(message.message));
+      } else {
+        onMessage(message);
+      }
+    };
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Loader worker failed'));
+    };
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Parses a JSONL file off the main thread. The blob is shared with the worker,
+ * not copied, and decoded there a chunk at a time.
+ * Cancelling keeps the entries parsed so far instead of rejecting.
+ */
+export async function parseJsonlOffThread(data: Blob, options: LoaderOptions = {}): Promise<JsonlParseResult> {
+  const entries: JsonlEntry[] = [];
+  const onMessage = (message: LoaderMessage) => {
+    if (message.type === 'entries') {
+      for (const entry of message.entries) entries.push(entry);
+    } else if (message.type === 'progress') {
+      options.onProgress?.(message.progress);
+    }
+  };
+
+  try {
+    await runTask({ type: 'parse-jsonl', data }, onMessage, options.signal);
+    return { entries, cancelled: false };
+  } catch (err) {
+    if (isAbortError(err)) return { entries, cancelled: true };
+    throw err;
+  }
+}
+
+/**
+ * Downloads a tar.gz archive and extracts output.jsonl and the report off the main
+ * thread, decompressing it as it arrives.
+ */
+export async function fetchArchiveOffThread(url: string, options: LoaderOptions = {}): Promise<TarExtractionResult> {
+  const onMessage = (message: LoaderMessage) => {
+    if (message.type === 'progress') options.onProgress?.(message.progress);
+  };
+  const result = await runTask({ type: 'fetch-archive', url }, onMessage, options.signal);
+  if (!result || !('archive' in result)) {
+    throw new Error('Archive extraction returned no result');
+  }
+  return result;
+}
+
+/**
+ * Opens a file of any supported format (zip, tar, gzip, plain text) off the main thread.
+ * The worker reads the blob itself, so its bytes are never loaded on the main thread.
+ */
+export async function loadFileOffThread(data: Blob, fileName?: string, options: LoaderOptions = {}): Promise<LoadedFile> {
+  const onMessage = (message: LoaderMessage) => {
+    if (message.type === 'progress') options.onProgress?.(message.progress);
+  };
+  const result = await runTask({ type: 'load-file', data, fileName }, onMessage, options.signal);
+  if (!result || !('kind' in result)) {
+    throw new Error('File loading returned no result');
+  }
+  return result;
+}
+
+/**
+ * Reads a fetch response into a buffer, reporting download progress when the body is streamable.
+ */
+export async function readResponseBuffer(response: Response, options: LoaderOptions = {}): Promise<ArrayBuffer> {
+  const contentLength = response.headers.get('content-length');
+  const totalBytes = contentLength ? parseInt(contentLength, 10) : undefined;
+
+  if (!response.body) {
+    return response.arrayBuffer();
+  }
+
+  const reader = response.body.getReader();
+  // Write straight into one buffer when the size is known, so the download is not held twice
+  let buffer = new Uint8Array(totalBytes ?? 0);
+  let bytesProcessed = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (bytesProcessed + value.length > buffer.length) {
+      const grown = new Uint8Array(Math.max(buffer.length * 2, bytesProcessed + value.length));
+      grown.set(buffer.subarray(0, bytesProcessed));
+      buffer = grown;
+    }
+    buffer.set(value, bytesProcessed);
+    bytesProcessed += value.length;
+    options.onProgress?.({ phase: 'downloading', bytesProcessed, totalBytes });
+  }
+
+  if (bytesProcessed < buffer.length) {
+    buffer = buffer.slice(0, bytesProcessed);
+  }
+  return buffer.buffer;
+}
@@ -0,0 +1,117 @@
+import { UploadContent } from '../types/upload';
+import { FormatInput } from '../types/format';
+import { adaptInput } from '../formats';
+import { sniffFormat } from './formatSniffer';
+import { loadFileOffThread, LoaderOptions } from './loaderClient';
+import { readBlob, readTextPrefix } from '../utils/blob';
+
+// Enough of a JSONL file to tell its format from the first records
+const JSONL_SAMPLE_SIZE = 4 * 1024 * 1024;
+
+// Every non-empty line parses as JSON on its own
+const looksLikeJsonl = (text: string): boolean => {
+  const lines = text.split('\n').filter(line => line.trim() !== '').slice(0, 5);
+  if (lines.length === 0) return false;
+  return lines.every(line => {
+    try {
+      JSON.parse(line);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+};
+
+/**
+ * A JSONL detection input: the file is left for the loader worker to parse,
+ * and only its start is decoded here
+ */
+export async function readJsonlInput(data: Blob): Promise<FormatInput> {
+  return {
+    kind: 'jsonl',
+    data,
+    sample: await readTextPrefix(data, JSONL_SAMPLE_SIZE),
+    truncated: data.size > JSONL_SAMPLE_SIZE
+  };
+}
+
+/**
+ * Reads a file into a format detection input: archives are extracted, and text
+ * is parsed as JSON, or kept as JSONL for .jsonl files and line-delimited JSON.
+ * @param data The raw file contents; read by the loader worker when compressed
+ * @param fileName The file name, used to tell JSONL from JSON and as a format hint
+ * @throws If the file is neither an archive, JSON nor JSONL
+ */
+export async function readFormatInput(data: Blob, fileName: string, options: LoaderOptions = {}): Promise<FormatInput> {
+  const format = sniffFormat(new Uint8Array(await readBlob(data.slice(0, 512))), fileName);
+  const isJsonl = fileName.toLowerCase().replace(/\.gz$/, '').endsWith('.jsonl');
+
+  let text: string;
+  if (format === 'text') {
+    // .jsonl files are never decoded whole on this thread
+    if (isJsonl) return readJsonlInput(data);
+    text = new TextDecoder('utf8').decode(await readBlob(data));
+  } else {
+    const loaded = await loadFileOffThread(data, fileName, options);
+    if (loaded.kind === 'archive') {
+      return { kind: 'archive', archive: loaded.result };
+    }
+    if (isJsonl) return readJsonlInput(new Blob([loaded.text]));
+    text = loaded.text;
+  }
+
+  try {
+    return { kind: 'json', data: JSON.parse(text) };
+  } catch (err) {
+    // Multi-line JSONL without the .jsonl extension fails to parse as a single document
+    if (looksLikeJsonl(text)) {
+      return readJsonlInput(new Blob([text]));
+    }
+    throw new Error(`${fileName} is not valid JSON or JSONL: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// Extensions implied by a response's content type, for URLs that do not end in one
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'application/jsonl': '.jsonl',
+  'application/x-jsonl': '.jsonl',
+  'application/x-ndjson': '.jsonl',
+  'application/json': '.json',
+  'application/gzip': '.gz',
+  'application/x-gzip': '.gz',
+  'application/zip': '.zip',
+  'application/x-tar': '.tar'
+};
+
+/**
+ * Derives a file name for downloaded content from the URL path, falling back to
+ * the content type when the path has no extension. The name is only a hint:
+ * compressed data is still recognised by its magic bytes.
+ * @param url The URL the file was fetched from
+ * @param contentType The response's Content-Type header
+ */
+export function getUrlFileName(url: string, contentType?: string | null): string {
+  let name = '';
+  try {
+    name = decodeURIComponent(new URL(url, 'http://localhost').pathname.split('/').pop() || '');
+  } catch {
+    // Keep the empty name for malformed URLs
+  }
+  if (/\.[a-z0-9]+$/i.test(name)) return name;
+
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  return `${name || 'download'}${CONTENT_TYPE_EXTENSIONS[type] ?? ''}`;
+}
+
+/**
+ * The JSON document content was adapted from, e.g. for the issue an artifact describes
+ */
+export const getSourceJson = (content: UploadContent): any =>
+  content.detection?.input.kind === 'json' ? content.detection.input.data : undefined;
+
+/**
+ * Opens a file the way local uploads do, detecting its format with the format registry.
+ */
+export async function openFileContent(data: Blob, fileName: string, options: LoaderOptions = {}): Promise<UploadContent> {
+  return adaptInput(await readFormatInput(data, fileName, options));
+}
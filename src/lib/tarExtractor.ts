@@ -1,126 +1,427 @@
 import pako from 'pako';
+import { ExtractedArchive } from '../types/archive';
+import { ArchiveCollector } from './archive';
 
-const MAX_ARCHIVE_SIZE = 500 * 1024 * 1024; // 500MB max
+export const MAX_ARCHIVE_SIZE = 500 * 1024 * 1024; // 500MB max
+const MAX_INFLATED_SIZE = 4 * 1024 * 1024 * 1024; // 4GB once decompressed, so gzip bombs are stopped
+const INFLATE_CHUNK_SIZE = 1024 * 1024; // 1MB of compressed input per step
+const BLOCK_SIZE = 512;
+const MAX_METADATA_SIZE = 1024 * 1024; // Larger PAX/long-name headers are skipped as malformed
 
-function parseTarHeader(data: Uint8Array, offset: number): { name: string; size: number; type: number } | null {
+export type TarExtractionResult = ExtractedArchive;
+
+export type InflateProgressCallback = (bytesProcessed: number, totalBytes: number) => void;
+
+interface TarHeader {
+  name: string;
+  size: number;
+  // Raw type flag; '' for the NUL flag of old-style regular files
+  typeflag: string;
+}
+
+type TarMemberKind = 'file' | 'directory' | 'pax' | 'pax-global' | 'long-name' | 'skip';
+
+// Overrides from PAX extended headers that we act on
+interface PaxOverrides {
+  path?: string;
+  size?: number;
+}
+
+// A member whose data is still being read from the stream
+interface PendingMember {
+  kind: TarMemberKind;
+  name: string;
+  size: number;
+  remaining: number;
+  // Only allocated for members we keep; everything else is skipped
+  data: Uint8Array | null;
+  written: number;
+}
+
+const decodeText = (bytes: Uint8Array): string => new TextDecoder('utf8').decode(bytes);
+
+// Reads a NUL-terminated string field
+const readString = (block: Uint8Array, start: number, length: number): string => {
+  let end = start + length;
+  for (let i = start; i < start + length; i++) {
+    if (block[i] === 0) {
+      end = i;
+      break;
+    }
+  }
+  return decodeText(block.subarray(start, end));
+};
+
+// Reads a numeric field: octal text, or GNU base-256 when the high bit of the first byte is set
+const readNumber = (block: Uint8Array, start: number, length: number): number => {
+  if (block[start] & 0x80) {
+    let value = block[start] & 0x7f;
+    for (let i = start + 1; i < start + length; i++) {
+      value = value * 256 + block[i];
+    }
+    return value;
+  }
+  const text = readString(block, start, length).trim();
+  return text === '' ? NaN : parseInt(text, 8);
+};
+
+function parseTarHeader(block: Uint8Array): TarHeader | null {
   let isNull = true;
-  for (let i = 0; i < 512; i++) {
-    if (data[offset + i] !== 0) {
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    if (block[i] !== 0) {
       isNull = false;
       break;
     }
   }
   if (isNull) return null;
 
-  const getString = (start: number, length: number): string => {
-    let end = start + length;
-    for (let i = start; i < start + length; i++) {
-      if (data[i] === 0 || data[i] === 0x20) {
-        end = i;
-        break;
-      }
-    }
-    return new TextDecoder('utf8').decode(data.slice(start, end));
-  };
+  let name = readString(block, 0, 100);
+  // POSIX ustar splits long paths into prefix + name. GNU headers ("ustar  \0")
+  // keep access and change times in that field instead.
+  if (readString(block, 257, 6) === 'ustar' && block[262] === 0 && readString(block, 263, 2) === '00') {
+    const prefix = readString(block, 345, 155);
+    if (prefix) name = `${prefix}/${name}`;
+  }
+  const size = readNumber(block, 124, 12);
 
-  const name = getString(offset, 100).trim();
-  const sizeStr = getString(offset + 124, 12);
-  const size = parseInt(sizeStr, 8);
-  
   // Validate size - NaN or negative sizes indicate malformed headers
   if (isNaN(size) || size < 0) {
     return null;
   }
-  
-  // Sanity check: size should not exceed remaining data
-  if (offset + 512 + size > data.length) {
-    return null;
-  }
 
-  const typeChar = getString(offset + 156, 1);
-  const type = typeChar === '5' ? 5 : 0;
+  const typeflag = block[156] === 0 ? '' : String.fromCharCode(block[156]);
+
+  return { name, size, typeflag };
+}
 
-  return { name, size, type };
+function getMemberKind(header: TarHeader): TarMemberKind {
+  switch (header.typeflag) {
+    case '':
+    case '0':
+    case '7': // contiguous file
+      // Older writers mark GNU long names with a regular file named ././@LongLink
+      return header.name.endsWith('@LongLink') ? 'long-name' : 'file';
+    case '5':
+      return 'directory';
+    case 'x':
+      return 'pax';
+    case 'g':
+      return 'pax-global';
+    case 'L':
+      return 'long-name';
+    default:
+      // Hard links ('1'), symlinks ('2'), devices, FIFOs, GNU long link targets ('K')
+      // and other extensions carry nothing we can display, so their data is skipped
+      return 'skip';
+  }
 }
 
 /**
- * Extract output.jsonl and output.report.json from a tar.gz archive.
- * Validates archive size and handles malformed entries gracefully.
+ * Parses the "<length> <key>=<value>\n" records of a PAX extended header
  */
-export function extractFromTar(data: Uint8Array): { jsonlContent: string | null; reportContent: any | null } {
-  const blockSize = 512;
-  let offset = 0;
-  let pendingLongName: string | null = null;
-  let jsonlContent: string | null = null;
-  let reportContent: any | null = null;
-  let largestJsonlSize = 0;
+export function parsePaxRecords(data: Uint8Array): Record<string, string> {
+  const records: Record<string, string> = {};
+  let pos = 0;
+  while (pos < data.length) {
+    let space = pos;
+    while (space < data.length && data[space] !== 0x20) space++;
+    const length = parseInt(decodeText(data.subarray(pos, space)), 10);
+    if (isNaN(length) || length <= 0 || pos + length > data.length) break;
 
-  while (offset + blockSize <= data.length) {
-    const header = parseTarHeader(data, offset);
-    if (header === null) break;
+    // Drop the trailing newline
+    const record = decodeText(data.subarray(space + 1, pos + length - 1));
+    const equals = record.indexOf('=');
+    if (equals !== -1) {
+      records[record.slice(0, equals)] = record.slice(equals + 1);
+    }
+    pos += length;
+  }
+  return records;
+}
 
-    offset += blockSize;
+const toPaxOverrides = (records: Record<string, string>): PaxOverrides => {
+  const overrides: PaxOverrides = {};
+  if (records.path) overrides.path = records.path;
+  if (records.size !== undefined) {
+    const size = parseInt(records.size, 10);
+    if (!isNaN(size) && size >= 0) overrides.size = size;
+  }
+  return overrides;
+};
 
-    if (header.type === 0 && header.size > 0 && header.name) {
-      const paddedSize = Math.ceil(header.size / blockSize) * blockSize;
+/**
+ * Incremental tar reader: accepts the archive in arbitrary chunks and hands each
+ * member to an ArchiveCollector as soon as it is complete. Only members the
+ * collector asks for are buffered, so memory stays bounded by what is kept.
+ */
+export class TarStreamParser {
+  private readonly collector: ArchiveCollector;
+  private readonly headerBlock = new Uint8Array(BLOCK_SIZE);
+  private headerFilled = 0;
+  private member: PendingMember | null = null;
+  private paddingToSkip = 0;
+  private pendingLongName: string | null = null;
+  private pendingPax: PaxOverrides = {};
+  private ended = false;
+
+  constructor(collector: ArchiveCollector = new ArchiveCollector()) {
+    this.collector = collector;
+  }
 
-      if (header.name.endsWith('@LongLink') || header.name === '././@LongLink') {
-        pendingLongName = new TextDecoder('utf8').decode(data.slice(offset, offset + header.size)).replace(/\0+$/, '');
+  push(chunk: Uint8Array): void {
+    let pos = 0;
+    while (pos < chunk.length && !this.ended) {
+      if (this.paddingToSkip > 0) {
+        const skipped = Math.min(this.paddingToSkip, chunk.length - pos);
+        this.paddingToSkip -= skipped;
+        pos += skipped;
+      } else if (this.member) {
+        pos += this.readMemberData(this.member, chunk, pos);
       } else {
-        const fileName = pendingLongName || header.name;
-        pendingLongName = null;
-        const lowerName = fileName.toLowerCase();
-
-        // Match output.jsonl (main results) - exclude auxiliary files
-        const isJsonl = lowerName.endsWith('/output.jsonl') || 
-                        lowerName === 'output.jsonl' ||
-                        (lowerName.includes('output.jsonl') && !lowerName.includes('errors') && !lowerName.includes('cost') && !lowerName.includes('timeline') && !lowerName.includes('critic'));
-        const isReport = lowerName.includes('output.report.json') || (lowerName.includes('report') && lowerName.endsWith('.json'));
-
-        if (isJsonl || isReport) {
-          const content = new TextDecoder('utf8').decode(data.slice(offset, offset + header.size));
-          
-          if (isJsonl && header.size > largestJsonlSize) {
-            jsonlContent = content;
-            largestJsonlSize = header.size;
-          }
-          if (isReport) {
-            try {
-              reportContent = JSON.parse(content);
-            } catch {
-              // Ignore malformed JSON in report
-            }
-          }
+        const copied = Math.min(BLOCK_SIZE - this.headerFilled, chunk.length - pos);
+        this.headerBlock.set(chunk.subarray(pos, pos + copied), this.headerFilled);
+        this.headerFilled += copied;
+        pos += copied;
+        if (this.headerFilled === BLOCK_SIZE) {
+          this.headerFilled = 0;
+          this.startMember();
         }
       }
+    }
+  }
 
-      offset += paddedSize;
+  /**
+   * Returns everything collected so far; a member truncated by the end of the stream is dropped
+   */
+  finish(): TarExtractionResult {
+    return this.collector.finish();
+  }
+
+  private startMember(): void {
+    const header = parseTarHeader(this.headerBlock);
+    if (header === null) {
+      // End-of-archive marker or a malformed header
+      this.ended = true;
+      return;
     }
 
-    // Early exit if we found both files with sufficient content
-    if (jsonlContent && reportContent && largestJsonlSize > 100000) {
-      break;
+    const kind = getMemberKind(header);
+    const isMetadata = kind === 'pax' || kind === 'pax-global' || kind === 'long-name';
+    let name = header.name;
+    let size = header.size;
+
+    if (!isMetadata) {
+      // Extended headers apply to the next real member only
+      name = this.pendingPax.path || this.pendingLongName || header.name;
+      size = this.pendingPax.size ?? header.size;
+      this.pendingPax = {};
+      this.pendingLongName = null;
+
+      if (kind === 'directory' && name) {
+        this.collector.addDirectory(name.replace(/\/$/, ''));
+      } else if (kind === 'file' && name && size === 0) {
+        this.collector.addFile(name, 0);
+      }
+    }
+
+    if (size > 0) {
+      const keep = (isMetadata && size <= MAX_METADATA_SIZE) || (kind === 'file' && !!name && this.collector.wantsContent(name, size));
+      this.member = {
+        kind,
+        name,
+        size,
+        remaining: size,
+        data: keep ? new Uint8Array(size) : null,
+        written: 0
+      };
+    }
+  }
+
+  private readMemberData(member: PendingMember, chunk: Uint8Array, pos: number): number {
+    const length = Math.min(member.remaining, chunk.length - pos);
+    if (member.data) {
+      member.data.set(chunk.subarray(pos, pos + length), member.written);
+    }
+    member.written += length;
+    member.remaining -= length;
+
+    if (member.remaining === 0) {
+      this.member = null;
+      this.paddingToSkip = Math.ceil(member.size / BLOCK_SIZE) * BLOCK_SIZE - member.size;
+      this.completeMember(member);
     }
+    return length;
   }
 
-  return { jsonlContent, reportContent };
+  private completeMember(member: PendingMember): void {
+    switch (member.kind) {
+      case 'long-name':
+        if (member.data) this.pendingLongName = decodeText(member.data).replace(/\0+$/, '');
+        break;
+      case 'pax':
+        if (member.data) this.pendingPax = toPaxOverrides(parsePaxRecords(member.data));
+        break;
+      case 'pax-global':
+        // Global headers only carry archive-wide defaults (charset, comments); a global
+        // path or size would apply to every member, so they are deliberately ignored
+        break;
+      case 'file':
+        if (member.name) {
+          this.collector.addFile(member.name, member.size, member.data ?? undefined);
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * Extract output.jsonl and output.report.json from a tar archive, and index
+ * every member so the rest of the archive can be browsed.
+ * Handles malformed entries gracefully.
+ */
+export function extractFromTar(data: Uint8Array): TarExtractionResult {
+  const parser = new TarStreamParser();
+  parser.push(data);
+  return parser.finish();
+}
+
+const toMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+
+/**
+ * Incremental gzip (or zlib) inflater for data that arrives in pieces, e.g. a download.
+ * Each decompressed chunk is handed to onChunk as it is produced, so the output
+ * never has to be held at once.
+ */
+export class GzipInflater {
+  private readonly inflator = new pako.Inflate();
+  private ended = false;
+  private inflatedBytes = 0;
+
+  constructor(onChunk: (chunk: Uint8Array) => void) {
+    this.inflator.onData = (data) => {
+      // Binary output, as no string conversion was asked for
+      const chunk = data as Uint8Array;
+      this.inflatedBytes += chunk.length;
+      if (this.inflatedBytes > MAX_INFLATED_SIZE) {
+        throw new Error(`Archive too large: more than ${MAX_INFLATED_SIZE / 1024 / 1024}MB once decompressed`);
+      }
+      onChunk(chunk);
+    };
+    // pako calls onEnd once the stream is complete or broken
+    const onEnd = this.inflator.onEnd.bind(this.inflator);
+    this.inflator.onEnd = (status) => {
+      this.ended = true;
+      onEnd(status);
+    };
+  }
+
+  /**
+   * Inflates the next piece of compressed data
+   * @throws If the data is not valid compressed data
+   */
+  push(data: Uint8Array): void {
+    for (let offset = 0; offset < data.length; offset += INFLATE_CHUNK_SIZE) {
+      this.inflator.push(data.subarray(offset, Math.min(offset + INFLATE_CHUNK_SIZE, data.length)));
+      if (this.inflator.err) {
+        throw new Error(`Failed to decompress archive: ${this.inflator.msg || 'invalid data'}`);
+      }
+    }
+  }
+
+  /**
+   * Checks that the compressed stream was complete
+   * @throws If the data stopped before the end of the stream
+   */
+  finish(): void {
+    if (!this.ended) {
+      throw new Error('Failed to decompress archive: unexpected end of data');
+    }
+  }
 }
 
 /**
- * Decompress and extract data from a tar.gz archive.
- * Validates size and throws for oversized files.
+ * Inflate gzip (or zlib) data in fixed-size chunks, handing each decompressed
+ * chunk to onChunk as it is produced so the output never has to be held at once.
+ * Throws if the data is not a complete compressed stream.
  */
-export async function decompressTarGz(data: Uint8Array): Promise<{ jsonlContent: string | null; reportContent: any | null }> {
+export function inflateStream(
+  data: Uint8Array,
+  onChunk: (chunk: Uint8Array) => void,
+  onProgress?: InflateProgressCallback
+): void {
+  if (data.length === 0) {
+    throw new Error('Archive is empty');
+  }
+
+  const inflater = new GzipInflater(onChunk);
+  for (let offset = 0; offset < data.length; offset += INFLATE_CHUNK_SIZE) {
+    const end = Math.min(offset + INFLATE_CHUNK_SIZE, data.length);
+    inflater.push(data.subarray(offset, end));
+    onProgress?.(end, data.length);
+  }
+  inflater.finish();
+}
+
+/**
+ * Inflate gzip (or zlib) data into a single buffer, reporting progress per chunk.
+ * Prefer inflateStream when the output can be consumed incrementally.
+ */
+export function inflateArchive(data: Uint8Array, onProgress?: InflateProgressCallback): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  inflateStream(data, chunk => {
+    chunks.push(chunk);
+    length += chunk.length;
+  }, onProgress);
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * Decompress and extract data from a tar.gz archive without materialising the
+ * decompressed tarball. Validates the compressed and decompressed sizes and
+ * throws for oversized files.
+ */
+export async function decompressTarGz(data: Uint8Array, onProgress?: InflateProgressCallback): Promise<TarExtractionResult> {
   if (data.length > MAX_ARCHIVE_SIZE) {
-    throw new Error(`Archive too large: ${(data.length / 1024 / 1024).toFixed(1)}MB exceeds ${MAX_ARCHIVE_SIZE / 1024 / 1024}MB limit`);
-  }
-  
-  let decompressed: Uint8Array;
-  try {
-    decompressed = pako.ungzip(data);
-  } catch {
-    decompressed = pako.inflate(data);
-  }
-  
-  return extractFromTar(decompressed);
-}
\ No newline at end of file
+    throw new Error(`Archive too large: ${toMB(data.length)}MB exceeds ${MAX_ARCHIVE_SIZE / 1024 / 1024}MB limit`);
+  }
+
+  const parser = new TarStreamParser();
+  inflateStream(data, chunk => parser.push(chunk), onProgress);
+  return parser.finish();
+}
+
+/**
+ * Decompress and extract a tar.gz archive as it arrives, e.g. straight from a
+ * download, so neither the compressed nor the decompressed data is held at once
+ * @param chunks The compressed data in order
+ * @param onProgress Called with the compressed bytes read so far
+ */
+export async function decompressTarGzStream(
+  chunks: AsyncIterable<Uint8Array>,
+  onProgress?: (bytesRead: number) => void
+): Promise<TarExtractionResult> {
+  const parser = new TarStreamParser();
+  const inflater = new GzipInflater(chunk => parser.push(chunk));
+  let bytesRead = 0;
+  for await (const chunk of chunks) {
+    bytesRead += chunk.length;
+    if (bytesRead > MAX_ARCHIVE_SIZE) {
+      throw new Error(`Archive too large: exceeds ${MAX_ARCHIVE_SIZE / 1024 / 1024}MB limit`);
+    }
+    inflater.push(chunk);
+    onProgress?.(bytesRead);
+  }
+  if (bytesRead === 0) {
+    throw new Error('Archive is empty');
+  }
+  inflater.finish();
+  return parser.finish();
+}
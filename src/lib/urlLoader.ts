@@ -0,0 +1,89 @@
+import { AppConfig, getAppConfig, getProxyUrl, isAllowedProxyTarget } from '../config/app-config';
+
+export type FetchPath = 'direct' | 'proxy';
+
+// What happened on one route to the file, for the messages shown after loading
+export interface FetchAttempt {
+  path: FetchPath;
+  outcome: 'ok' | 'failed' | 'skipped';
+  detail: string;
+}
+
+export interface UrlFetchResult {
+  response: Response;
+  path: FetchPath;
+  // The proxy URL the file came through, when path is 'proxy'
+  proxyUrl?: string;
+  attempts: FetchAttempt[];
+}
+
+interface FetchOptions {
+  signal?: AbortSignal;
+  accept?: string;
+  config?: AppConfig;
+}
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const fetchOk = async (url: string, headers: Record<string, string>, signal?: AbortSignal): Promise<Response> => {
+  const response = await fetch(url, { mode: 'cors', signal, headers });
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`.trim());
+  }
+  return response;
+};
+
+/**
+ * One line per attempt, e.g. "Direct request failed: Failed to fetch"
+ */
+export function describeAttempts(attempts: FetchAttempt[]): string {
+  return attempts.map(attempt => {
+    const route = attempt.path === 'direct' ? 'Direct request' : 'Proxy';
+    const outcome = attempt.outcome === 'ok' ? 'succeeded' : attempt.outcome === 'failed' ? 'failed' : 'not used';
+    return `${route} ${outcome}: ${attempt.detail}`;
+  }).join('\n');
+}
+
+/**
+ * Fetches a file directly and, if that fails, through the proxy from config.json.
+ * The proxy is only used when one is configured and the URL is on its allowlist,
+ * so private URLs never go to a proxy nobody opted in to. On failure the error
+ * message lists every attempt.
+ */
+export async function fetchWithProxyFallback(url: string, options: FetchOptions = {}): Promise<UrlFetchResult> {
+  const { signal, accept = '*/*', config = getAppConfig() } = options;
+  const attempts: FetchAttempt[] = [];
+
+  let directError: unknown;
+  try {
+    const response = await fetchOk(url, { 'Accept': accept }, signal);
+    attempts.push({ path: 'direct', outcome: 'ok', detail: url });
+    return { response, path: 'direct', attempts };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    directError = error;
+    attempts.push({ path: 'direct', outcome: 'failed', detail: errorMessage(error) });
+  }
+
+  const proxyUrl = getProxyUrl(url, config);
+  if (proxyUrl === null) {
+    attempts.push({ path: 'proxy', outcome: 'skipped', detail: 'no proxy is configured (proxy.url in config.json)' });
+  } else if (!isAllowedProxyTarget(url, config)) {
+    attempts.push({ path: 'proxy', outcome: 'skipped', detail: 'the URL does not match proxy.allowedPrefixes in config.json' });
+  } else {
+    console.log('Direct fetch failed, retrying through the proxy:', directError);
+    try {
+      const response = await fetchOk(proxyUrl, {
+        'Accept': accept,
+        'X-Requested-With': 'XMLHttpRequest' // Required by some CORS proxies
+      }, signal);
+      attempts.push({ path: 'proxy', outcome: 'ok', detail: config.proxy.url as string });
+      return { response, path: 'proxy', proxyUrl, attempts };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      attempts.push({ path: 'proxy', outcome: 'failed', detail: errorMessage(error) });
+    }
+  }
+
+  throw new Error(describeAttempts(attempts));
+}
@@ -0,0 +1,92 @@
+import JSZip from 'jszip';
+import { ExtractedArchive } from '../types/archive';
+import { ArchiveCollector } from './archive';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP64_EXTRA_ID = 0x0001;
+const MAX_U32 = 0xffffffff;
+
+// Where the central directory starts, from the end-of-central-directory record (zip64 aware)
+const findCentralDirectory = (view: DataView): number | undefined => {
+  // The record is 22 bytes plus a comment of up to 64KB
+  for (let eocd = view.byteLength - 22; eocd >= Math.max(0, view.byteLength - 22 - 0xffff); eocd--) {
+    if (view.getUint32(eocd, true) !== EOCD_SIGNATURE) continue;
+    const offset = view.getUint32(eocd + 16, true);
+    if (offset !== MAX_U32) return offset;
+    const locator = eocd - 20;
+    if (locator < 0 || view.getUint32(locator, true) !== ZIP64_LOCATOR_SIGNATURE) return undefined;
+    const zip64Eocd = Number(view.getBigUint64(locator + 8, true));
+    if (zip64Eocd + 56 > view.byteLength || view.getUint32(zip64Eocd, true) !== ZIP64_EOCD_SIGNATURE) return undefined;
+    return Number(view.getBigUint64(zip64Eocd + 48, true));
+  }
+  return undefined;
+};
+
+// A size too large for its 32-bit field is kept in the zip64 extra field instead
+const readZip64Size = (view: DataView, start: number, end: number): number | undefined => {
+  for (let field = start; field + 4 <= end;) {
+    const id = view.getUint16(field, true);
+    const length = view.getUint16(field + 2, true);
+    if (id === ZIP64_EXTRA_ID && length >= 8) return Number(view.getBigUint64(field + 4, true));
+    field += 4 + length;
+  }
+  return undefined;
+};
+
+/**
+ * Uncompressed member sizes from the zip's central directory, by member name.
+ * JSZip only gives a size once the member is inflated. Empty when the directory cannot be read.
+ */
+function readMemberSizes(data: Uint8Array): Map<string, number> {
+  const sizes = new Map<string, number>();
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder('utf8');
+  let header = findCentralDirectory(view);
+  while (header !== undefined && header + 46 <= view.byteLength && view.getUint32(header, true) === CENTRAL_HEADER_SIGNATURE) {
+    const nameLength = view.getUint16(header + 28, true);
+    const extraLength = view.getUint16(header + 30, true);
+    const commentLength = view.getUint16(header + 32, true);
+    const nameStart = header + 46;
+    const extraStart = nameStart + nameLength;
+    if (extraStart + extraLength > view.byteLength) break;
+
+    const name = decoder.decode(data.subarray(nameStart, extraStart));
+    const size = view.getUint32(header + 24, true);
+    const actualSize = size === MAX_U32 ? readZip64Size(view, extraStart, extraStart + extraLength) : size;
+    if (actualSize !== undefined) sizes.set(name, actualSize);
+    header = extraStart + extraLength + commentLength;
+  }
+  return sizes;
+}
+
+/**
+ * Extract output.jsonl and output.report.json from a zip archive, and index
+ * every member so the rest of the archive can be browsed.
+ */
+export async function extractFromZip(data: Uint8Array): Promise<ExtractedArchive> {
+  const zip = await JSZip.loadAsync(data);
+  const collector = new ArchiveCollector();
+  const sizes = readMemberSizes(data);
+
+  for (const file of Object.values(zip.files)) {
+    const path = file.name.replace(/\/$/, '');
+    if (file.dir) {
+      collector.addDirectory(path);
+      continue;
+    }
+
+    // Without a size from the central directory, read the member whenever it might be needed
+    const size = sizes.get(file.name);
+    if (collector.wantsContent(path, size ?? 1)) {
+      const content = await file.async('uint8array');
+      collector.addFile(path, content.length, content);
+    } else {
+      collector.addFile(path, size ?? 0);
+    }
+  }
+
+  return collector.finish();
+}
@@ -1,7 +1,37 @@
 import axios from 'axios';
 import JSZip from 'jszip';
+import { ArtifactManifest, OpenedArtifact } from '../types';
+import { openFileContent } from '../lib/openFile';
+import { getAppConfig } from '../config/app-config';
 
-const GITHUB_API = 'https://api.github.com';
+// Downloaded artifact zips, so picking another file does not download the artifact again
+const MAX_CACHED_ARTIFACTS = 3;
+const artifactZipCache = new Map<number, JSZip>();
+
+const loadArtifactZip = async (owner: string, repo: string, artifactId: number): Promise<JSZip> => {
+  const cached = artifactZipCache.get(artifactId);
+  if (cached) return cached;
+
+  const response = await axios.get(`${getAppConfig().githubApiUrl}/repos/${owner}/${repo}/actions/artifacts/${artifactId}/zip`, {
+    headers: getHeaders(),
+    responseType: 'arraybuffer'
+  });
+  const zip = await new JSZip().loadAsync(response.data);
+
+  if (artifactZipCache.size >= MAX_CACHED_ARTIFACTS) {
+    const oldest = artifactZipCache.keys().next().value;
+    if (oldest !== undefined) artifactZipCache.delete(oldest);
+  }
+  artifactZipCache.set(artifactId, zip);
+  return zip;
+};
+
+const buildManifest = (artifactId: number, zip: JSZip): ArtifactManifest => ({
+  artifactId,
+  files: Object.values(zip.files)
+    .filter(file => !file.dir)
+    .map(file => ({ path: file.name }))
+});
 
 // Helper function to get headers with token
 const getHeaders = () => {
@@ -14,7 +44,7 @@ const getHeaders = () => {
 export const api = {
   // Get user's repositories
   getRepositories: async () => {
-    const response = await axios.get(`${GITHUB_API}/user/repos`, {
+    const response = await axios.get(`${getAppConfig().githubApiUrl}/user/repos`, {
       headers: getHeaders(),
     });
     return response.data;
@@ -22,7 +52,7 @@ export const api = {
 
   // Get workflow runs for a specific repository
   getWorkflowRuns: async (owner: string, repo: string, page: number = 1) => {
-    const response = await axios.get(`${GITHUB_API}/repos/${owner}/${repo}/actions/runs`, {
+    const response = await axios.get(`${getAppConfig().githubApiUrl}/repos/${owner}/${repo}/actions/runs`, {
       headers: getHeaders(),
       params: {
         page,
@@ -34,7 +64,7 @@ export const api = {
 
   // Get details for a specific workflow run
   getRunDetails: async (owner: string, repo: string, runId: number) => {
-    const response = await axios.get(`${GITHUB_API}/repos/${owner}/${repo}/actions/runs/${runId}/jobs`, {
+    const response = await axios.get(`${getAppConfig().githubApiUrl}/repos/${owner}/${repo}/actions/runs/${runId}/jobs`, {
       headers: getHeaders(),
       params: {
         per_page: 100
@@ -42,12 +72,12 @@ export const api = {
     });
     
     // Get artifacts for this run
-    const artifactsResponse = await axios.get(`${GITHUB_API}/repos/${owner}/${repo}/actions/runs/${runId}/artifacts`, {
+    const artifactsResponse = await axios.get(`${getAppConfig().githubApiUrl}/repos/${owner}/${repo}/actions/runs/${runId}/artifacts`, {
       headers: getHeaders(),
     });
 
     // Get run details
-    const runResponse = await axios.get(`${GITHUB_API}/repos/${owner}/${repo}/actions/runs/${runId}`, {
+    const runResponse = await axios.get(`${getAppConfig().githubApiUrl}/repos/${owner}/${repo}/actions/runs/${runId}`, {
       headers: getHeaders(),
     });
 
@@ -58,52 +88,34 @@ export const api = {
     };
   },
 
-  // Get artifact content
-  getArtifactContent: async (owner: string, repo: string, artifactId: number) => {
-    const response = await axios.get(`${GITHUB_API}/repos/${owner}/${repo}/actions/artifacts/${artifactId}/zip`, {
-      headers: getHeaders(),
-      responseType: 'arraybuffer'
-    });
-    
-    // Load the zip file
-    const zip = new JSZip();
-    const contents = await zip.loadAsync(response.data);
-    
-    // Find the first file in the zip (GitHub artifacts typically contain one file)
-    const files = Object.keys(contents.files);
-    if (files.length === 0) {
+  // List every file in an artifact
+  getArtifactManifest: async (owner: string, repo: string, artifactId: number): Promise<ArtifactManifest> => {
+    const manifest = buildManifest(artifactId, await loadArtifactZip(owner, repo, artifactId));
+    if (manifest.files.length === 0) {
       throw new Error('No files found in artifact');
     }
-    
-    // Read the file content
-    const firstFile = contents.files[files[0]];
-    const text = await firstFile.async('text');
-    
-    try {
-      // Try to parse as JSON first
-      const jsonContent = JSON.parse(text);
-      
-      // Check if it's a history file (contains history field)
-      if (jsonContent.history) {
-        return {
-          content: jsonContent,
-          jsonlHistory: jsonContent.history
-        };
-      }
-      
-      // If no history found, return just the content
-      return { 
-        content: jsonContent,
-        jsonlHistory: []
-      };
-    } catch (jsonError) {
-      // If parsing fails, return empty content and history
-      console.warn('Failed to parse artifact content as JSON');
-      return {
-        content: { text },
-        jsonlHistory: []
-      };
+    return manifest;
+  },
+
+  // Open the first file of an artifact (GitHub artifacts typically contain one), with a manifest of every file in it
+  getArtifactContent: async (owner: string, repo: string, artifactId: number): Promise<OpenedArtifact> => {
+    const zip = await loadArtifactZip(owner, repo, artifactId);
+    const manifest = await api.getArtifactManifest(owner, repo, artifactId);
+
+    const path = manifest.files[0].path;
+    const data = await zip.files[path].async('blob');
+    manifest.files[0].size = data.size;
+    return { ...(await openFileContent(data, path)), manifest, path };
+  },
+
+  // Read one file from an artifact listed in its manifest
+  getArtifactFile: async (owner: string, repo: string, artifactId: number, path: string): Promise<Blob> => {
+    const zip = await loadArtifactZip(owner, repo, artifactId);
+    const file = zip.files[path];
+    if (!file || file.dir) {
+      throw new Error(`File not found in artifact: ${path}`);
     }
+    return file.async('blob');
   }
 };
 
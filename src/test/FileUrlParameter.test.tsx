@@ -0,0 +1,112 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import App from '../App';
+
+const mockResponse = (body: string, contentType: string) => {
+  const data = new TextEncoder().encode(body);
+  return {
+    ok: true,
+    headers: new Map([['content-type', contentType], ['content-length', String(data.length)]]),
+    arrayBuffer: () => Promise.resolve(data.buffer)
+  };
+};
+
+describe('fileUrl Parameter', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    Object.defineProperty(window, 'matchMedia', {
+      writable: true,
+      value: vi.fn().mockImplementation(query => ({
+        matches: false,
+        media: query,
+        onchange: null,
+        addListener: vi.fn(),
+        removeListener: vi.fn(),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        dispatchEvent: vi.fn(),
+      })),
+    });
+
+    Object.defineProperty(window, 'localStorage', {
+      value: {
+        getItem: vi.fn(),
+        setItem: vi.fn(),
+        removeItem: vi.fn(),
+        clear: vi.fn(),
+        length: 0,
+        key: vi.fn(),
+      },
+      writable: true,
+    });
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it('opens JSONL files in the evaluation viewer', async () => {
+    const jsonl = JSON.stringify({ instance_id: 'django__django-1', history: [] }) + '\n' +
+                  JSON.stringify({ instance_id: 'django__django-2', history: [] });
+    const fetchMock = vi.fn().mockResolvedValueOnce(mockResponse(jsonl, 'text/plain'));
+    global.fetch = fetchMock as typeof fetch;
+
+    const testUrl = 'https://static.example.com/nightly/output.jsonl';
+    render(
+      <MemoryRouter initialEntries={[`/?fileUrl=${encodeURIComponent(testUrl)}`]}>
+        <App router={false} />
+      </MemoryRouter>
+    );
+
+    await waitFor(() => {
+      expect(screen.getAllByText(/django__django-1/).length).toBeGreaterThan(0);
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(screen.getByRole('status')).toHaveTextContent('directly from static.example.com');
+  });
+
+  it('explains why no proxy was tried when the direct fetch fails', async () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const alertMock = vi.fn();
+    window.alert = alertMock;
+    const fetchMock = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    global.fetch = fetchMock as typeof fetch;
+
+    const testUrl = 'https://private.example.com/run/output.jsonl';
+    render(
+      <MemoryRouter initialEntries={[`/?fileUrl=${encodeURIComponent(testUrl)}`]}>
+        <App router={false} />
+      </MemoryRouter>
+    );
+
+    await waitFor(() => {
+      expect(alertMock).toHaveBeenCalledWith(expect.stringContaining('Proxy not used: no proxy is configured'));
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('reports files that are neither JSON nor JSONL', async () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const alertMock = vi.fn();
+    window.alert = alertMock;
+    global.fetch = vi.fn().mockResolvedValueOnce(mockResponse('not json', 'text/plain')) as typeof fetch;
+
+    const testUrl = 'https://static.example.com/nightly/notes.txt';
+    render(
+      <MemoryRouter initialEntries={[`/?fileUrl=${encodeURIComponent(testUrl)}`]}>
+        <App router={false} />
+      </MemoryRouter>
+    );
+
+    await waitFor(() => {
+      expect(alertMock).toHaveBeenCalledWith(expect.stringContaining('notes.txt is not valid JSON or JSONL'));
+    });
+
+    consoleErrorSpy.mockRestore();
+  });
+});
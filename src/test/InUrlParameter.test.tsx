@@ -2,6 +2,7 @@ import { render, waitFor } from '@testing-library/react';
 import { MemoryRouter } from 'react-router-dom';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import App from '../App';
+import { DEFAULT_APP_CONFIG, setAppConfig, validateAppConfig } from '../config/app-config';
 import pako from 'pako';
 
 // Helper to create a minimal tar.gz file containing output.jsonl
@@ -108,6 +109,7 @@ describe('inUrl Parameter', () => {
   });
 
   afterEach(() => {
+    setAppConfig(DEFAULT_APP_CONFIG);
     global.fetch = originalFetch;
     vi.restoreAllMocks();
   });
@@ -184,6 +186,31 @@ describe('inUrl Parameter', () => {
     consoleErrorSpy.mockRestore();
   });
 
+  it('should accept URLs allowed by config.json', async () => {
+    setAppConfig(validateAppConfig({
+      inUrl: { allowedPrefixes: ['https://bucket.example.org/evals/'], allowedSuffixes: ['.tar.gz'] }
+    }).config);
+
+    const tarGzData = createTarGz(JSON.stringify({ instance_id: 'test-1' }));
+    const fetchMock = vi.fn().mockResolvedValueOnce({
+      ok: true,
+      headers: new Map([['content-length', '1000']]),
+      arrayBuffer: () => Promise.resolve(tarGzData.buffer)
+    });
+    global.fetch = fetchMock as typeof fetch;
+
+    const testUrl = 'https://bucket.example.org/evals/nightly/run-42.tar.gz';
+    render(
+      <MemoryRouter initialEntries={[`/?inUrl=${encodeURIComponent(testUrl)}`]}>
+        <App router={false} />
+      </MemoryRouter>
+    );
+
+    await waitFor(() => {
+      expect(fetchMock).toHaveBeenCalledWith(testUrl, expect.objectContaining({ mode: 'cors' }));
+    });
+  });
+
   it('should reject URLs without required suffix', async () => {
     // Mock alert
     const alertMock = vi.fn();
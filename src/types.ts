@@ -1,3 +1,5 @@
+import { UploadContent } from './types/upload';
+
 export interface Repository {
   id: number;
   name: string;
@@ -66,6 +68,25 @@ export interface Artifact {
   expired: boolean;
 }
 
+// A file inside a downloaded artifact zip
+export interface ArtifactFile {
+  path: string;
+  // Known once the file has been opened; the zip listing does not give it
+  size?: number;
+}
+
+// Files contained in an artifact
+export interface ArtifactManifest {
+  artifactId: number;
+  files: ArtifactFile[];
+}
+
+// The first file of an artifact, opened the way uploads are
+export interface OpenedArtifact extends UploadContent {
+  manifest: ArtifactManifest;
+  path: string;
+}
+
 export interface RunDetails {
   run: WorkflowRun;
   jobs: {
@@ -0,0 +1,21 @@
+// Types for archives loaded into the viewer (e.g. results.tar.gz)
+
+export interface ArchiveEntry {
+  path: string;
+  size: number;
+  type: 'file' | 'directory';
+  // Whether the member's bytes were kept in memory and can be opened
+  retained: boolean;
+}
+
+export interface LoadedArchive {
+  entries: ArchiveEntry[];
+  files: Map<string, Uint8Array>;
+}
+
+// Evaluation output found in an archive, plus the index of all its members
+export interface ExtractedArchive {
+  jsonlContent: string | null;
+  reportContent: any | null;
+  archive: LoadedArchive;
+}
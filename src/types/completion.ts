@@ -0,0 +1,56 @@
+// Types for LLM completion logs (one OpenAI/LiteLLM-style request and response per record)
+
+export interface CompletionToolCall {
+  id: string;
+  type?: string;
+  function: {
+    name: string;
+    // JSON-encoded by the provider
+    arguments: string;
+  };
+}
+
+export interface CompletionMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool' | string;
+  content?: unknown;
+  reasoning_content?: string;
+  tool_calls?: CompletionToolCall[];
+  tool_call_id?: string;
+  name?: string;
+}
+
+export interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  // Anthropic prompt caching, as reported through LiteLLM
+  cache_read_input_tokens?: number;
+}
+
+export interface CompletionResponse {
+  model?: string;
+  choices?: { message?: CompletionMessage }[];
+  usage?: CompletionUsage;
+}
+
+export interface CompletionRecord {
+  messages: CompletionMessage[];
+  response: CompletionResponse;
+  // Request options; tools holds the function definitions sent with the call
+  kwargs?: { tools?: unknown[]; [key: string]: unknown };
+  // Seconds since the epoch
+  timestamp?: number | string;
+  cost?: number;
+  // Native function-calling form, logged when tool calls were emulated in the prompt
+  fncall_messages?: CompletionMessage[];
+  fncall_response?: CompletionResponse;
+}
+
+// Token counts attached to the trajectory step produced by one LLM call
+export interface StepUsage {
+  model?: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cache_read_tokens: number;
+  cost?: number;
+}
@@ -0,0 +1,100 @@
+import { StepUsage } from './completion';
+
+// One model for the events of every trajectory format. Formats produce items in
+// one of a few dialects (legacy OpenHands, agent SDK, sample entries); the
+// adapters in src/events turn each item into a NormalizedEvent for rendering.
+
+export type EventKind =
+  | 'message'
+  | 'thought'
+  | 'action'
+  | 'observation'
+  | 'error'
+  | 'finish'
+  | 'state'
+  | 'system'
+  | 'context'
+  // The history was condensed: older events no longer reach the LLM
+  | 'condensation'
+  | 'unknown';
+
+export type EventActor = 'user' | 'agent' | 'environment';
+
+// The item shape an event was read from
+export type EventDialect = 'openhands' | 'agent-sdk' | 'sample' | 'unknown';
+
+export interface NormalizedEvent {
+  // Unique within the trajectory, for React keys and links between events
+  key: string;
+  // Id from the source, if it had one
+  id?: string | number;
+  kind: EventKind;
+  actor: EventActor;
+  timestamp?: string;
+  // Id of the action an observation answers (legacy `cause`)
+  cause?: string | number;
+  // Tool call id that links function-calling actions and observations
+  toolCallId?: string;
+  // Id of the event that spawned this one, e.g. a delegate action
+  parent?: string | number;
+  toolName?: string;
+  args?: Record<string, any>;
+  // Message, thought or system prompt text
+  text?: string;
+  // Observation or error output
+  output?: string;
+  metrics?: StepUsage;
+  // Bookkeeping events the timeline skips, e.g. null observations
+  hidden?: boolean;
+  dialect: EventDialect;
+  raw: any;
+}
+
+// Raw item shapes, with the fields the adapters read. Items come from files,
+// so every field is optional and checked before use.
+
+// Legacy OpenHands history item: { action, args } or { observation, content, extras }
+export interface OpenHandsItem {
+  id?: string | number;
+  source?: string;
+  timestamp?: string;
+  action?: string;
+  args?: Record<string, any>;
+  observation?: string;
+  content?: unknown;
+  extras?: Record<string, any>;
+  message?: string;
+  cause?: string | number | null;
+  tool_call_metadata?: {
+    function_name?: string;
+    tool_call_id?: string;
+    model_response?: { model?: string; usage?: unknown };
+  };
+}
+
+// Agent SDK (V1) event, told apart by kind or by the fields it carries
+export interface AgentSdkItem {
+  id?: string | number;
+  kind?: string;
+  source?: string;
+  timestamp?: string;
+  usage?: StepUsage;
+  // Environment and state update events
+  key?: string;
+  value?: any;
+  system_prompt?: unknown;
+  tools?: unknown[];
+  llm_message?: { content?: unknown };
+  thought?: unknown;
+  reasoning_content?: string;
+  summary?: string | null;
+  tool_name?: string;
+  tool_call_id?: string;
+  action?: Record<string, any>;
+  tool_call?: Record<string, any>;
+  observation?: unknown;
+  action_id?: string;
+  forgotten_event_ids?: (string | number)[] | null;
+  summary_offset?: number | null;
+  error?: string;
+}
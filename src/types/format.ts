@@ -0,0 +1,36 @@
+// Types for trajectory format detection
+
+import { ExtractedArchive } from './archive';
+import { UploadContent } from './upload';
+
+// What a file turned into once decompressed, extracted and parsed
+export type FormatInput =
+  | { kind: 'json'; data: any }
+  // The file stays a blob for the worker; only its start is decoded, for detection
+  | { kind: 'jsonl'; data: Blob; sample: string; truncated: boolean }
+  | { kind: 'archive'; archive: ExtractedArchive };
+
+export interface TrajectoryFormat {
+  id: string;
+  label: string;
+  // 0 when the format does not apply, up to 1 for an unambiguous match
+  detect: (input: FormatInput) => number;
+  // Converts the input into content the viewers understand
+  adapt: (input: FormatInput) => UploadContent['content'];
+}
+
+export interface FormatCandidate {
+  id: string;
+  label: string;
+  confidence: number;
+}
+
+export interface FormatDetection {
+  formatId: string;
+  confidence: number;
+  // Every format that matched, best first; the user may switch between them
+  candidates: FormatCandidate[];
+  // Kept so the content can be re-adapted when the user overrides the format
+  input: FormatInput;
+  overridden: boolean;
+}
@@ -0,0 +1,27 @@
+// Types shared between the loader worker and the main thread
+
+import { JsonlEntry } from '../utils/jsonl-parser';
+import { TarExtractionResult } from '../lib/tarExtractor';
+import { LoadedFile } from '../lib/fileLoader';
+
+export type LoadPhase = 'downloading' | 'decompressing' | 'extracting' | 'parsing';
+
+export interface LoadProgress {
+  phase: LoadPhase;
+  bytesProcessed: number;
+  totalBytes?: number;
+  lines?: number;
+}
+
+export type LoaderRequest =
+  | { type: 'parse-jsonl'; data: Blob }
+  | { type: 'fetch-archive'; url: string }
+  | { type: 'load-file'; data: Blob; fileName?: string };
+
+export type LoaderResult = TarExtractionResult | LoadedFile | null;
+
+export type LoaderMessage =
+  | { type: 'progress'; progress: LoadProgress }
+  | { type: 'entries'; entries: JsonlEntry[] }
+  | { type: 'done'; result: LoaderResult }
+  | { type: 'error'; message: string };
@@ -0,0 +1,15 @@
+// Types for the trajectory event card registry
+
+import type { ReactNode } from 'react';
+import { EventKind, NormalizedEvent } from './event';
+
+export interface EventRenderer {
+  id: string;
+  // Event kinds the renderer is considered for
+  kinds: EventKind[];
+  // Among renderers that match an event, the highest priority wins; ties keep registration order
+  priority: number;
+  // Whether the renderer can show this event, usually a guard on event.raw
+  matches: (event: NormalizedEvent) => boolean;
+  render: (event: NormalizedEvent) => ReactNode;
+}
@@ -139,6 +139,8 @@ export interface FinishAction {
     thought?: string;
     final_thought?: string;
     task_completed?: string;
+    // Why the agent stopped, as the source format reported it, e.g. SWE-agent's "submitted (exit_cost)"
+    exit_status?: string;
   };
 }
 
@@ -231,4 +233,196 @@ export interface ThinkObservation {
   tool_call_metadata?: Record<string, any>;
 }
 
-export type TrajectoryItem = AgentStateChange | UserMessage | AssistantMessage | CommandAction | CommandObservation | IPythonAction | IPythonObservation | FinishAction | Config | ErrorObservation | NullObservation | ReadAction | ReadObservation | EditAction | EditObservation | ThinkAction | ThinkObservation;
\ No newline at end of file
+// str_replace_editor style edit: the tool's command with the strings it was given
+export interface StrReplaceEditAction {
+  id: number;
+  action: "edit";
+  message: string;
+  source: "agent";
+  timestamp: string;
+  args: {
+    path: string;
+    command: "view" | "create" | "str_replace" | "insert" | "undo_edit";
+    file_text?: string | null;
+    old_str?: string | null;
+    new_str?: string | null;
+    insert_line?: number | null;
+    view_range?: number[] | null;
+    impl_source?: string;
+    thought?: string;
+  };
+  tool_call_metadata?: Record<string, any>;
+}
+
+export interface BrowseAction {
+  id: number;
+  action: "browse";
+  message: string;
+  source: "agent";
+  timestamp: string;
+  args: {
+    url: string;
+    thought?: string;
+  };
+  tool_call_metadata?: Record<string, any>;
+}
+
+export interface BrowseInteractiveAction {
+  id: number;
+  action: "browse_interactive";
+  message: string;
+  source: "agent";
+  timestamp: string;
+  args: {
+    browser_actions: string;
+    browsergym_send_msg_to_user?: string;
+    thought?: string;
+  };
+  tool_call_metadata?: Record<string, any>;
+}
+
+// Answers both browse and browse_interactive actions
+export interface BrowseObservation {
+  id: number;
+  cause: number;
+  observation: "browse";
+  message: string;
+  content: string;
+  source: "agent" | "environment";
+  timestamp: string;
+  extras: {
+    url: string;
+    screenshot?: string;
+    error?: boolean;
+    last_browser_action?: string;
+    last_browser_action_error?: string;
+    focused_element_bid?: string;
+    trigger_by_action?: string;
+    [key: string]: unknown;
+  };
+  tool_call_metadata?: Record<string, any>;
+}
+
+export interface DelegateAction {
+  id: number;
+  action: "delegate";
+  message: string;
+  source: "agent";
+  timestamp: string;
+  args: {
+    agent: string;
+    inputs: Record<string, unknown>;
+    thought?: string;
+  };
+}
+
+export interface DelegateObservation {
+  id: number;
+  cause: number;
+  observation: "delegate";
+  message: string;
+  content: string;
+  source: "agent" | "environment";
+  timestamp: string;
+  extras: {
+    outputs: Record<string, unknown>;
+  };
+}
+
+export interface RecallAction {
+  id: number;
+  action: "recall";
+  message: string;
+  source: "user" | "agent";
+  timestamp: string;
+  args: {
+    query: string;
+    recall_type: "workspace_context" | "knowledge" | string;
+    thought?: string;
+  };
+}
+
+export interface MicroagentKnowledge {
+  name: string;
+  trigger: string;
+  content: string;
+}
+
+export interface RecallObservation {
+  id: number;
+  cause: number;
+  observation: "recall";
+  message: string;
+  content: string;
+  source: "agent" | "environment";
+  timestamp: string;
+  extras: {
+    recall_type: string;
+    repo_name?: string;
+    repo_directory?: string;
+    repo_instructions?: string;
+    runtime_hosts?: Record<string, number>;
+    additional_agent_instructions?: string;
+    date?: string;
+    microagent_knowledge?: MicroagentKnowledge[];
+  };
+}
+
+// Written when the condenser drops events from the LLM's view of the history
+export interface CondensationAction {
+  id: number;
+  action: "condensation";
+  message: string;
+  source: "agent";
+  timestamp: string;
+  args: {
+    forgotten_event_ids?: number[] | null;
+    forgotten_events_start_id?: number | null;
+    forgotten_events_end_id?: number | null;
+    summary?: string | null;
+    summary_offset?: number | null;
+  };
+}
+
+// The action type is call_tool_mcp; older trajectories wrote mcp
+export interface MCPAction {
+  id: number;
+  action: "call_tool_mcp" | "mcp";
+  message: string;
+  source: "agent";
+  timestamp: string;
+  args: {
+    name: string;
+    arguments: Record<string, unknown>;
+    thought?: string;
+  };
+  tool_call_metadata?: Record<string, any>;
+}
+
+export interface MCPObservation {
+  id: number;
+  cause: number;
+  observation: "mcp";
+  message: string;
+  content: string;
+  source: "agent" | "environment";
+  timestamp: string;
+  extras: {
+    name?: string;
+    arguments?: Record<string, unknown>;
+  };
+  tool_call_metadata?: Record<string, any>;
+}
+
+// Entry in a sample-trajectory.json style timeline: { entries: [...] }
+export interface SampleEntry {
+  id?: number;
+  timestamp?: string;
+  type: "message" | "thought" | "command";
+  actorType: "User" | "Assistant" | "System";
+  content?: string;
+  command?: string;
+  path?: string;
+}
+
+export type TrajectoryItem = AgentStateChange | UserMessage | AssistantMessage | CommandAction | CommandObservation | IPythonAction | IPythonObservation | FinishAction | Config | ErrorObservation | NullObservation | ReadAction | ReadObservation | EditAction | EditObservation | ThinkAction | ThinkObservation | StrReplaceEditAction | BrowseAction | BrowseInteractiveAction | BrowseObservation | DelegateAction | DelegateObservation | RecallAction | RecallObservation | CondensationAction | MCPAction | MCPObservation | SampleEntry;
\ No newline at end of file
@@ -1,7 +1,11 @@
 // Types for uploaded content
 
+import { LoadedArchive } from './archive';
+import { FormatDetection } from './format';
+
 export interface JsonlUploadContent {
-  jsonlContent: string;
+  // Parsed by the JSONL viewer in a worker
+  jsonlContent: Blob;
   fileType: 'jsonl';
 }
 
@@ -11,12 +15,21 @@ export interface TrajectoryUploadContent {
   trajectory?: any; // For backward compatibility
 }
 
+// JSON that is not a trajectory, e.g. a run summary artifact; shown as run and artifact details
+export interface JsonUploadContent {
+  data: any;
+  fileType: 'json';
+}
+
 export interface FullArchiveUploadContent {
-  jsonlContent: string;
+  jsonlContent: Blob;
   reportContent?: any;
+  archive?: LoadedArchive;
   fileType: 'full_archive';
 }
 
 export type UploadContent = {
-  content: JsonlUploadContent | TrajectoryUploadContent | FullArchiveUploadContent;
+  content: JsonlUploadContent | TrajectoryUploadContent | FullArchiveUploadContent | JsonUploadContent;
+  // How the content was recognised; absent for content built before detection ran
+  detection?: FormatDetection;
 };
\ No newline at end of file
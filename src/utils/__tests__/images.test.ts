@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { elideDataUrls, getDataUrlSize, imageUrlsFromContent, toImageSrc } from '../images';
+
+describe('image helpers', () => {
+  it('collects images from every content part style', () => {
+    const content = [
+      { type: 'text', text: 'Look at this' },
+      { type: 'image_url', image_url: { url: 'https://example.com/a.png' } },
+      { type: 'image', image_urls: ['data:image/png;base64,AAAA'] },
+      { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: 'BBBB' } }
+    ];
+
+    expect(imageUrlsFromContent(content)).toEqual([
+      'https://example.com/a.png',
+      'data:image/png;base64,AAAA',
+      'data:image/jpeg;base64,BBBB'
+    ]);
+    expect(imageUrlsFromContent('plain text')).toEqual([]);
+  });
+
+  it('treats bare base64 as a PNG and leaves URLs alone', () => {
+    expect(toImageSrc('iVBORw0KGgo=')).toBe('data:image/png;base64,iVBORw0KGgo=');
+    expect(toImageSrc('https://example.com/a.png')).toBe('https://example.com/a.png');
+  });
+
+  it('measures the decoded size of a data URL', () => {
+    // "hello" is aGVsbG8= in base64
+    expect(getDataUrlSize('data:text/plain;base64,aGVsbG8=')).toBe(5);
+    expect(getDataUrlSize('https://example.com/a.png')).toBeUndefined();
+  });
+
+  it('shortens long data URLs in JSON', () => {
+    const screenshot = `data:image/png;base64,${'A'.repeat(4000)}`;
+    const json = JSON.stringify({ extras: { screenshot, url: 'https://example.com' } }, elideDataUrls);
+
+    expect(json).toContain('"data:image/png;base64,… (2.9 KB)"');
+    expect(json).toContain('https://example.com');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { JsonlStreamParser, getJsonlDiagnostics, parseJsonlFile, readJsonlLine } from '../jsonl-parser';
+import { parseJsonlOffThread } from '../../lib/loaderClient';
+
+const line = (instanceId: string) => JSON.stringify({ instance_id: instanceId, history: [] });
+
+describe('JsonlStreamParser', () => {
+  it('joins lines split across chunk boundaries', () => {
+    const content = `${line('a')}\n${line('b')}\n${line('c')}`;
+    const parser = new JsonlStreamParser();
+    const entries = [];
+    for (let i = 0; i < content.length; i += 7) {
+      entries.push(...parser.push(content.slice(i, i + 7)));
+    }
+    entries.push(...parser.flush());
+
+    expect(entries.map(entry => entry.instance_id)).toEqual(['a', 'b', 'c']);
+    expect(parser.linesParsed).toBe(3);
+  });
+
+  it('skips blank lines and keeps numbering consistent with parseJsonlFile', () => {
+    const content = `${line('a')}\n\n   \nnot json\n${line('b')}\n`;
+    const parser = new JsonlStreamParser();
+    const streamed = [...parser.push(content), ...parser.flush()];
+
+    expect(streamed).toEqual(parseJsonlFile(content));
+    // Line numbers count blank lines, so they match the file
+    expect(streamed[1]).toMatchObject({ history: [], error: 'Failed to parse line 4', _diagnostic: { line: 4, kind: 'invalid-json' } });
+  });
+});
+
+describe('JSONL diagnostics', () => {
+  it('reports truncated, invalid and history-less lines with their positions', () => {
+    const truncated = line('c').slice(0, 20);
+    const content = [line('a'), '{"instance_id": "b" "history": []}', truncated, '{"instance_id": "d"}', '42'].join('\n');
+    const diagnostics = getJsonlDiagnostics(parseJsonlFile(content));
+
+    expect(diagnostics.map(diagnostic => [diagnostic.line, diagnostic.kind])).toEqual([
+      [2, 'invalid-json'],
+      [3, 'truncated'],
+      [4, 'missing-history'],
+      [5, 'not-an-object']
+    ]);
+    expect(diagnostics[0].position).toBe(20);
+    expect(diagnostics[0].snippet).toBe('{"instance_id": "b" "history": []}');
+    expect(diagnostics[1].position).toBe(truncated.length);
+  });
+
+  it('keeps snippets short for long lines', () => {
+    const long = `{"instance_id": "a", "history": [${'1,'.repeat(500)}}`;
+    const [diagnostic] = getJsonlDiagnostics(parseJsonlFile(long));
+
+    expect(diagnostic.snippet.length).toBeLessThanOrEqual(120);
+    expect(diagnostic.snippetStart + diagnostic.snippet.length).toBeGreaterThan(diagnostic.position ?? 0);
+  });
+
+  it('reads raw lines by line number', async () => {
+    const content = new Blob([`${line('a')}\r\n\nbroken\n`]);
+    expect(await readJsonlLine(content, 3)).toBe('broken');
+    expect(await readJsonlLine(content, 1)).toBe(line('a'));
+    expect(await readJsonlLine(content, 9)).toBeUndefined();
+  });
+});
+
+describe('parseJsonlOffThread', () => {
+  it('parses content and reports progress without a worker', async () => {
+    const progress: number[] = [];
+    const result = await parseJsonlOffThread(new Blob([`${line('a')}\n${line('b')}`]), {
+      onProgress: p => progress.push(p.lines ?? 0)
+    });
+
+    expect(result.cancelled).toBe(false);
+    expect(result.entries).toHaveLength(2);
+    expect(progress[progress.length - 1]).toBe(2);
+  });
+
+  it('returns no entries when cancelled before starting', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const result = await parseJsonlOffThread(new Blob([line('a')]), { signal: controller.signal });
+
+    expect(result).toEqual({ entries: [], cancelled: true });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { getReportStatus, summarizeEvalReport, summarizeInstanceReport } from '../report';
+
+describe('summarizeEvalReport', () => {
+  const report = {
+    total_instances: 5,
+    resolved_ids: ['a', 'b'],
+    unresolved_ids: ['c'],
+    empty_patch_ids: ['d'],
+    error_ids: ['e', 'a']
+  };
+
+  it('maps instance ids to their status', () => {
+    const summary = summarizeEvalReport(report);
+    expect(getReportStatus(summary, 'b')).toBe('resolved');
+    expect(getReportStatus(summary, 'c')).toBe('unresolved');
+    expect(getReportStatus(summary, 'd')).toBe('empty_patch');
+    expect(getReportStatus(summary, 'e')).toBe('error');
+    expect(getReportStatus(summary, 'missing')).toBeNull();
+  });
+
+  it('prefers resolved over other statuses for the same instance', () => {
+    const summary = summarizeEvalReport(report);
+    expect(getReportStatus(summary, 'a')).toBe('resolved');
+    expect(summary?.counts).toEqual({ resolved: 2, unresolved: 1, empty_patch: 1, error: 1 });
+  });
+
+  it('computes the resolve rate against total_instances', () => {
+    expect(summarizeEvalReport(report)?.resolveRate).toBeCloseTo(0.4);
+  });
+
+  it('supports legacy lists without the _ids suffix', () => {
+    const summary = summarizeEvalReport({ resolved: [1], unresolved: [2] });
+    expect(getReportStatus(summary, 1)).toBe('resolved');
+    expect(summary?.totalInstances).toBe(2);
+  });
+
+  it('returns null for reports without instance lists', () => {
+    expect(summarizeEvalReport({ total: 10, passed: 8 })).toBeNull();
+    expect(summarizeEvalReport(null)).toBeNull();
+  });
+});
+
+describe('summarizeInstanceReport', () => {
+  it('lists passing and failing tests per group', () => {
+    const report = {
+      'django__django-1': {
+        resolved: false,
+        patch_successfully_applied: true,
+        tests_status: {
+          FAIL_TO_PASS: { success: [], failure: ['test_a'] },
+          PASS_TO_PASS: { success: ['test_b'], failure: [] }
+        }
+      }
+    };
+    expect(summarizeInstanceReport(report, 'django__django-1')).toEqual({
+      resolved: false,
+      patchApplied: true,
+      groups: [
+        { name: 'FAIL_TO_PASS', success: [], failure: ['test_a'] },
+        { name: 'PASS_TO_PASS', success: ['test_b'], failure: [] }
+      ]
+    });
+  });
+
+  it('returns null when the instance is missing', () => {
+    expect(summarizeInstanceReport({ other: {} }, 'django__django-1')).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isEditAction,
+  isMCPAction,
+  isSampleCommand,
+  isSampleEntry,
+  isSampleMessage,
+  isSampleThought,
+  isStrReplaceEditAction,
+  isUserMessage
+} from '../share';
+import { TrajectoryItem } from '../../types/share';
+
+describe('sample entry guards', () => {
+  const message = { id: 1, type: 'message', content: 'Hello', actorType: 'User' } as TrajectoryItem;
+  const thought = { id: 2, type: 'thought', content: 'Thinking', actorType: 'Assistant' } as TrajectoryItem;
+  const command = { id: 3, type: 'command', content: 'Linting', command: 'npm run lint', actorType: 'Assistant' } as TrajectoryItem;
+
+  it('matches each entry type', () => {
+    expect(isSampleMessage(message)).toBe(true);
+    expect(isSampleThought(thought)).toBe(true);
+    expect(isSampleCommand(command)).toBe(true);
+    expect(isSampleMessage(command)).toBe(false);
+  });
+
+  it('does not match OpenHands events', () => {
+    const event = { id: 1, action: 'message', source: 'user', args: { content: 'Hello' } } as unknown as TrajectoryItem;
+    expect(isSampleEntry(event)).toBe(false);
+    expect(isUserMessage(event)).toBe(true);
+  });
+});
+
+describe('legacy OpenHands guards', () => {
+  it('tells str_replace_editor edits from whole-file edits', () => {
+    const replace = { id: 1, action: 'edit', source: 'agent', args: { path: 'a.py', command: 'str_replace', old_str: 'a', new_str: 'b' } } as TrajectoryItem;
+    const whole = { id: 2, action: 'edit', source: 'agent', args: { path: 'a.py', old_content: 'a', new_content: 'b' } } as TrajectoryItem;
+
+    expect(isEditAction(replace)).toBe(true);
+    expect(isStrReplaceEditAction(replace)).toBe(true);
+    expect(isStrReplaceEditAction(whole)).toBe(false);
+  });
+
+  it('matches both names of the MCP action', () => {
+    const current = { id: 1, action: 'call_tool_mcp', source: 'agent', args: { name: 'fetch', arguments: {} } } as TrajectoryItem;
+    const older = { id: 2, action: 'mcp', source: 'agent', args: { name: 'fetch', arguments: {} } } as TrajectoryItem;
+
+    expect(isMCPAction(current)).toBe(true);
+    expect(isMCPAction(older)).toBe(true);
+  });
+});
@@ -0,0 +1,43 @@
+const TEXT_CHUNK_SIZE = 1024 * 1024; // bytes per read
+
+// Blob.arrayBuffer is missing in older browsers and in jsdom
+export const readBlob = (blob: Blob): Promise<ArrayBuffer> => {
+  if (typeof blob.arrayBuffer === 'function') return blob.arrayBuffer();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+    reader.readAsArrayBuffer(blob);
+  });
+};
+
+export interface TextChunk {
+  text: string;
+  // Bytes of the blob read so far, this chunk included
+  bytesRead: number;
+}
+
+/**
+ * Decodes a blob as UTF-8 one chunk at a time, so the whole text is never held at once.
+ * Characters split across chunk boundaries are carried over to the next chunk.
+ */
+export async function* readTextChunks(blob: Blob, chunkSize = TEXT_CHUNK_SIZE): AsyncGenerator<TextChunk> {
+  const decoder = new TextDecoder('utf8');
+  for (let offset = 0; offset < blob.size; offset += chunkSize) {
+    const end = Math.min(offset + chunkSize, blob.size);
+    const bytes = await readBlob(blob.slice(offset, end));
+    yield { text: decoder.decode(bytes, { stream: true }), bytesRead: end };
+  }
+  const rest = decoder.decode();
+  if (rest) yield { text: rest, bytesRead: blob.size };
+}
+
+/**
+ * Decodes the start of a blob as UTF-8, dropping a character cut off at the end
+ * @param size How many bytes to read at most
+ */
+export async function readTextPrefix(blob: Blob, size: number): Promise<string> {
+  const bytes = await readBlob(blob.slice(0, size));
+  return new TextDecoder('utf8').decode(bytes, { stream: blob.size > size });
+}
+
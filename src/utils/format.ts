@@ -0,0 +1,20 @@
+/**
+ * Formats a byte count as a human readable size
+ * Examples: 512 -> "512 B", 1536 -> "1.5 KB", 314572800 -> "300.0 MB"
+ *
+ * @param bytes The number of bytes
+ * @returns The formatted size
+ */
+export function formatBytes(bytes: number): string {
+  if (!Number.isFinite(bytes) || bytes < 0) return 'N/A';
+  if (bytes < 1024) return `${bytes} B`;
+
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
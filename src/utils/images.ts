@@ -0,0 +1,63 @@
+import { formatBytes } from './format';
+
+// Images above this size are not decoded until their thumbnail scrolls into view
+export const LAZY_IMAGE_BYTES = 256 * 1024;
+
+// Data URLs longer than this are shortened in JSON views
+const ELIDE_DATA_URL_LENGTH = 1000;
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * Turns an image reference into something an <img> can load. Screenshots are
+ * sometimes stored as bare base64, which is assumed to be PNG.
+ */
+export function toImageSrc(value: string): string {
+  if (/^(data:|https?:|blob:|\/)/.test(value)) return value;
+  return BASE64_PATTERN.test(value.slice(0, 200)) ? `data:image/png;base64,${value}` : value;
+}
+
+/**
+ * Decoded size of a base64 data URL, or undefined for other URLs
+ */
+export function getDataUrlSize(url: string): number | undefined {
+  const match = /^data:[^,]*;base64,/.exec(url);
+  if (!match) return undefined;
+  const length = url.length - match[0].length;
+  const padding = url.endsWith('==') ? 2 : url.endsWith('=') ? 1 : 0;
+  return Math.max(0, Math.floor(length * 3 / 4) - padding);
+}
+
+/**
+ * Image URLs in message content parts: OpenAI image_url parts, agent SDK
+ * image parts with image_urls, and Anthropic base64 image sources
+ */
+export function imageUrlsFromContent(content: unknown): string[] {
+  if (!Array.isArray(content)) return [];
+  const urls: string[] = [];
+  for (const part of content) {
+    if (part?.type === 'image_url') {
+      const url = typeof part.image_url === 'string' ? part.image_url : part.image_url?.url;
+      if (typeof url === 'string') urls.push(url);
+    } else if (part?.type === 'image') {
+      if (Array.isArray(part.image_urls)) {
+        urls.push(...part.image_urls.filter((url: unknown): url is string => typeof url === 'string'));
+      } else if (part.source?.type === 'base64' && typeof part.source.data === 'string') {
+        urls.push(`data:${part.source.media_type ?? 'image/png'};base64,${part.source.data}`);
+      }
+    }
+  }
+  return urls;
+}
+
+/**
+ * JSON.stringify replacer that shortens embedded data URLs, so screenshots do not
+ * turn a JSON view into megabytes of base64
+ */
+export function elideDataUrls(_key: string, value: unknown): unknown {
+  if (typeof value === 'string' && value.length > ELIDE_DATA_URL_LENGTH && value.startsWith('data:')) {
+    const size = getDataUrlSize(value);
+    return `${value.slice(0, value.indexOf(',') + 1)}… (${size === undefined ? `${value.length} characters` : formatBytes(size)})`;
+  }
+  return value;
+}
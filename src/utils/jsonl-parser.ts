@@ -1,4 +1,5 @@
 import { TrajectoryData } from '../types/trajectory';
+import { readTextChunks } from './blob';
 
 export type JsonlEntry = TrajectoryData;
 
@@ -7,29 +8,198 @@ export interface ParsedJsonlResult {
   currentIndex: number;
 }
 
+export type JsonlDiagnosticKind = 'invalid-json' | 'truncated' | 'not-an-object' | 'missing-history';
+
+// A malformed or suspicious line, attached to its entry as _diagnostic
+export interface JsonlDiagnostic {
+  kind: JsonlDiagnosticKind;
+  // One-based line number in the file, blank lines included
+  line: number;
+  message: string;
+  // Character offset in the line where JSON.parse gave up
+  position?: number;
+  // Raw text around the position (or the start of the line), starting at snippetStart
+  snippet: string;
+  snippetStart: number;
+  lineLength: number;
+}
+
+const SNIPPET_RADIUS = 60;
+
+const makeSnippet = (line: string, position = 0): Pick<JsonlDiagnostic, 'snippet' | 'snippetStart'> => {
+  const snippetStart = Math.max(0, Math.min(position, line.length) - SNIPPET_RADIUS);
+  return { snippet: line.slice(snippetStart, snippetStart + SNIPPET_RADIUS * 2), snippetStart };
+};
+
+// Where JSON.parse failed: V8 reports "at position N", or "end of JSON input" for cut-off text
+const getErrorPosition = (message: string, line: string): number | undefined => {
+  const match = /at position (\d+)/.exec(message);
+  if (match) return Number(match[1]);
+  if (/end of (JSON|data)/i.test(message)) return line.length;
+  return undefined;
+};
+
+/**
+ * Describes why a line failed to parse. Lines that stop mid-value, as left
+ * by killed eval workers, are reported as truncated.
+ */
+export function diagnoseJsonError(line: string, lineNumber: number, error: unknown): JsonlDiagnostic {
+  const message = error instanceof Error ? error.message : String(error);
+  const position = getErrorPosition(message, line);
+  const truncated = position !== undefined && position >= line.trimEnd().length;
+  return {
+    kind: truncated ? 'truncated' : 'invalid-json',
+    line: lineNumber,
+    message: truncated ? `Line ends before the JSON is complete (${message})` : message,
+    position,
+    ...makeSnippet(line, position),
+    lineLength: line.length
+  };
+}
+
+/**
+ * Parses a single non-empty JSONL line
+ * @param line The raw line text
+ * @param index Zero-based index of the line in the file, blank lines included
+ * @returns The parsed entry, or an error entry if the line is not valid JSON.
+ * Problem lines carry a _diagnostic.
+ */
+export function parseJsonlLine(line: string, index: number): JsonlEntry {
+  const lineNumber = index + 1;
+  let parsedLine: unknown;
+  try {
+    parsedLine = JSON.parse(line);
+  } catch (error) {
+    // Return an error object instead of logging to console
+    return {
+      history: [],
+      error: `Failed to parse line ${lineNumber}`,
+      _diagnostic: diagnoseJsonError(line, lineNumber, error)
+    };
+  }
+
+  if (typeof parsedLine !== 'object' || parsedLine === null || Array.isArray(parsedLine)) {
+    return {
+      history: [],
+      error: `Line ${lineNumber} is not a JSON object`,
+      _diagnostic: {
+        kind: 'not-an-object',
+        line: lineNumber,
+        message: `Expected a JSON object, found ${Array.isArray(parsedLine) ? 'an array' : parsedLine === null ? 'null' : typeof parsedLine}`,
+        ...makeSnippet(line),
+        lineLength: line.length
+      }
+    };
+  }
+
+  const entry = parsedLine as JsonlEntry;
+  if (!entry.history || !Array.isArray(entry.history)) {
+    // Log warning but still return the parsed line
+    const warning = `Line ${lineNumber} does not have a valid history array`;
+    return {
+      ...entry,
+      _warning: warning,
+      _diagnostic: { kind: 'missing-history', line: lineNumber, message: warning, ...makeSnippet(line), lineLength: line.length }
+    };
+  }
+  return entry;
+}
+
+/**
+ * The problem lines found while parsing, in file order
+ */
+export function getJsonlDiagnostics(entries: JsonlEntry[]): JsonlDiagnostic[] {
+  return entries
+    .filter(entry => entry._diagnostic)
+    .map(entry => entry._diagnostic as JsonlDiagnostic)
+    .sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Reads one line of a JSONL file by its one-based line number, stopping once it is complete
+ */
+export async function readJsonlLine(data: Blob, lineNumber: number): Promise<string | undefined> {
+  let line = 1;
+  let text = '';
+  for await (const { text: chunk } of readTextChunks(data)) {
+    let start = 0;
+    while (line < lineNumber) {
+      const newline = chunk.indexOf('\n', start);
+      if (newline === -1) break;
+      start = newline + 1;
+      line++;
+    }
+    if (line < lineNumber) continue;
+
+    const end = chunk.indexOf('\n', start);
+    if (end !== -1) return (text + chunk.slice(start, end)).replace(/\r$/, '');
+    text += chunk.slice(start);
+  }
+  return line === lineNumber ? text.replace(/\r$/, '') : undefined;
+}
+
+/**
+ * Incremental JSONL parser that accepts arbitrary text chunks.
+ * Lines split across chunk boundaries are buffered until their newline arrives.
+ */
+export class JsonlStreamParser {
+  private pending = '';
+  private lineCount = 0;
+  // Lines seen so far, blank ones included, so diagnostics point at real line numbers
+  private lineIndex = 0;
+
+  /** Number of non-empty lines parsed so far */
+  get linesParsed(): number {
+    return this.lineCount;
+  }
+
+  /**
+   * Feeds a chunk of text to the parser
+   * @returns The entries for every line completed by this chunk
+   */
+  push(chunk: string): JsonlEntry[] {
+    const entries: JsonlEntry[] = [];
+    let start = 0;
+    let newline = chunk.indexOf('\n');
+
+    while (newline !== -1) {
+      const line = this.pending + chunk.slice(start, newline);
+      this.pending = '';
+      this.handleLine(line, entries);
+      start = newline + 1;
+      newline = chunk.indexOf('\n', start);
+    }
+
+    this.pending += chunk.slice(start);
+    return entries;
+  }
+
+  /**
+   * Parses whatever is left after the last newline
+   * @returns The entry for the trailing line, if any
+   */
+  flush(): JsonlEntry[] {
+    const entries: JsonlEntry[] = [];
+    const line = this.pending;
+    this.pending = '';
+    this.handleLine(line, entries);
+    return entries;
+  }
+
+  private handleLine(line: string, entries: JsonlEntry[]) {
+    const index = this.lineIndex++;
+    if (line.trim() === '') return;
+    entries.push(parseJsonlLine(line.replace(/\r$/, ''), index));
+    this.lineCount++;
+  }
+}
+
 /**
  * Parses a JSONL file where each line is a JSON object with a .history element
  * @param content The JSONL file content as a string
  * @returns An array of parsed JSON objects
  */
 export function parseJsonlFile(content: string): JsonlEntry[] {
-  const lines = content.split('\n').filter(line => line.trim() !== '');
-  
-  return lines.map((line, index) => {
-    try {
-      const parsedLine = JSON.parse(line);
-      if (!parsedLine.history || !Array.isArray(parsedLine.history)) {
-        // Log warning but still return the parsed line
-        return {
-          ...parsedLine,
-          _warning: `Line ${index + 1} does not have a valid history array`
-        };
-      }
-      return parsedLine;
-    } catch (error) {
-      // Return an error object instead of logging to console
-      return { history: [], error: `Failed to parse line ${index + 1}` };
-    }
-  });
+  const parser = new JsonlStreamParser();
+  return [...parser.push(content), ...parser.flush()];
 }
-
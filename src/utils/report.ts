@@ -0,0 +1,113 @@
+/**
+ * Helpers for SWE-bench style evaluation reports (output.report.json).
+ *
+ * A report lists instance ids per outcome, e.g.
+ *   { "total_instances": 500, "resolved_ids": [...], "unresolved_ids": [...],
+ *     "empty_patch_ids": [...], "error_ids": [...] }
+ * Older reports use "resolved" / "unresolved" / ... arrays without the _ids suffix.
+ */
+
+export type ReportStatus = 'resolved' | 'unresolved' | 'empty_patch' | 'error';
+
+export const REPORT_STATUSES: ReportStatus[] = ['resolved', 'unresolved', 'empty_patch', 'error'];
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  resolved: 'Resolved',
+  unresolved: 'Unresolved',
+  empty_patch: 'Empty patch',
+  error: 'Error'
+};
+
+export interface EvalReportSummary {
+  statusById: Map<string, ReportStatus>;
+  counts: Record<ReportStatus, number>;
+  totalInstances: number;
+  resolveRate: number;
+}
+
+const getIdList = (report: any, status: ReportStatus): string[] => {
+  const list = report[`${status}_ids`] ?? report[status];
+  return Array.isArray(list) ? list.map(String) : [];
+};
+
+/**
+ * Builds an instance id -> status lookup from a report
+ * @param report The parsed report JSON
+ * @returns The summary, or null if the report has no per-instance id lists
+ */
+export function summarizeEvalReport(report: any): EvalReportSummary | null {
+  if (!report || typeof report !== 'object') return null;
+
+  const statusById = new Map<string, ReportStatus>();
+  // Later statuses win, so an instance listed as resolved is never shown as an error
+  for (const status of ['error', 'empty_patch', 'unresolved', 'resolved'] as ReportStatus[]) {
+    for (const id of getIdList(report, status)) {
+      statusById.set(id, status);
+    }
+  }
+  if (statusById.size === 0) return null;
+
+  const counts: Record<ReportStatus, number> = { resolved: 0, unresolved: 0, empty_patch: 0, error: 0 };
+  statusById.forEach(status => counts[status]++);
+
+  const totalInstances = typeof report.total_instances === 'number'
+    ? report.total_instances
+    : typeof report.submitted_instances === 'number'
+      ? report.submitted_instances
+      : statusById.size;
+
+  return {
+    statusById,
+    counts,
+    totalInstances,
+    resolveRate: totalInstances > 0 ? counts.resolved / totalInstances : 0
+  };
+}
+
+/**
+ * Looks up the report status of a JSONL entry by its instance_id
+ */
+export function getReportStatus(summary: EvalReportSummary | null, instanceId: unknown): ReportStatus | null {
+  if (!summary || instanceId === undefined || instanceId === null) return null;
+  return summary.statusById.get(String(instanceId)) ?? null;
+}
+
+export interface InstanceTestGroup {
+  name: string;
+  success: string[];
+  failure: string[];
+}
+
+export interface InstanceTestSummary {
+  resolved: boolean | null;
+  patchApplied: boolean | null;
+  groups: InstanceTestGroup[];
+}
+
+/**
+ * Reads a per-instance report (eval_outputs/<instance_id>/report.json)
+ *
+ * These are keyed by instance id:
+ *   { "<instance_id>": { "resolved": false, "patch_successfully_applied": true,
+ *     "tests_status": { "FAIL_TO_PASS": { "success": [...], "failure": [...] }, ... } } }
+ * @returns The summary, or null if the report has no entry for the instance
+ */
+export function summarizeInstanceReport(report: any, instanceId: unknown): InstanceTestSummary | null {
+  if (!report || typeof report !== 'object') return null;
+  const instance = report[String(instanceId)];
+  if (!instance || typeof instance !== 'object') return null;
+
+  const toList = (value: unknown): string[] => (Array.isArray(value) ? value.map(String) : []);
+  const testsStatus = instance.tests_status && typeof instance.tests_status === 'object' ? instance.tests_status : {};
+  const groups = Object.entries<any>(testsStatus).map(([name, group]) => ({
+    name,
+    success: toList(group?.success),
+    failure: toList(group?.failure)
+  }));
+
+  return {
+    resolved: typeof instance.resolved === 'boolean' ? instance.resolved : null,
+    patchApplied: typeof instance.patch_successfully_applied === 'boolean' ? instance.patch_successfully_applied : null,
+    groups
+  };
+}
@@ -14,7 +14,19 @@ import {
   EditAction, 
   EditObservation,
   ThinkAction,
-  ThinkObservation
+  ThinkObservation,
+  StrReplaceEditAction,
+  BrowseAction,
+  BrowseInteractiveAction,
+  BrowseObservation,
+  DelegateAction,
+  DelegateObservation,
+  RecallAction,
+  RecallObservation,
+  CondensationAction,
+  MCPAction,
+  MCPObservation,
+  SampleEntry
 } from '../types/share';
 
 // OpenHands index history format checkers
@@ -41,6 +53,9 @@ export const isAgentAction = (data: any): boolean =>
 export const isConversationStateUpdate = (data: any): boolean =>
   data?.source === "environment" && data?.kind === "ConversationStateUpdateEvent";
 
+export const isToolObservation = (data: any): boolean =>
+  data?.source === "environment" && data?.kind === "ObservationEvent";
+
 export const isModelResponse = (data: any): boolean =>
   data?.source === "environment" && data?.kind === "ModelResponseEvent";
 
@@ -92,3 +107,50 @@ export const isThinkAction = (data: TrajectoryItem): data is ThinkAction =>
 export const isThinkObservation = (data: TrajectoryItem): data is ThinkObservation =>
   "observation" in data && data.observation === "think" && "source" in data && data.source === "agent";
 
+// Edits made through str_replace_editor carry its command instead of whole-file contents
+export const isStrReplaceEditAction = (data: TrajectoryItem): data is StrReplaceEditAction =>
+  isEditAction(data) && ("command" in data.args || "old_str" in data.args || "file_text" in data.args);
+
+export const isBrowseAction = (data: TrajectoryItem): data is BrowseAction =>
+  "action" in data && data.action === "browse";
+
+export const isBrowseInteractiveAction = (data: TrajectoryItem): data is BrowseInteractiveAction =>
+  "action" in data && data.action === "browse_interactive";
+
+export const isBrowseObservation = (data: TrajectoryItem): data is BrowseObservation =>
+  "observation" in data && data.observation === "browse";
+
+export const isDelegateAction = (data: TrajectoryItem): data is DelegateAction =>
+  "action" in data && data.action === "delegate";
+
+export const isDelegateObservation = (data: TrajectoryItem): data is DelegateObservation =>
+  "observation" in data && data.observation === "delegate";
+
+export const isRecallAction = (data: TrajectoryItem): data is RecallAction =>
+  "action" in data && data.action === "recall";
+
+export const isRecallObservation = (data: TrajectoryItem): data is RecallObservation =>
+  "observation" in data && data.observation === "recall";
+
+export const isCondensationAction = (data: TrajectoryItem): data is CondensationAction =>
+  "action" in data && data.action === "condensation";
+
+export const isMCPAction = (data: TrajectoryItem): data is MCPAction =>
+  "action" in data && (data.action === "call_tool_mcp" || data.action === "mcp");
+
+export const isMCPObservation = (data: TrajectoryItem): data is MCPObservation =>
+  "observation" in data && data.observation === "mcp";
+
+
+// sample-trajectory.json entries use type/actorType instead of action/observation
+export const isSampleEntry = (data: TrajectoryItem): data is SampleEntry =>
+  "type" in data && "actorType" in data && !("action" in data) && !("observation" in data);
+
+export const isSampleMessage = (data: TrajectoryItem): data is SampleEntry =>
+  isSampleEntry(data) && data.type === "message";
+
+export const isSampleThought = (data: TrajectoryItem): data is SampleEntry =>
+  isSampleEntry(data) && data.type === "thought";
+
+export const isSampleCommand = (data: TrajectoryItem): data is SampleEntry =>
+  isSampleEntry(data) && data.type === "command";
@@ -0,0 +1,127 @@
+import { JsonlEntry, JsonlStreamParser } from '../utils/jsonl-parser';
+import { decompressTarGzStream, MAX_ARCHIVE_SIZE } from '../lib/tarExtractor';
+import { loadFileData } from '../lib/fileLoader';
+import { readBlob, readTextChunks } from '../utils/blob';
+import { LoadProgress, LoaderMessage, LoaderRequest, LoaderResult } from '../types/loader';
+
+// Task implementations shared by the loader worker and the main-thread fallback
+
+export interface LoaderTaskContext {
+  emit: (message: LoaderMessage) => void;
+  isCancelled: () => boolean;
+  // Aborts downloads on the main thread; a worker is terminated instead
+  signal?: AbortSignal;
+}
+
+const PROGRESS_INTERVAL_MS = 100;
+
+// Give the event loop a chance to deliver cancellation and repaint between chunks
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const createProgressReporter = (ctx: LoaderTaskContext) => {
+  let lastReport = 0;
+  return (progress: LoadProgress, force = false) => {
+    const now = Date.now();
+    if (force || now - lastReport >= PROGRESS_INTERVAL_MS) {
+      lastReport = now;
+      ctx.emit({ type: 'progress', progress });
+    }
+  };
+};
+
+/**
+ * Parses a JSONL file chunk by chunk, streaming parsed entries back in batches.
+ * The file is decoded a chunk at a time; progress is measured in bytes.
+ */
+export async function parseJsonlTask(data: Blob, ctx: LoaderTaskContext): Promise<void> {
+  const parser = new JsonlStreamParser();
+  const report = createProgressReporter(ctx);
+  const totalBytes = data.size;
+
+  for await (const { text, bytesRead } of readTextChunks(data)) {
+    if (ctx.isCancelled()) return;
+
+    const entries: JsonlEntry[] = parser.push(text);
+    if (entries.length > 0) {
+      ctx.emit({ type: 'entries', entries });
+    }
+    report({ phase: 'parsing', bytesProcessed: bytesRead, totalBytes, lines: parser.linesParsed });
+    await yieldToEventLoop();
+  }
+
+  const trailing = parser.flush();
+  if (trailing.length > 0) {
+    ctx.emit({ type: 'entries', entries: trailing });
+  }
+  report({ phase: 'parsing', bytesProcessed: totalBytes, totalBytes, lines: parser.linesParsed }, true);
+}
+
+// The body of a response as it arrives, or in one piece where it cannot be streamed
+async function* readResponseChunks(response: Response, ctx: LoaderTaskContext): AsyncGenerator<Uint8Array> {
+  if (!response.body) {
+    yield new Uint8Array(await response.arrayBuffer());
+    return;
+  }
+  const reader = response.body.getReader();
+  for (;;) {
+    if (ctx.isCancelled()) {
+      await reader.cancel();
+      throw new DOMException('Loading cancelled', 'AbortError');
+    }
+    const { done, value } = await reader.read();
+    if (done) return;
+    yield value;
+  }
+}
+
+/**
+ * Downloads a tar.gz archive and extracts the evaluation output from it while
+ * it arrives, so the download is never held in memory.
+ */
+export async function fetchArchiveTask(url: string, ctx: LoaderTaskContext): Promise<LoaderResult> {
+  const response = await fetch(url, {
+    mode: 'cors',
+    signal: ctx.signal,
+    headers: {
+      'Accept': 'application/gzip, application/x-tar, */*'
+    }
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch tar.gz: ${response.status} ${response.statusText}`);
+  }
+  const contentLength = response.headers.get('content-length');
+  const totalBytes = contentLength ? parseInt(contentLength, 10) : undefined;
+  if (totalBytes !== undefined && totalBytes > MAX_ARCHIVE_SIZE) {
+    throw new Error(`File too large (max ${MAX_ARCHIVE_SIZE / 1024 / 1024}MB)`);
+  }
+
+  const report = createProgressReporter(ctx);
+  // Tells the caller the server answered before any data has arrived
+  report({ phase: 'downloading', bytesProcessed: 0, totalBytes }, true);
+  return decompressTarGzStream(readResponseChunks(response, ctx), bytesProcessed => {
+    report({ phase: 'downloading', bytesProcessed, totalBytes });
+  });
+}
+
+/**
+ * Sniffs a file's format and extracts or decodes it accordingly.
+ */
+export async function loadFileTask(data: Blob, fileName: string | undefined, ctx: LoaderTaskContext): Promise<LoaderResult> {
+  const report = createProgressReporter(ctx);
+  return loadFileData(new Uint8Array(await readBlob(data)), fileName, (bytesProcessed, totalBytes) => {
+    const done = bytesProcessed === totalBytes;
+    report({ phase: done ? 'extracting' : 'decompressing', bytesProcessed, totalBytes }, done);
+  });
+}
+
+export async function runLoaderTask(request: LoaderRequest, ctx: LoaderTaskContext): Promise<LoaderResult> {
+  switch (request.type) {
+    case 'parse-jsonl':
+      await parseJsonlTask(request.data, ctx);
+      return null;
+    case 'fetch-archive':
+      return fetchArchiveTask(request.url, ctx);
+    case 'load-file':
+      return loadFileTask(request.data, request.fileName, ctx);
+  }
+}
@@ -0,0 +1,22 @@
+import { runLoaderTask } from './loader-tasks';
+import { LoaderMessage, LoaderRequest } from '../types/loader';
+
+// Web Worker entry point for heavy parsing and decompression.
+// Each task runs in its own worker; the main thread cancels by terminating it.
+
+interface LoaderWorkerScope {
+  onmessage: ((event: MessageEvent<LoaderRequest>) => void) | null;
+  postMessage: (message: LoaderMessage) => void;
+}
+
+const scope = self as unknown as LoaderWorkerScope;
+
+scope.onmessage = async (event) => {
+  const emit = (message: LoaderMessage) => scope.postMessage(message);
+  try {
+    const result = await runLoaderTask(event.data, { emit, isCancelled: () => false });
+    emit({ type: 'done', result });
+  } catch (err) {
+    emit({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -1,9 +1,24 @@
-import { defineConfig } from 'vite';
+import { resolve } from 'node:path';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import viteTsconfigPaths from 'vite-tsconfig-paths';
+import { createCorsProxy } from './scripts/cors-proxy.mjs';
+
+// Serves the allowlisted CORS proxy at /api/proxy in dev and preview. Preview
+// serves the build, so it reads the config.json that was deployed with it.
+const corsProxyPlugin = (): Plugin => ({
+  name: 'cors-proxy',
+  configureServer(server) {
+    server.middlewares.use('/api/proxy', createCorsProxy({ configPath: resolve(server.config.publicDir, 'config.json') }));
+  },
+  configurePreviewServer(server) {
+    const outDir = resolve(server.config.root, server.config.build.outDir);
+    server.middlewares.use('/api/proxy', createCorsProxy({ configPath: resolve(outDir, 'config.json') }));
+  },
+});
 
 export default defineConfig({
-  plugins: [react(), viteTsconfigPaths()],
+  plugins: [react(), viteTsconfigPaths(), corsProxyPlugin()],
   server: {
     port: 12000,
     host: '0.0.0.0',